@@ -6,47 +6,79 @@ import AIAssistant from './components/AIAssistant';
 import LayersPanel from './components/LayersPanel';
 import TextToolbar from './components/TextToolbar';
 import ConfirmationDialog from './components/ConfirmationDialog';
-import type { CanvasElement, ChatMessage, CanvasAreaHandle, Layer, CanvasGroup, CanvasImageElement, CanvasTextElement } from './types';
-import { Tool } from './types';
-import { generateImage, removeBackground } from './services/geminiService';
-
-const useHistory = <T,>(initialState: T) => {
-  const [history, setHistory] = useState<T[]>([initialState]);
-  const [currentIndex, setCurrentIndex] = useState(0);
-
-  const state = history[currentIndex];
-
-  const setState = useCallback((action: React.SetStateAction<T>, immediate = false) => {
-    const newState = typeof action === 'function'
-      ? (action as (prevState: T) => T)(history[currentIndex])
-      : action;
-    
-    if (JSON.stringify(newState) === JSON.stringify(history[currentIndex])) {
-        return;
-    }
-
-    const newHistory = history.slice(0, currentIndex + 1);
-    newHistory.push(newState);
-    setHistory(newHistory);
-    setCurrentIndex(newHistory.length - 1);
-  }, [history, currentIndex]);
-
-  const undo = useCallback(() => {
-    if (currentIndex > 0) {
-      setCurrentIndex(currentIndex - 1);
-    }
-  }, [currentIndex]);
-
-  const redo = useCallback(() => {
-    if (currentIndex < history.length - 1) {
-      setCurrentIndex(currentIndex - 1);
-    }
-  }, [currentIndex, history.length]);
-
-  const canUndo = currentIndex > 0;
-  const canRedo = currentIndex < history.length - 1;
+import GenerativeFillToolbar from './components/GenerativeFillToolbar';
+import OutpaintToolbar from './components/OutpaintToolbar';
+import LineageDialog from './components/LineageDialog';
+import ExportDialog from './components/ExportDialog';
+import HistoryPanel from './components/HistoryPanel';
+import ZoomControls from './components/ZoomControls';
+import ArtboardToolbar from './components/ArtboardToolbar';
+import PathToolbar from './components/PathToolbar';
+import ShapeToolbar from './components/ShapeToolbar';
+import ImageToolbar from './components/ImageToolbar';
+import type { ArtboardPreset, BrushSettings, CanvasArtboard, CanvasElement, CanvasPathElement, CanvasShapeElement, ShapePreset, ShapeStyle, ChatMessage, CanvasAreaHandle, Layer, CanvasGroup, CanvasImageElement, CanvasTextElement, ExportOptions, ImageAdjustment, LayerCompositing, MaskMode, MaskPath, OutpaintExtension, GenerationOptions, GenerationPlacement, StrokeMode, TextSelection, CustomFont, Viewport } from './types';
+import { Tool, isCanvasElement } from './types';
+import { DEFAULT_EXPORT_OPTIONS, DEFAULT_SHAPE_STYLE, EXPORT_FORMATS, SHAPE_PRESETS } from './constants';
+import { generateImages, removeBackground, inpaintImage, outpaintImage, createProvenanceStep, isAIAvailable, getActiveProvider, AI_DISABLED_MESSAGE } from './services/aiService';
+import { downloadProject, readProjectFile } from './services/projectService';
+import { saveSession, loadSession, clearSession } from './services/autosaveService';
+import type { SavedSession } from './services/autosaveService';
+import { getCombinedBounds, getRotatedBounds, fitSize, screenToCanvas, canvasToScreen, zoomAtPoint, fitBoundsInViewport, getVisibleBounds } from './utils/geometry';
+import type { Bounds, Point } from './utils/geometry';
+import { createHistory, recordChange, undoHistory, redoHistory, jumpToHistory, setSnapshotName, getRedoChild } from './utils/history';
+import type { HistoryEntryOptions, HistoryLimits, HistoryState } from './utils/history';
+import { canvasToBlob, downloadBlob, downloadDataUrl } from './utils/exportUtils';
+import { renderArtboard, renderScene, resolveScene } from './utils/sceneRenderer';
+import type { Scene } from './utils/sceneRenderer';
+import { buildSvg } from './utils/svgExport';
+import { createImagePdf } from './utils/pdfExport';
+import { cropImage, getUncroppedBox } from './utils/crop';
+import { getCanvasStrokes } from './utils/vectorPaths';
+import { getDraggedShapeBox, getLineBoxHeight } from './utils/shapes';
+import { DEFAULT_FONT_FAMILY, readFontFile, registerFont } from './utils/fonts';
+import { DEFAULT_LINE_HEIGHT, fitTextBox } from './utils/textLayout';
+import { loadImage, imageToDataUrl, getMaskBounds, createElementMask, compositeMaskedRegion, padImageForOutpaint } from './utils/imageUtils';
+
+// Keeps the layer history in a ref as well as in state, so consecutive
+// updates in one handler build on each other and updater functions run
+// synchronously, like they would with a plain `setState`.
+const useHistory = (initialState: Layer[], limits: Partial<HistoryLimits> = {}) => {
+  const [history, setHistory] = useState(() => createHistory(initialState, limits));
+  const historyRef = useRef(history);
+
+  const commit = useCallback((next: HistoryState) => {
+    if (next === historyRef.current) return;
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
 
-  return { state, setState, undo, redo, canUndo, canRedo };
+  const setState = useCallback((action: React.SetStateAction<Layer[]>, options: HistoryEntryOptions = {}) => {
+    const current = historyRef.current;
+    const next = typeof action === 'function' ? action(current.present) : action;
+    commit(recordChange(current, next, options, Date.now()));
+  }, [commit]);
+
+  const undo = useCallback(() => commit(undoHistory(historyRef.current)), [commit]);
+  const redo = useCallback(() => commit(redoHistory(historyRef.current)), [commit]);
+  const reset = useCallback((newState: Layer[]) => commit(createHistory(newState, historyRef.current.limits)), [commit]);
+  const jumpTo = useCallback((id: string) => commit(jumpToHistory(historyRef.current, id)), [commit]);
+  const nameSnapshot = useCallback((id: string, name: string | null) => commit(setSnapshotName(historyRef.current, id, name)), [commit]);
+  const current = history.nodes[history.currentId];
+
+  return {
+    state: history.present,
+    setState,
+    undo,
+    redo,
+    reset,
+    jumpTo,
+    nameSnapshot,
+    history,
+    canUndo: current.parentId !== null,
+    canRedo: current.childIds.length > 0,
+    undoLabel: current.parentId !== null ? current.label : undefined,
+    redoLabel: getRedoChild(history)?.label,
+  };
 };
 
 const initialLayers: Layer[] = [
@@ -67,33 +99,146 @@ const initialLayers: Layer[] = [
 
 interface Rect { x: number; y: number; width: number; height: number; rotation: number; }
 
+const NO_OUTPAINT_EXTENSION: OutpaintExtension = { top: 0, right: 0, bottom: 0, left: 0 };
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+const INITIAL_VIEWPORT: Viewport = { x: 0, y: 0, zoom: 1 };
+const ZOOM_STEP = 1.25;
+// Zooming to a small selection shouldn't blow it up beyond this.
+const SELECTION_MAX_ZOOM = 4;
+
+// Size of a shape placed with a click instead of a drag, in screen pixels.
+const DEFAULT_SHAPE_SIZE = 120;
+
+const GENERATED_MAX_SIZE = 400;
+const GENERATED_GAP = 24;
+
+// Sizes a generated image from its real pixel dimensions and places it next
+// to (or over) its references, or centered on `fallbackCenter` without any.
+const createGeneratedElement = (
+  src: string,
+  name: string,
+  naturalSize: { width: number; height: number },
+  references: CanvasImageElement[],
+  placement: GenerationPlacement,
+  fallbackCenter: { x: number; y: number }
+): CanvasImageElement => {
+  const bounds = getCombinedBounds(references);
+  let rect: { x: number; y: number; width: number; height: number };
+
+  if (!bounds) {
+    const size = fitSize(naturalSize.width, naturalSize.height, GENERATED_MAX_SIZE);
+    rect = { ...size, x: fallbackCenter.x - size.width / 2, y: fallbackCenter.y - size.height / 2 };
+  } else if (placement === 'on-top') {
+    const scale = Math.min(bounds.width / naturalSize.width, bounds.height / naturalSize.height);
+    const width = naturalSize.width * scale;
+    const height = naturalSize.height * scale;
+    rect = { width, height, x: bounds.x + (bounds.width - width) / 2, y: bounds.y + (bounds.height - height) / 2 };
+  } else {
+    const height = bounds.height;
+    const width = height * naturalSize.width / naturalSize.height;
+    rect = { width, height, x: bounds.x + bounds.width + GENERATED_GAP, y: bounds.y };
+  }
+
+  return {
+    id: `el-${Date.now()}`,
+    type: 'image',
+    name: name.substring(0, 20),
+    src,
+    ...rect,
+    rotation: 0,
+    mimeType: 'image/png',
+    visible: true,
+    ...(references.length > 0 ? { sourceLayerIds: references.map(r => r.id) } : {}),
+  };
+};
+
+// Moves or resizes an artboard. A move carries `contentIds` along so they keep
+// their place on it; a resize only changes the frame.
+const applyArtboardUpdate = (layers: Layer[], artboard: CanvasArtboard, props: Partial<CanvasElement>, contentIds: Set<string>): Layer[] => {
+  const { x = artboard.x, y = artboard.y } = props;
+  const width = Math.max(1, Math.round(props.width ?? artboard.width));
+  const height = Math.max(1, Math.round(props.height ?? artboard.height));
+  const isMove = width === artboard.width && height === artboard.height;
+  const dx = isMove ? x - artboard.x : 0;
+  const dy = isMove ? y - artboard.y : 0;
+
+  return layers.map(l => {
+    if (l.id === artboard.id) {
+      return { ...artboard, x, y, width, height };
+    }
+    if ((dx || dy) && contentIds.has(l.id) && isCanvasElement(l)) {
+      return { ...l, x: l.x + dx, y: l.y + dy };
+    }
+    return l;
+  });
+};
+
 const App: React.FC = () => {
   const { 
     state: layers, 
     setState: setLayers, 
     undo, 
     redo, 
+    reset: resetLayers,
+    jumpTo: jumpToHistoryStep,
+    nameSnapshot,
+    history,
     canUndo, 
-    canRedo 
-  } = useHistory<Layer[]>(initialLayers);
+    canRedo,
+    undoLabel,
+    redoLabel,
+  } = useHistory(initialLayers);
   
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Which groups are collapsed in the layers panel. This is how the panel
+  // looks, not part of the document, so it stays out of the undo history.
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
   const [activeTool, setActiveTool] = useState<Tool>(Tool.Select);
-  const [drawingColor, setDrawingColor] = useState<string>('#FF0000');
+  const [brush, setBrush] = useState<BrushSettings>({ color: '#FF0000', width: 5, opacity: 1, smoothing: 0.5 });
+  const [strokeMode, setStrokeMode] = useState<StrokeMode>('draw');
+  const [editingPathId, setEditingPathId] = useState<string | null>(null);
+  // The image whose frame is being moved over it rather than scaling it.
+  const [croppingId, setCroppingId] = useState<string | null>(null);
+  // Characters picked while editing a text element, for styling just those.
+  const [textSelection, setTextSelection] = useState<TextSelection | null>(null);
+  const [customFonts, setCustomFonts] = useState<CustomFont[]>([]);
+  const [shapePreset, setShapePreset] = useState<ShapePreset>(SHAPE_PRESETS[0]);
+  const [maskMode, setMaskMode] = useState<MaskMode>('brush');
+  const [maskBrushSize, setMaskBrushSize] = useState(40);
+  // In canvas coordinates, so the toolbar follows the mask when panning or zooming.
+  const [fillToolbarAnchor, setFillToolbarAnchor] = useState<{ x: number; y: number } | null>(null);
+  const [viewport, setViewport] = useState<Viewport>(INITIAL_VIEWPORT);
+  const [fillPrompt, setFillPrompt] = useState('');
+  const [outpaintExtension, setOutpaintExtension] = useState<OutpaintExtension>(NO_OUTPAINT_EXTENSION);
+  const [outpaintPrompt, setOutpaintPrompt] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
   const [processingMessage, setProcessingMessage] = useState('');
-  const [messages, setMessages] = useState<ChatMessage[]>([
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [
     {
       id: 'welcome-message',
       role: 'system',
-      content: "Welcome! Draw on the canvas and tell me what you'd like me to generate or edit."
+      content: isAIAvailable()
+        ? `Welcome! Draw on the canvas and tell me what you'd like me to generate or edit. (Using ${getActiveProvider()?.label}.)`
+        : `Welcome! ${AI_DISABLED_MESSAGE} You can still draw, add images and text, and save your work.`
     }
   ]);
+  const aiAvailable = isAIAvailable();
   const [sidebarWidth, setSidebarWidth] = useState(380);
   const [layersPanelHeight, setLayersPanelHeight] = useState(300);
   const [isShiftPressed, setIsShiftPressed] = useState(false);
+  const [hasSketch, setHasSketch] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [pendingSession, setPendingSession] = useState<SavedSession | null>(null);
+  const [lineageLayerId, setLineageLayerId] = useState<string | null>(null);
+  const [sidebarView, setSidebarView] = useState<'layers' | 'history'>('layers');
+  // Autosave stays off until we know whether there is a previous session to
+  // restore, so the startup document can't overwrite it.
+  const [isAutosaveReady, setIsAutosaveReady] = useState(false);
   
   const drawingCanvasRef = useRef<HTMLCanvasElement>(null);
   const canvasContainerRef = useRef<HTMLDivElement>(null);
@@ -102,7 +247,31 @@ const App: React.FC = () => {
   const isResizingVertical = useRef(false);
   const isResizingHorizontal = useRef(false);
 
-  const renderableElements = useMemo(() => layers.filter((l): l is CanvasElement => l.type === 'image' || l.type === 'text'), [layers]);
+  const renderableElements = useMemo(() => layers.filter(isCanvasElement), [layers]);
+
+  const selectedElementIds = useMemo(() => {
+    const elementIds = new Set<string>();
+    const layersById = new Map(layers.map(l => [l.id, l]));
+
+    function addElementsFrom(layerId: string) {
+        const layer = layersById.get(layerId);
+        if (!layer) return;
+
+        // Artboards are moved and resized as a whole, not through their contents.
+        if (isCanvasElement(layer) || layer.type === 'artboard') {
+            elementIds.add(layer.id);
+        } else if (layer.type === 'group') {
+            layers.forEach(l => {
+                if (l.parentId === layer.id) {
+                    addElementsFrom(l.id);
+                }
+            });
+        }
+    }
+    selectedIds.forEach(id => addElementsFrom(id));
+    return Array.from(elementIds);
+  }, [selectedIds, layers]);
+
   const imageElements = useMemo(() => layers.filter((l): l is CanvasImageElement => l.type === 'image'), [layers]);
 
   const getDescendantIds = useCallback((layerId: string): string[] => {
@@ -110,7 +279,7 @@ const App: React.FC = () => {
     const children = layers.filter(l => l.parentId === layerId);
     for (const child of children) {
         descendants.push(child.id);
-        if (child.type === 'group') {
+        if (child.type === 'group' || child.type === 'artboard') {
             descendants.push(...getDescendantIds(child.id));
         }
     }
@@ -140,6 +309,33 @@ const App: React.FC = () => {
     drawingCanvasRef.current?.dispatchEvent(event);
   }, []);
 
+  // A text selection only applies while its element is the one selected.
+  useEffect(() => {
+    if (textSelection && (selectedIds.length !== 1 || selectedIds[0] !== textSelection.id)) {
+      setTextSelection(null);
+    }
+  }, [textSelection, selectedIds]);
+
+  useEffect(() => {
+    customFonts.forEach(font => registerFont(font).catch(error => {
+      console.error(`Could not load the font ${font.family}:`, error);
+    }));
+  }, [customFonts]);
+
+  // Cropping ends once its image is deselected or another tool is picked.
+  useEffect(() => {
+    if (croppingId && (activeTool !== Tool.Select || selectedIds.length !== 1 || selectedIds[0] !== croppingId)) {
+      setCroppingId(null);
+    }
+  }, [croppingId, activeTool, selectedIds]);
+
+  const clearMask = useCallback(() => {
+    const event = new CustomEvent('clearMask');
+    drawingCanvasRef.current?.dispatchEvent(event);
+    setFillToolbarAnchor(null);
+    setFillPrompt('');
+  }, []);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Shift' && !e.repeat) setIsShiftPressed(true);
@@ -169,6 +365,60 @@ const App: React.FC = () => {
     };
   }, [undo, redo, handleDeleteSelected]);
 
+  useEffect(() => {
+    let cancelled = false;
+    loadSession()
+      .then(session => {
+        if (cancelled) return;
+        if (session && session.state.layers.length > 0) {
+          setPendingSession(session);
+        } else {
+          setIsAutosaveReady(true);
+        }
+      })
+      .catch(error => {
+        console.error('Could not load the last session:', error);
+        if (!cancelled) setIsAutosaveReady(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!isAutosaveReady) return;
+    const timer = setTimeout(() => {
+      saveSession({ layers, messages, selectedIds, fonts: customFonts }).catch(error => {
+        console.error('Autosave failed:', error);
+      });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isAutosaveReady, layers, messages, selectedIds, customFonts]);
+
+  const handleRestoreSession = () => {
+    if (!pendingSession) return;
+    const { state, savedAt } = pendingSession;
+    resetLayers(state.layers);
+    setSelectedIds(state.selectedIds);
+    setCustomFonts(state.fonts);
+    setMessages([
+      ...state.messages,
+      {
+        id: `msg-${Date.now()}-restore`,
+        role: 'system',
+        content: `Restored your session from ${new Date(savedAt).toLocaleString()}.`,
+      },
+    ]);
+    setPendingSession(null);
+    setIsAutosaveReady(true);
+  };
+
+  // Starting fresh drops the saved session, so it isn't offered again if
+  // the page closes before the next autosave.
+  const handleDiscardSession = () => {
+    clearSession().catch(error => console.error('Could not clear the last session:', error));
+    setPendingSession(null);
+    setIsAutosaveReady(true);
+  };
+
   const handleVerticalResizeMouseMove = useCallback((e: MouseEvent) => {
     if (isResizingVertical.current) {
       const newWidth = window.innerWidth - e.clientX;
@@ -229,13 +479,14 @@ const App: React.FC = () => {
     const base64 = await fileToBase64(file);
     const img = new Image();
     img.onload = () => {
+        const origin = screenToCanvas({ x: 50, y: 50 }, viewport);
         const newElement: CanvasImageElement = {
             id: `el-${Date.now()}`,
             type: 'image',
             name: file.name.split('.')[0] || 'New Image',
             src: base64,
-            x: 50,
-            y: 50,
+            x: origin.x,
+            y: origin.y,
             width: img.width > 400 ? 400 : img.width,
             height: img.height > 400 ? (img.height * 400 / img.width) : img.height,
             rotation: 0,
@@ -265,6 +516,11 @@ const App: React.FC = () => {
       fontStyle: 'normal',
       textDecoration: 'none',
       align: 'center',
+      fontFamily: DEFAULT_FONT_FAMILY,
+      lineHeight: DEFAULT_LINE_HEIGHT,
+      letterSpacing: 0,
+      textTransform: 'none',
+      sizing: 'auto-width',
       visible: true,
       // Text Effects Defaults
       shadowEnabled: false,
@@ -279,31 +535,137 @@ const App: React.FC = () => {
       gradientColors: ['#ff0000', '#0000ff'],
       gradientDirection: 'to right',
     };
-    setLayers(prev => [newTextElement, ...prev]);
+    setLayers(prev => [fitTextBox(newTextElement), ...prev]);
     setSelectedIds([newTextElement.id]);
     setActiveTool(Tool.Select);
   };
   
+  const handleAddShape = (start: Point, end: Point, constrain: boolean) => {
+    const style: ShapeStyle = { ...DEFAULT_SHAPE_STYLE, ...shapePreset.style };
+    // A click without a drag places a shape of the default size on screen.
+    const isClick = Math.hypot(end.x - start.x, end.y - start.y) * viewport.zoom < 4;
+    const size = DEFAULT_SHAPE_SIZE / viewport.zoom;
+    const box = getDraggedShapeBox(
+      shapePreset.shape,
+      start,
+      isClick ? { x: start.x + size, y: shapePreset.shape === 'line' ? start.y : start.y + size } : end,
+      style.strokeWidth,
+      constrain
+    );
+    const newShape: CanvasShapeElement = {
+      id: `el-${Date.now()}`,
+      type: 'shape',
+      name: shapePreset.label,
+      shape: shapePreset.shape,
+      ...style,
+      ...box,
+      visible: true,
+    };
+    setLayers(prev => [newShape, ...prev]);
+    setSelectedIds([newShape.id]);
+    setActiveTool(Tool.Select);
+  };
+
+  const handleUpdateShapeProps = (id: string, newProps: Partial<ShapeStyle>) => {
+    setLayers(prev => prev.map(l => {
+        if (l.id !== id || l.type !== 'shape') return l;
+        const updated = { ...l, ...newProps };
+        if (l.shape === 'line' && newProps.strokeWidth !== undefined) {
+            // Keep the line's box tall enough for its arrowheads, around the same center.
+            const height = getLineBoxHeight(newProps.strokeWidth);
+            return { ...updated, height, y: l.y + (l.height - height) / 2 };
+        }
+        return updated;
+    }));
+  };
+
+  const handleUpdateAdjustments = (id: string, adjustments: ImageAdjustment[]) => {
+    setLayers(
+      prev => prev.map(l => l.id === id && l.type === 'image' ? { ...l, adjustments } : l),
+      { label: 'Adjust image' }
+    );
+  };
+
+  const handleResetCrop = (id: string) => {
+    setLayers(prev => prev.map(l => {
+      if (l.id !== id || l.type !== 'image' || !l.crop) return l;
+      const { x, y, width, height } = getUncroppedBox(l);
+      return { ...l, x, y, width, height, crop: undefined };
+    }), { label: 'Reset crop' });
+  };
+
+  const handleToggleClippingMask = (id: string) => {
+    setLayers(
+      prev => prev.map(l => l.id === id && (l.type === 'shape' || l.type === 'group') ? { ...l, clippingMask: !l.clippingMask } : l),
+      { label: 'Toggle clipping mask' }
+    );
+  };
+
   const handleUpdateTextProps = (id: string, newProps: Partial<CanvasTextElement>) => {
     setLayers(prev => prev.map(l => {
         if (l.id === id && l.type === 'text') {
-            return { ...l, ...newProps };
+            // Auto-sized boxes follow their text as it's edited or restyled.
+            return fitTextBox({ ...l, ...newProps });
         }
         return l;
     }));
   };
 
+  // Fonts are part of the document but not of its undo history.
+  const handleUploadFont = async (file: File): Promise<CustomFont | null> => {
+    try {
+      const font = await readFontFile(file);
+      await registerFont(font);
+      setCustomFonts(prev => [...prev.filter(f => f.family !== font.family), font]);
+      return font;
+    } catch (error) {
+      console.error(error);
+      const errorMessage: ChatMessage = {
+        id: `msg-${Date.now()}-err`,
+        role: 'system',
+        content: error instanceof Error ? error.message : 'An unknown error occurred while adding the font.',
+      };
+      setMessages(prev => [...prev, errorMessage]);
+      return null;
+    }
+  };
+
   const handleSetActiveTool = (tool: Tool) => {
+    if (tool !== Tool.Draw && editingPathId) {
+      // Leaving the Draw tool keeps the edits to the path layer.
+      handleFinalizeDrawing();
+    }
     if (tool !== Tool.Draw) {
       clearDrawing();
     }
+    if (tool !== Tool.GenerativeFill) {
+      clearMask();
+    }
+    if (tool !== Tool.Outpaint) {
+      resetOutpaint();
+    }
     setActiveTool(tool);
   };
 
   const handleFinalizeDrawing = () => {
-    const drawingData = canvasAreaRef.current?.getDrawingAsElement();
+    const drawingData = canvasAreaRef.current?.getDrawingAsPath();
+    const editedPath = layers.find(l => l.id === editingPathId);
+    if (editedPath?.type === 'path') {
+        setEditingPathId(null);
+        if (drawingData) {
+            setLayers(prev => prev.map(l => l.id === editedPath.id ? { ...editedPath, ...drawingData, id: editedPath.id } : l), { label: 'Edit drawing' });
+            setSelectedIds([editedPath.id]);
+        } else {
+            // Everything was erased.
+            setLayers(prev => prev.filter(l => l.id !== editedPath.id), { label: 'Edit drawing' });
+            setSelectedIds([]);
+        }
+        clearDrawing();
+        setActiveTool(Tool.Select);
+        return;
+    }
     if (drawingData) {
-        const newElement: CanvasImageElement = {
+        const newElement: CanvasPathElement = {
             ...drawingData,
             name: 'Drawing',
             visible: true,
@@ -315,6 +677,24 @@ const App: React.FC = () => {
     }
   };
 
+  // Puts a path layer's strokes back on the drawing layer so they can be drawn
+  // over and erased; finalizing writes them back into the same layer.
+  const handleEditPath = (id: string) => {
+    const path = layers.find(l => l.id === id);
+    if (path?.type !== 'path') return;
+    handleSetActiveTool(Tool.Draw);
+    canvasAreaRef.current?.loadDrawing(getCanvasStrokes(path));
+    setEditingPathId(id);
+    setSelectedIds([]);
+  };
+
+  const handleUpdatePathStyle = (id: string, settings: Partial<BrushSettings>) => {
+    setLayers(prev => prev.map(l => l.id === id && l.type === 'path'
+      ? { ...l, strokes: l.strokes.map(stroke => stroke.mode === 'draw' ? { ...stroke, ...settings } : stroke) }
+      : l
+    ));
+  };
+
   const handleRemoveBackground = async () => {
     if (selectedIds.length !== 1) return;
     const selectedElement = layers.find((l): l is CanvasImageElement => l.id === selectedIds[0] && l.type === 'image');
@@ -324,15 +704,17 @@ const App: React.FC = () => {
     setProcessingMessage('Removing background...');
 
     try {
+      const step = createProvenanceStep('remove-background', { inputSrc: selectedElement.src });
       const resultImage = await removeBackground(selectedElement.src, selectedElement.mimeType);
       
       const updatedElement: CanvasImageElement = {
         ...selectedElement,
         src: resultImage,
-        mimeType: 'image/png'
+        mimeType: 'image/png',
+        provenance: [...(selectedElement.provenance ?? []), step],
       };
 
-      setLayers(prev => prev.map(l => l.id === selectedElement.id ? updatedElement : l));
+      setLayers(prev => prev.map(l => l.id === selectedElement.id ? updatedElement : l), { label: 'Remove background' });
       
       const successMessage: ChatMessage = {
         id: `msg-${Date.now()}-ai`,
@@ -355,48 +737,187 @@ const App: React.FC = () => {
     }
   };
 
-  const handleSendMessage = async (prompt: string) => {
+  const handleMaskChange = (paths: MaskPath[]) => {
+    const bounds = getMaskBounds(paths);
+    if (!bounds) return;
+    setFillToolbarAnchor({ x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height });
+  };
+
+  const handleCancelGenerativeFill = () => {
+    clearMask();
+  };
+
+  const handleGenerativeFill = async () => {
+    const maskPaths = canvasAreaRef.current?.getMaskPaths() ?? [];
+    const selectedElement = selectedIds.length === 1
+      ? layers.find((l): l is CanvasImageElement => l.id === selectedIds[0] && l.type === 'image')
+      : undefined;
+    if (!fillPrompt.trim() || maskPaths.length === 0) return;
+    if (!selectedElement) {
+      const errorMessage: ChatMessage = {
+        id: `msg-${Date.now()}-err`,
+        role: 'system',
+        content: 'Select a single image to use generative fill.',
+      };
+      setMessages(prev => [...prev, errorMessage]);
+      return;
+    }
+
+    setIsProcessing(true);
+    setProcessingMessage('Filling selected area...');
+
+    try {
+      const original = await loadImage(selectedElement.src);
+      // The mask covers the whole image, including any part cropped out of view.
+      const mask = createElementMask(maskPaths, getUncroppedBox(selectedElement), original.naturalWidth, original.naturalHeight);
+      const input = imageToDataUrl(original);
+      const step = createProvenanceStep('inpaint', { prompt: fillPrompt, inputSrc: input, maskSrc: mask });
+      const generated = await inpaintImage(input, 'image/png', mask, fillPrompt);
+      const resultImage = await compositeMaskedRegion(original, generated, mask);
+
+      setLayers(prev => prev.map(l => l.id === selectedElement.id && l.type === 'image'
+        ? { ...l, src: resultImage, mimeType: 'image/png', provenance: [...(l.provenance ?? []), step] }
+        : l), { label: 'Generative fill' });
+
+      const successMessage: ChatMessage = {
+        id: `msg-${Date.now()}-ai`,
+        role: 'assistant',
+        content: `Filled the selected area of ${selectedElement.name}: "${fillPrompt}"`,
+        images: [resultImage],
+      };
+      setMessages(prev => [...prev, successMessage]);
+      clearMask();
+      setActiveTool(Tool.Select);
+    } catch (error) {
+      console.error(error);
+      const errorMessage: ChatMessage = {
+        id: `msg-${Date.now()}-err`,
+        role: 'system',
+        content: error instanceof Error ? error.message : "An unknown error occurred during generative fill.",
+      };
+      setMessages(prev => [...prev, errorMessage]);
+    } finally {
+      setIsProcessing(false);
+      setProcessingMessage('');
+    }
+  };
+
+  const resetOutpaint = () => {
+    setOutpaintExtension(NO_OUTPAINT_EXTENSION);
+    setOutpaintPrompt('');
+  };
+
+  const handleOutpaint = async () => {
+    const selectedElement = selectedIds.length === 1
+      ? layers.find((l): l is CanvasImageElement => l.id === selectedIds[0] && l.type === 'image')
+      : undefined;
+    if (!selectedElement) return;
+    const { top, right, bottom, left } = outpaintExtension;
+    if (top + right + bottom + left === 0) return;
+
+    setIsProcessing(true);
+    setProcessingMessage('Extending image...');
+
+    try {
+      // Extends what is shown, so a cropped image is cut down to its crop first.
+      const original = await cropImage(await loadImage(selectedElement.src), selectedElement.crop);
+      const padded = padImageForOutpaint(original, selectedElement, outpaintExtension);
+      const step = createProvenanceStep('outpaint', { prompt: outpaintPrompt, inputSrc: padded.image, maskSrc: padded.mask });
+      const generated = await outpaintImage(padded.image, padded.mask, outpaintPrompt);
+      const resultImage = await compositeMaskedRegion(await loadImage(padded.image), generated, padded.mask);
+
+      // The element rotates around its center, so growing it unevenly moves the
+      // center along the element's rotated axes.
+      const angle = (selectedElement.rotation * Math.PI) / 180;
+      const shiftX = (right - left) / 2;
+      const shiftY = (bottom - top) / 2;
+      const centerX = selectedElement.x + selectedElement.width / 2 + shiftX * Math.cos(angle) - shiftY * Math.sin(angle);
+      const centerY = selectedElement.y + selectedElement.height / 2 + shiftX * Math.sin(angle) + shiftY * Math.cos(angle);
+      const width = selectedElement.width + left + right;
+      const height = selectedElement.height + top + bottom;
+
+      setLayers(prev => prev.map(l => l.id === selectedElement.id && l.type === 'image'
+        ? { ...l, src: resultImage, mimeType: 'image/png', x: centerX - width / 2, y: centerY - height / 2, width, height, crop: undefined, provenance: [...(l.provenance ?? []), step] }
+        : l), { label: 'Outpaint' });
+
+      const successMessage: ChatMessage = {
+        id: `msg-${Date.now()}-ai`,
+        role: 'assistant',
+        content: outpaintPrompt.trim()
+          ? `Extended ${selectedElement.name}: "${outpaintPrompt}"`
+          : `Extended ${selectedElement.name}.`,
+        images: [resultImage],
+      };
+      setMessages(prev => [...prev, successMessage]);
+      resetOutpaint();
+      setActiveTool(Tool.Select);
+    } catch (error) {
+      console.error(error);
+      const errorMessage: ChatMessage = {
+        id: `msg-${Date.now()}-err`,
+        role: 'system',
+        content: error instanceof Error ? error.message : "An unknown error occurred during outpainting.",
+      };
+      setMessages(prev => [...prev, errorMessage]);
+    } finally {
+      setIsProcessing(false);
+      setProcessingMessage('');
+    }
+  };
+
+  const handleSendMessage = async (prompt: string, options: GenerationOptions = {}) => {
     const selectedElements = selectedIds
         .map(id => layers.find(l => l.id === id))
         .filter((l): l is CanvasImageElement => l !== undefined && l.type === 'image' && l.visible);
 
-    if (isLoading || selectedElements.length === 0) return;
+    if (isLoading) return;
+
+    // Strokes still on the drawing layer are sent along as an annotation.
+    const sketch = canvasAreaRef.current?.getDrawingAsElement() ?? undefined;
 
     setIsLoading(true);
     const userMessage: ChatMessage = {
       id: `msg-${Date.now()}`,
       role: 'user',
       content: prompt,
+      images: sketch ? [sketch.src] : undefined,
     };
     setMessages(prev => [...prev, userMessage]);
 
     try {
-        const generatedImageUrl = await generateImage(prompt, selectedElements);
-      
+        const step = createProvenanceStep('generate', { prompt, options, references: selectedElements });
+        const generatedImages = await generateImages(prompt, selectedElements, options, sketch);
+        const firstImage = await loadImage(generatedImages[0]);
         const newElement: CanvasImageElement = {
-            id: `el-${Date.now()}`,
-            type: 'image',
-            name: prompt.substring(0, 20),
-            src: generatedImageUrl,
-            x: 100,
-            y: 100,
-            width: 350,
-            height: 350,
-            rotation: 0,
-            mimeType: 'image/png',
-            visible: true,
+          ...createGeneratedElement(
+            generatedImages[0],
+            prompt,
+            { width: firstImage.naturalWidth, height: firstImage.naturalHeight },
+            selectedElements,
+            options.placement ?? 'beside',
+            getViewportCenter()
+          ),
+          provenance: [step],
         };
 
-        setLayers(prev => [newElement, ...prev]);
+        setLayers(prev => [newElement, ...prev], { label: 'Generate image' });
         setSelectedIds([newElement.id]);
+        revealBounds(newElement);
         
         const assistantMessage: ChatMessage = {
             id: `msg-${Date.now()}-ai`,
             role: 'assistant',
-            content: `Generated an image for: "${prompt}"`,
-            images: [generatedImageUrl],
+            content: generatedImages.length > 1
+              ? `Generated ${generatedImages.length} variants for: "${prompt}". Click one to use it.`
+              : `Generated an image for: "${prompt}"`,
+            images: generatedImages,
+            placedLayerId: newElement.id,
+            selectedVariant: 0,
+            provenance: newElement.provenance,
+            ...(newElement.sourceLayerIds ? { sourceLayerIds: newElement.sourceLayerIds } : {}),
         };
         setMessages(prev => [...prev, assistantMessage]);
+        clearDrawing();
 
     } catch (error) {
       console.error(error);
@@ -408,116 +929,352 @@ const App: React.FC = () => {
       setMessages(prev => [...prev, errorMessage]);
     } finally {
       setIsLoading(false);
-      clearDrawing();
     }
   };
 
-  const handleSaveImage = async () => {
-    const canvasContainer = canvasContainerRef.current;
-    if (!canvasContainer) return;
+  const getContainerSize = useCallback(() => ({
+    width: canvasContainerRef.current?.offsetWidth ?? 0,
+    height: canvasContainerRef.current?.offsetHeight ?? 0,
+  }), []);
 
-    const exportCanvas = document.createElement('canvas');
-    exportCanvas.width = canvasContainer.offsetWidth;
-    exportCanvas.height = canvasContainer.offsetHeight;
-    const ctx = exportCanvas.getContext('2d');
+  const getViewportCenter = () => {
+    const { width, height } = getContainerSize();
+    return width > 0
+      ? screenToCanvas({ x: width / 2, y: height / 2 }, viewport)
+      : { x: 300, y: 300 };
+  };
 
-    if (!ctx) return;
+  // Brings `bounds` fully on screen, centering it and zooming out only if it
+  // doesn't fit at the current zoom. Leaves the view alone if it's already visible.
+  const revealBounds = (bounds: Bounds) => {
+    const { width, height } = getContainerSize();
+    if (width === 0) return;
+    setViewport(current => {
+      const visible = getVisibleBounds(current, width, height);
+      const isVisible = bounds.x >= visible.x && bounds.y >= visible.y &&
+        bounds.x + bounds.width <= visible.x + visible.width &&
+        bounds.y + bounds.height <= visible.y + visible.height;
+      return isVisible ? current : fitBoundsInViewport(bounds, width, height, current.zoom);
+    });
+  };
 
-    // Set a background color like the canvas area
-    ctx.fillStyle = '#f9fafb'; // bg-gray-50
-    ctx.fillRect(0, 0, exportCanvas.width, exportCanvas.height);
+  const zoomTo = useCallback((getZoom: (zoom: number) => number) => {
+    const { width, height } = getContainerSize();
+    setViewport(current => zoomAtPoint(current, getZoom(current.zoom), { x: width / 2, y: height / 2 }));
+  }, [getContainerSize]);
 
-    // Get visible elements, sorted by their order in the layers array
-    const visibleElements = layers
-      .filter((l): l is CanvasElement => (l.type === 'image' || l.type === 'text') && l.visible)
-      .reverse(); // Draw from bottom to top
+  const zoomBy = useCallback((factor: number) => zoomTo(zoom => zoom * factor), [zoomTo]);
 
-    const loadImage = (src: string): Promise<HTMLImageElement> =>
-      new Promise((resolve, reject) => {
-        const img = new Image();
-        img.crossOrigin = 'anonymous'; // For images from other domains
-        img.onload = () => resolve(img);
-        img.onerror = reject;
-        img.src = src;
-      });
+  const handleResetZoom = useCallback(() => zoomTo(() => 1), [zoomTo]);
 
-    for (const el of visibleElements) {
-      ctx.save();
-      
-      // Apply transformations (rotation around center)
-      ctx.translate(el.x + el.width / 2, el.y + el.height / 2);
-      ctx.rotate((el.rotation * Math.PI) / 180);
-      ctx.translate(-(el.x + el.width / 2), -(el.y + el.height / 2));
-
-      if (el.type === 'image') {
-        try {
-          const img = await loadImage(el.src);
-          ctx.drawImage(img, el.x, el.y, el.width, el.height);
-        } catch (error) {
-          console.error(`Could not load image ${el.name}:`, error);
-        }
-      } else if (el.type === 'text') {
-        ctx.font = `${el.fontStyle} ${el.fontWeight} ${el.fontSize}px sans-serif`;
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-        
-        const drawX = el.x + el.width / 2;
-        const drawY = el.y + el.height / 2;
-        
-        // Shadow
-        if (el.shadowEnabled) {
-          ctx.shadowColor = el.shadowColor;
-          ctx.shadowBlur = el.shadowBlur;
-          ctx.shadowOffsetX = el.shadowOffsetX;
-          ctx.shadowOffsetY = el.shadowOffsetY;
-        }
+  const zoomToBounds = useCallback((bounds: Bounds | null, maxZoom: number) => {
+    const { width, height } = getContainerSize();
+    if (!bounds || width === 0) return;
+    setViewport(fitBoundsInViewport(bounds, width, height, maxZoom));
+  }, [getContainerSize]);
 
-        // Outline must be drawn before fill
-        if (el.outlineEnabled) {
-          ctx.strokeStyle = el.outlineColor;
-          ctx.lineWidth = el.outlineWidth;
-          ctx.strokeText(el.content, drawX, drawY);
-        }
+  // Everything visible that takes up room on the canvas, as rotated boxes.
+  const getVisibleBoxes = useCallback(() => [
+    ...renderableElements.filter(el => el.visible),
+    ...layers
+      .filter((l): l is CanvasArtboard => l.type === 'artboard' && l.visible)
+      .map(artboard => ({ ...artboard, rotation: 0 })),
+  ], [renderableElements, layers]);
+
+  const handleZoomToFit = useCallback(() => {
+    zoomToBounds(getCombinedBounds(getVisibleBoxes()), 1);
+  }, [zoomToBounds, getVisibleBoxes]);
+
+  const handleZoomToSelection = useCallback(() => {
+    zoomToBounds(getCombinedBounds(getVisibleBoxes().filter(box => selectedElementIds.includes(box.id))), SELECTION_MAX_ZOOM);
+  }, [zoomToBounds, getVisibleBoxes, selectedElementIds]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      if (e.metaKey || e.ctrlKey) {
+        if (e.key === '=' || e.key === '+') { e.preventDefault(); zoomBy(ZOOM_STEP); }
+        if (e.key === '-') { e.preventDefault(); zoomBy(1 / ZOOM_STEP); }
+        if (e.key === '0') { e.preventDefault(); handleResetZoom(); }
+      } else if (e.shiftKey && !e.altKey) {
+        if (e.code === 'Digit1') { e.preventDefault(); handleZoomToFit(); }
+        if (e.code === 'Digit2') { e.preventDefault(); handleZoomToSelection(); }
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [zoomBy, handleResetZoom, handleZoomToFit, handleZoomToSelection]);
+
+  // Swaps the variant into the layer it was generated for, or places it as a
+  // new layer if that layer is gone (or `asNewLayer` is set).
+  const handleUseVariant = async (messageId: string, index: number, asNewLayer = false) => {
+    const message = messages.find(m => m.id === messageId);
+    const src = message?.images?.[index];
+    if (!message || !src) return;
+
+    const placedLayer = message.placedLayerId ? layers.find(l => l.id === message.placedLayerId) : undefined;
+    let layerId: string;
+    if (placedLayer?.type === 'image' && !asNewLayer) {
+      layerId = placedLayer.id;
+      setLayers(prev => prev.map(l => l.id === layerId && l.type === 'image' ? { ...l, src, mimeType: 'image/png' } : l), { label: 'Use variant' });
+    } else {
+      let newElement: CanvasImageElement;
+      if (placedLayer?.type === 'image') {
+        newElement = { ...placedLayer, id: `el-${Date.now()}`, src, mimeType: 'image/png', x: placedLayer.x + GENERATED_GAP, y: placedLayer.y + GENERATED_GAP };
+      } else {
+        const img = await loadImage(src);
+        newElement = {
+          ...createGeneratedElement(src, 'Variant', { width: img.naturalWidth, height: img.naturalHeight }, [], 'beside', getViewportCenter()),
+          ...(message.provenance ? { provenance: message.provenance } : {}),
+          ...(message.sourceLayerIds ? { sourceLayerIds: message.sourceLayerIds } : {}),
+        };
+      }
+      layerId = newElement.id;
+      setLayers(prev => [newElement, ...prev], { label: 'Use variant' });
+      revealBounds(newElement);
+    }
+
+    setSelectedIds([layerId]);
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, placedLayerId: layerId, selectedVariant: index } : m));
+  };
+
+  const handleJumpToLayer = (id: string) => {
+    const target = renderableElements.find(el => el.id === id);
+    if (target) revealBounds(getCombinedBounds([target])!);
+    setSelectedIds([id]);
+    setActiveTool(Tool.Select);
+    setLineageLayerId(null);
+  };
+
+  // Runs a recorded step again from its original inputs and places the result
+  // as a new layer next to the one it came from, with the provenance up to
+  // that step. Later steps are not replayed.
+  const handleRerunStep = async (layerId: string, stepId: string) => {
+    const layer = layers.find((l): l is CanvasImageElement => l.id === layerId && l.type === 'image');
+    const stepIndex = layer?.provenance?.findIndex(s => s.id === stepId) ?? -1;
+    if (!layer || stepIndex < 0) return;
+    const step = layer.provenance![stepIndex];
+
+    setLineageLayerId(null);
+    setIsProcessing(true);
+    setProcessingMessage('Re-running step...');
 
-        // Fill (Solid or Gradient)
-        if (el.fillType === 'solid') {
-          ctx.fillStyle = el.color;
+    try {
+      let resultImage: string;
+      let rerunStep: typeof step;
+      if (step.operation === 'generate') {
+        const references = step.referenceIds
+          .map(id => layers.find(l => l.id === id))
+          .filter((l): l is CanvasImageElement => l?.type === 'image');
+        rerunStep = createProvenanceStep('generate', { prompt: step.prompt, options: step.options, references });
+        [resultImage] = await generateImages(step.prompt, references, { ...step.options, variantCount: 1 });
+      } else {
+        const { inputSrc, maskSrc } = step;
+        if (!inputSrc || (step.operation !== 'remove-background' && !maskSrc)) {
+          throw new Error('This step cannot be re-run because its input image was not recorded.');
+        }
+        rerunStep = createProvenanceStep(step.operation, { prompt: step.prompt, inputSrc, maskSrc });
+        if (step.operation === 'remove-background') {
+          // The input may be a URL, so hand the provider a PNG of its pixels.
+          resultImage = await removeBackground(imageToDataUrl(await loadImage(inputSrc)), 'image/png');
         } else {
-          let x0=el.x, y0=el.y, x1=el.x, y1=el.y;
-          switch (el.gradientDirection) {
-              case 'to right': x1 += el.width; break;
-              case 'to bottom': y1 += el.height; break;
-              case 'to left': x0 += el.width; break;
-              case 'to top': y0 += el.height; break;
-              case 'to bottom right': x1 += el.width; y1 += el.height; break;
-              case 'to top left': x0 += el.width; y0 += el.height; break;
-          }
-          const grad = ctx.createLinearGradient(x0, y0, x1, y1);
-          grad.addColorStop(0, el.gradientColors[0]);
-          grad.addColorStop(1, el.gradientColors[1]);
-          ctx.fillStyle = grad;
+          const generated = step.operation === 'inpaint'
+            ? await inpaintImage(inputSrc, 'image/png', maskSrc!, step.prompt)
+            : await outpaintImage(inputSrc, maskSrc!, step.prompt);
+          resultImage = await compositeMaskedRegion(await loadImage(inputSrc), generated, maskSrc!);
         }
-        
-        ctx.fillText(el.content, drawX, drawY);
-        
-        // Reset shadow for the next element
-        ctx.shadowColor = 'transparent';
-        ctx.shadowBlur = 0;
-        ctx.shadowOffsetX = 0;
-        ctx.shadowOffsetY = 0;
       }
 
-      ctx.restore();
+      const result = await loadImage(resultImage);
+      const scale = Math.min(layer.width / result.naturalWidth, layer.height / result.naturalHeight);
+      const newElement: CanvasImageElement = {
+        ...layer,
+        id: `el-${Date.now()}`,
+        name: `${layer.name} (re-run)`,
+        src: resultImage,
+        mimeType: 'image/png',
+        x: layer.x + layer.width + GENERATED_GAP,
+        width: result.naturalWidth * scale,
+        height: result.naturalHeight * scale,
+        parentId: undefined,
+        provenance: [...layer.provenance!.slice(0, stepIndex), rerunStep],
+      };
+      setLayers(prev => [newElement, ...prev], { label: 'Re-run step' });
+      setSelectedIds([newElement.id]);
+      revealBounds(newElement);
+
+      const successMessage: ChatMessage = {
+        id: `msg-${Date.now()}-ai`,
+        role: 'assistant',
+        content: step.prompt
+          ? `Re-ran a step of ${layer.name}: "${step.prompt}"`
+          : `Re-ran a step of ${layer.name}.`,
+        images: [resultImage],
+      };
+      setMessages(prev => [...prev, successMessage]);
+    } catch (error) {
+      console.error(error);
+      const errorMessage: ChatMessage = {
+        id: `msg-${Date.now()}-err`,
+        role: 'system',
+        content: error instanceof Error ? error.message : "An unknown error occurred while re-running the step.",
+      };
+      setMessages(prev => [...prev, errorMessage]);
+    } finally {
+      setIsProcessing(false);
+      setProcessingMessage('');
+    }
+  };
+
+  // The layers an export area covers, ready to draw, and the region to crop to.
+  const getExportScene = (options: ExportOptions): { scene: Scene; region: Bounds | null } => {
+    let includes = (_layer: Layer) => true;
+    if (options.area === 'selection' || options.area === 'group') {
+      const rootIds = options.area === 'selection' ? selectedIds : options.groupId ? [options.groupId] : [];
+      const ids = new Set(rootIds.flatMap(id => [id, ...getDescendantIds(id)]));
+      includes = layer => ids.has(layer.id);
+    }
+    const artboards = layers.filter((l): l is CanvasArtboard => l.type === 'artboard' && l.visible && includes(l));
+    const elements = renderableElements.filter(el => el.visible && includes(el));
+    const region = options.area === 'view'
+      ? getVisibleBounds(viewport, canvasContainerRef.current?.offsetWidth ?? 0, canvasContainerRef.current?.offsetHeight ?? 0)
+      : getCombinedBounds([...elements, ...artboards.map(artboard => ({ ...artboard, rotation: 0 }))]);
+    return { scene: { layers: resolveScene(layers, includes), fonts: customFonts }, region };
+  };
+
+  const handleExport = async (options: ExportOptions) => {
+    setIsExportDialogOpen(false);
+    setExportOptions(options);
+    const format = EXPORT_FORMATS.find(f => f.value === options.format) ?? EXPORT_FORMATS[0];
+    const fileName = `magic-canvas-export.${format.extension}`;
+
+    setIsProcessing(true);
+    setProcessingMessage('Exporting...');
+    try {
+      const { scene, region } = getExportScene(options);
+      if (!region || region.width <= 0 || region.height <= 0) {
+        throw new Error('There is nothing to export in that area.');
+      }
+      const background = options.background ?? (format.hasTransparency ? null : '#ffffff');
+
+      if (options.format === 'svg') {
+        const svg = await buildSvg(scene, region, options.scale, background);
+        downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), fileName);
+        return;
+      }
+      const canvas = await renderScene(scene, region, options.scale, background);
+      if (options.format === 'pdf') {
+        downloadBlob(await createImagePdf(canvas, region.width, region.height), fileName);
+      } else {
+        downloadBlob(await canvasToBlob(canvas, `image/${options.format}`, format.hasQuality ? options.quality : undefined), fileName);
+      }
+    } catch (error) {
+      console.error(error);
+      const errorMessage: ChatMessage = {
+        id: `msg-${Date.now()}-err`,
+        role: 'system',
+        content: error instanceof Error ? error.message : "An unknown error occurred while exporting.",
+      };
+      setMessages(prev => [...prev, errorMessage]);
+    } finally {
+      setIsProcessing(false);
+      setProcessingMessage('');
+    }
+  };
+
+  const exportArtboard = async (artboard: CanvasArtboard) => {
+    const ids = new Set([artboard.id, ...getDescendantIds(artboard.id)]);
+    const [scene] = resolveScene(layers, layer => ids.has(layer.id));
+    if (scene?.type !== 'artboard') throw new Error(`Show ${artboard.name} to export it.`);
+    const dataUrl = await renderArtboard(scene);
+    const fileName = artboard.name.replace(/[^\w\- ]+/g, '').trim() || 'artboard';
+    downloadDataUrl(dataUrl, `${fileName}-${artboard.width}x${artboard.height}.png`);
+  };
+
+  const handleExportArtboards = async (artboards: CanvasArtboard[]) => {
+    try {
+      for (const artboard of artboards) {
+        await exportArtboard(artboard);
+      }
+    } catch (error) {
+      console.error(error);
+      const errorMessage: ChatMessage = {
+        id: `msg-${Date.now()}-err`,
+        role: 'system',
+        content: error instanceof Error ? error.message : "An unknown error occurred while exporting the artboard.",
+      };
+      setMessages(prev => [...prev, errorMessage]);
     }
+  };
+
+  const handleAddArtboard = (preset: ArtboardPreset) => {
+    const center = getViewportCenter();
+    const artboard: CanvasArtboard = {
+      id: `artboard-${Date.now()}`,
+      type: 'artboard',
+      name: preset.label,
+      x: Math.round(center.x - preset.width / 2),
+      y: Math.round(center.y - preset.height / 2),
+      width: preset.width,
+      height: preset.height,
+      background: '#ffffff',
+      visible: true,
+    };
+    const isInside = (el: CanvasElement) => {
+      const bounds = getRotatedBounds(el);
+      return bounds.x >= artboard.x && bounds.y >= artboard.y &&
+        bounds.x + bounds.width <= artboard.x + artboard.width &&
+        bounds.y + bounds.height <= artboard.y + artboard.height;
+    };
+
+    // Loose elements that already sit fully on the new artboard become its contents.
+    setLayers(prev => [
+      artboard,
+      ...prev.map(l => !l.parentId && isCanvasElement(l) && isInside(l) ? { ...l, parentId: artboard.id } : l),
+    ], { label: 'Add artboard' });
+    handleSetActiveTool(Tool.Select);
+    setSelectedIds([artboard.id]);
+    revealBounds(artboard);
+  };
 
-    // Trigger download
-    const link = document.createElement('a');
-    link.download = 'magic-canvas-export.png';
-    link.href = exportCanvas.toDataURL('image/png');
-    link.click();
+  const handleUpdateArtboard = (id: string, props: Partial<CanvasArtboard>) => {
+    setLayers(prev => prev.map(l => l.id === id && l.type === 'artboard' ? { ...l, ...props } : l));
   };
 
 
+
+  const handleSaveProject = () => {
+    downloadProject({ layers, messages, selectedIds, fonts: customFonts }, 'magic-canvas-project');
+  };
+
+  const handleOpenProject = async (file: File) => {
+    try {
+      const project = await readProjectFile(file);
+      handleSetActiveTool(Tool.Select);
+      resetLayers(project.layers);
+      setSelectedIds(project.selectedIds);
+      setCustomFonts(project.fonts);
+      setMessages([
+        ...project.messages,
+        {
+          id: `msg-${Date.now()}-open`,
+          role: 'system',
+          content: `Opened project ${file.name}.`,
+        },
+      ]);
+    } catch (error) {
+      console.error(error);
+      const errorMessage: ChatMessage = {
+        id: `msg-${Date.now()}-err`,
+        role: 'system',
+        content: error instanceof Error ? error.message : "An unknown error occurred while opening the project.",
+      };
+      setMessages(prev => [...prev, errorMessage]);
+    }
+  };
+
   const handleToggleVisibility = (id: string) => {
     const targetLayer = layers.find(l => l.id === id);
     if (!targetLayer) return;
@@ -552,6 +1309,10 @@ const App: React.FC = () => {
         if (dropLayer.parentId === dragId || getDescendantIds(dragId).includes(dropId)) {
             return prev;
         }
+        // Artboards can't be nested.
+        if (draggedLayerOriginal.type === 'artboard' && (position === 'inside' || dropLayer.parentId)) {
+            return prev;
+        }
 
         const newLayers = prev.filter(l => l.id !== dragId);
         const draggedLayer = { ...draggedLayerOriginal };
@@ -575,19 +1336,31 @@ const App: React.FC = () => {
         }
 
         return newLayers;
-    });
+    }, { label: 'Reorder layers' });
   };
 
   const handleRenameLayer = (id: string, newName: string) => {
     setLayers(prev => prev.map(l => l.id === id ? { ...l, name: newName } : l));
   };
   
+  const handleUpdateCompositing = (ids: string[], props: LayerCompositing) => {
+    setLayers(
+      prev => prev.map(l => ids.includes(l.id) && l.type !== 'artboard' ? { ...l, ...props } : l),
+      { label: props.blendMode ? 'Change blend mode' : 'Change opacity' }
+    );
+  };
+
   const handleToggleGroupExpanded = (id: string) => {
-    setLayers(prev => prev.map(l => l.id === id && l.type === 'group' ? { ...l, expanded: !l.expanded } : l));
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
   };
 
   const handleGroupSelection = () => {
     if (selectedIds.length < 1) return;
+    if (selectedIds.some(id => layers.find(l => l.id === id)?.type === 'artboard')) return;
     
     const newGroupId = `group-${Date.now()}`;
 
@@ -595,15 +1368,27 @@ const App: React.FC = () => {
         const newLayers = [...prevLayers];
         const topItemIndex = newLayers.findIndex(l => l.id === selectedIds[0]);
 
+        const selectedLayers = selectedIds.map(id => newLayers.find(l => l.id === id)).filter((l): l is Layer => !!l);
+
+        // The group goes where the selection is, e.g. on the artboard its
+        // layers are on, so they stay clipped to it and export with it.
+        const getParentChain = (layer: Layer) => {
+            const chain: string[] = [];
+            for (let id = layer.parentId; id; id = newLayers.find(l => l.id === id)?.parentId) {
+                chain.push(id);
+            }
+            return chain;
+        };
+        const [firstChain = [], ...otherChains] = selectedLayers.map(getParentChain);
+        const parentId = firstChain.find(id => otherChains.every(chain => chain.includes(id)));
+
         const newGroup: CanvasGroup = {
             id: newGroupId,
             type: 'group',
             name: 'New Group',
             visible: true,
-            expanded: true,
+            ...(parentId ? { parentId } : {}),
         };
-
-        const selectedLayers = selectedIds.map(id => newLayers.find(l => l.id === id)).filter((l): l is Layer => !!l);
         const selectedIndices = selectedIds.map(id => newLayers.findIndex(l => l.id === id)).filter(i => i !== -1).sort((a,b) => b-a);
 
         selectedIndices.forEach(index => newLayers.splice(index, 1));
@@ -616,7 +1401,7 @@ const App: React.FC = () => {
         });
         
         return newLayers;
-    });
+    }, { label: 'Group layers' });
 
     setSelectedIds([newGroupId]);
   };
@@ -629,42 +1414,38 @@ const App: React.FC = () => {
       setLayers(prevLayers => {
           let newLayers = [...prevLayers];
           groupsToUngroup.forEach(groupId => {
+              // Children move up to the group's own parent, e.g. the artboard it is on.
+              const groupParentId = newLayers.find(l => l.id === groupId)?.parentId;
               newLayers = newLayers.map(l => {
                   if (l.parentId === groupId) {
                       newSelection.push(l.id);
-                      // FIX: Using the rest operator on a discriminated union can cause TypeScript to lose type information.
-                      // Using a switch statement preserves the type when removing the `parentId` property.
-                      switch (l.type) {
-                        case 'image': {
-                          const newLayer = { ...l };
-                          delete newLayer.parentId;
-                          return newLayer;
-                        }
-                        case 'text': {
-                          const newLayer = { ...l };
+                      const newLayer = { ...l };
+                      if (groupParentId) {
+                          newLayer.parentId = groupParentId;
+                      } else {
                           delete newLayer.parentId;
-                          return newLayer;
-                        }
-                        case 'group': {
-                          const newLayer = { ...l };
-                          delete newLayer.parentId;
-                          return newLayer;
-                        }
                       }
+                      return newLayer;
                   }
                   return l;
               }).filter(l => l.id !== groupId);
           });
           return newLayers;
-      });
+      }, { label: 'Ungroup' });
 
       setSelectedIds(newSelection);
   };
   
   const handleElementUpdate = (id: string, newProps: Partial<CanvasElement>) => {
+    const artboard = layers.find(l => l.id === id);
+    if (artboard?.type === 'artboard') {
+      const contentIds = new Set(getDescendantIds(id));
+      setLayers(prev => applyArtboardUpdate(prev, artboard, newProps, contentIds));
+      return;
+    }
     setLayers(prev => prev.map(l => {
-      if (l.id === id && (l.type === 'image' || l.type === 'text')) {
-        return { ...l, ...newProps };
+      if (l.id === id && isCanvasElement(l)) {
+        return { ...l, ...newProps } as CanvasElement;
       }
       return l;
     }));
@@ -674,44 +1455,70 @@ const App: React.FC = () => {
     setLayers(prevLayers => {
         const newLayers = [...prevLayers];
         const updatedIds = new Set<string>();
+        const artboardUpdates: [CanvasArtboard, Partial<CanvasElement>][] = [];
         targets.forEach((t, i) => {
             const id = t.id;
             const index = newLayers.findIndex(l => l.id === id);
             if (index > -1 && !updatedIds.has(id)) {
                 const layer = newLayers[index];
-                if (layer.type === 'image' || layer.type === 'text') {
+                if (isCanvasElement(layer)) {
                     const updatedProps = updateFn(t, i);
                     newLayers[index] = { ...layer, ...updatedProps } as CanvasElement;
+                } else if (layer.type === 'artboard') {
+                    artboardUpdates.push([layer, updateFn(t, i)]);
                 }
                 updatedIds.add(id);
             }
         });
-        return newLayers;
+        // Contents that were dragged along as targets already have their new position.
+        return artboardUpdates.reduce(
+            (acc, [artboard, props]) => applyArtboardUpdate(acc, artboard, props, new Set(getDescendantIds(artboard.id).filter(id => !updatedIds.has(id)))),
+            newLayers
+        );
     });
   };
 
-  const selectedElementIds = useMemo(() => {
-    const elementIds = new Set<string>();
-    const layersById = new Map(layers.map(l => [l.id, l]));
+  const outpaintToolbarPosition = useMemo(() => {
+    if (activeTool !== Tool.Outpaint || selectedIds.length !== 1) return null;
+    const { top, right, bottom, left } = outpaintExtension;
+    if (top + right + bottom + left === 0) return null;
+    const target = layers.find(l => l.id === selectedIds[0]);
+    if (target?.type !== 'image') return null;
+    const anchor = canvasToScreen({ x: target.x - left + (target.width + left + right) / 2, y: target.y + target.height + bottom }, viewport);
+    return { top: anchor.y + 12, left: anchor.x };
+  }, [activeTool, selectedIds, layers, outpaintExtension, viewport]);
+
+  const fillToolbarPosition = useMemo(() => {
+    if (!fillToolbarAnchor) return null;
+    const anchor = canvasToScreen(fillToolbarAnchor, viewport);
+    return { top: anchor.y + 12, left: anchor.x };
+  }, [fillToolbarAnchor, viewport]);
 
-    function addElementsFrom(layerId: string) {
-        const layer = layersById.get(layerId);
-        if (!layer) return;
+  useEffect(() => {
+    setOutpaintExtension(NO_OUTPAINT_EXTENSION);
+  }, [selectedIds]);
 
-        if (layer.type === 'image' || layer.type === 'text') {
-            elementIds.add(layer.id);
-        } else if (layer.type === 'group') {
-            layers.forEach(l => {
-                if (l.parentId === layer.id) {
-                    addElementsFrom(l.id);
-                }
-            });
-        }
-    }
-    selectedIds.forEach(id => addElementsFrom(id));
-    return Array.from(elementIds);
+  const artboards = useMemo(() => layers.filter((l): l is CanvasArtboard => l.type === 'artboard'), [layers]);
+  const selectedArtboard = selectedIds.length === 1 ? artboards.find(a => a.id === selectedIds[0]) : undefined;
+
+  const selectedShapeElement = useMemo(() => {
+    const selected = selectedIds.length === 1 ? layers.find(l => l.id === selectedIds[0]) : undefined;
+    return selected?.type === 'shape' ? selected : null;
+  }, [selectedIds, layers]);
+
+  const selectedImageElement = useMemo(() => {
+    const selected = selectedIds.length === 1 ? layers.find(l => l.id === selectedIds[0]) : undefined;
+    return selected?.type === 'image' ? selected : null;
   }, [selectedIds, layers]);
 
+  const selectedPathElement = useMemo(() => {
+    const selected = selectedIds.length === 1 ? layers.find(l => l.id === selectedIds[0]) : undefined;
+    return selected?.type === 'path' ? selected : null;
+  }, [selectedIds, layers]);
+
+  // Drawn paths a selected text can be set along.
+  const pathElements = useMemo(() => layers.filter((l): l is CanvasPathElement => l.type === 'path'), [layers]);
+
   const selectedTextElement = useMemo(() => {
     if (selectedIds.length === 1) {
         const selected = layers.find(l => l.id === selectedIds[0]);
@@ -734,6 +1541,42 @@ const App: React.FC = () => {
             <TextToolbar 
                 selectedElement={selectedTextElement}
                 onUpdate={(props) => handleUpdateTextProps(selectedTextElement.id, props)}
+                selectionRange={textSelection?.id === selectedTextElement.id ? textSelection : null}
+                onClearSelectionRange={() => setTextSelection(null)}
+                fonts={customFonts}
+                onUploadFont={handleUploadFont}
+                paths={pathElements}
+            />
+          )}
+          {selectedShapeElement && (
+            <ShapeToolbar
+                selectedElement={selectedShapeElement}
+                onUpdate={(props) => handleUpdateShapeProps(selectedShapeElement.id, props)}
+            />
+          )}
+          {selectedImageElement && (
+            <ImageToolbar
+                selectedElement={selectedImageElement}
+                onChangeAdjustments={(adjustments) => handleUpdateAdjustments(selectedImageElement.id, adjustments)}
+                isCropping={croppingId === selectedImageElement.id}
+                onToggleCrop={() => setCroppingId(croppingId === selectedImageElement.id ? null : selectedImageElement.id)}
+                onResetCrop={() => handleResetCrop(selectedImageElement.id)}
+            />
+          )}
+          {selectedPathElement && (
+            <PathToolbar
+                selectedElement={selectedPathElement}
+                onUpdateStyle={(settings) => handleUpdatePathStyle(selectedPathElement.id, settings)}
+                onEditStrokes={() => handleEditPath(selectedPathElement.id)}
+            />
+          )}
+          {selectedArtboard && (
+            <ArtboardToolbar
+                artboard={selectedArtboard}
+                artboardCount={artboards.length}
+                onUpdate={(props) => handleUpdateArtboard(selectedArtboard.id, props)}
+                onExport={() => handleExportArtboards([selectedArtboard])}
+                onExportAll={() => handleExportArtboards(artboards)}
             />
           )}
           <div className="relative flex-grow h-full">
@@ -747,18 +1590,32 @@ const App: React.FC = () => {
               activeTool={activeTool} 
               setActiveTool={handleSetActiveTool} 
               onAddImage={handleAddImage}
+              onAddArtboard={handleAddArtboard}
               onDeleteSelected={handleDeleteSelected}
               onFinalizeDrawing={handleFinalizeDrawing}
               onUndo={undo}
               onRedo={redo}
               canUndo={canUndo}
               canRedo={canRedo}
+              undoLabel={undoLabel}
+              redoLabel={redoLabel}
               onRemoveBackground={handleRemoveBackground}
               isSingleImageSelected={selectedIds.length === 1 && layers.find(l => l.id === selectedIds[0])?.type === 'image'}
-              onSaveImage={handleSaveImage}
-              drawingColor={drawingColor}
-              onDrawingColorChange={setDrawingColor}
+              isAIAvailable={aiAvailable}
+              onExport={() => setIsExportDialogOpen(true)}
+              onSaveProject={handleSaveProject}
+              onOpenProject={handleOpenProject}
+              brush={brush}
+              onBrushChange={settings => setBrush(prev => ({ ...prev, ...settings }))}
+              strokeMode={strokeMode}
+              onStrokeModeChange={setStrokeMode}
+              shapePreset={shapePreset}
+              onShapePresetChange={setShapePreset}
               hasSelection={selectedIds.length > 0}
+              maskMode={maskMode}
+              onMaskModeChange={setMaskMode}
+              maskBrushSize={maskBrushSize}
+              onMaskBrushSizeChange={setMaskBrushSize}
             />
             <CanvasArea
               ref={canvasAreaRef}
@@ -773,10 +1630,54 @@ const App: React.FC = () => {
               isShiftPressed={isShiftPressed}
               onAddText={handleAddText}
               onUpdateTextProps={handleUpdateTextProps}
+              onTextSelectionChange={setTextSelection}
               onElementUpdate={handleElementUpdate}
               onGroupUpdate={handleGroupUpdate}
-              drawingColor={drawingColor}
+              brush={brush}
+              strokeMode={strokeMode}
+              editingPathId={editingPathId}
+              croppingId={croppingId}
+              onEditPath={handleEditPath}
+              shapePreset={shapePreset}
+              onAddShape={handleAddShape}
+              maskMode={maskMode}
+              maskBrushSize={maskBrushSize}
+              onMaskChange={handleMaskChange}
+              onSketchChange={setHasSketch}
+              outpaintExtension={outpaintExtension}
+              onOutpaintExtensionChange={setOutpaintExtension}
+              viewport={viewport}
+              onViewportChange={setViewport}
             />
+            <ZoomControls
+              zoom={viewport.zoom}
+              onZoomIn={() => zoomBy(ZOOM_STEP)}
+              onZoomOut={() => zoomBy(1 / ZOOM_STEP)}
+              onResetZoom={handleResetZoom}
+              onZoomToFit={handleZoomToFit}
+              onZoomToSelection={handleZoomToSelection}
+              hasSelection={selectedElementIds.length > 0}
+            />
+            {activeTool === Tool.GenerativeFill && fillToolbarPosition && (
+              <GenerativeFillToolbar
+                position={fillToolbarPosition}
+                prompt={fillPrompt}
+                onPromptChange={setFillPrompt}
+                onGenerate={handleGenerativeFill}
+                onCancel={handleCancelGenerativeFill}
+                isLoading={isProcessing}
+              />
+            )}
+            {outpaintToolbarPosition && (
+              <OutpaintToolbar
+                position={outpaintToolbarPosition}
+                prompt={outpaintPrompt}
+                onPromptChange={setOutpaintPrompt}
+                onGenerate={handleOutpaint}
+                onCancel={resetOutpaint}
+                isLoading={isProcessing}
+              />
+            )}
           </div>
         </main>
         <div 
@@ -784,6 +1685,15 @@ const App: React.FC = () => {
           onMouseDown={handleVerticalResizeMouseDown}
         />
         <aside id="right-sidebar" style={{ width: `${sidebarWidth}px` }} className="flex flex-col h-full bg-white border-l border-gray-200 shadow-lg flex-shrink-0">
+            {sidebarView === 'history' ? (
+              <HistoryPanel
+                height={layersPanelHeight}
+                history={history}
+                onJumpTo={jumpToHistoryStep}
+                onNameSnapshot={nameSnapshot}
+                onShowLayers={() => setSidebarView('layers')}
+              />
+            ) : (
             <LayersPanel
                 height={layersPanelHeight}
                 layers={layers}
@@ -792,10 +1702,16 @@ const App: React.FC = () => {
                 onSelectLayer={handleSelectLayer}
                 onReorderAndReparentLayers={handleReorderAndReparentLayers}
                 onRenameLayer={handleRenameLayer}
+                collapsedIds={collapsedIds}
                 onToggleGroupExpanded={handleToggleGroupExpanded}
+                onShowLineage={setLineageLayerId}
                 onGroupSelection={handleGroupSelection}
                 onUngroupSelection={handleUngroupSelection}
+                onShowHistory={() => setSidebarView('history')}
+                onUpdateCompositing={handleUpdateCompositing}
+                onToggleClippingMask={handleToggleClippingMask}
             />
+            )}
             <div
                 className="h-1.5 cursor-row-resize bg-gray-200 hover:bg-blue-400 transition-colors duration-200 flex-shrink-0"
                 onMouseDown={handleHorizontalResizeMouseDown}
@@ -803,7 +1719,10 @@ const App: React.FC = () => {
             <AIAssistant 
                 messages={messages} 
                 onSendMessage={handleSendMessage}
+                onUseVariant={handleUseVariant}
                 isLoading={isLoading}
+                isAIAvailable={aiAvailable}
+                hasSketch={hasSketch}
                 canvasElements={imageElements}
                 selectedIds={selectedIds}
             />
@@ -817,6 +1736,38 @@ const App: React.FC = () => {
       >
         <p>Are you sure you want to delete {selectedIds.length} selected {selectedIds.length === 1 ? 'element' : 'elements'}? This action can be undone.</p>
       </ConfirmationDialog>
+      <ExportDialog
+        isOpen={isExportDialogOpen}
+        options={exportOptions}
+        groups={layers.filter((l): l is CanvasGroup => l.type === 'group')}
+        hasSelection={selectedIds.length > 0}
+        onClose={() => setIsExportDialogOpen(false)}
+        onExport={handleExport}
+      />
+      <LineageDialog
+        layer={imageElements.find(l => l.id === lineageLayerId) ?? null}
+        layers={layers}
+        onClose={() => setLineageLayerId(null)}
+        onJumpToLayer={handleJumpToLayer}
+        onRerunStep={handleRerunStep}
+        isAIAvailable={aiAvailable && !isProcessing}
+      />
+      <ConfirmationDialog
+        isOpen={pendingSession !== null}
+        onClose={handleDiscardSession}
+        onConfirm={handleRestoreSession}
+        title="Restore Last Session"
+        confirmLabel="Restore"
+        cancelLabel="Start Fresh"
+        variant="primary"
+        dismissible={false}
+      >
+        {pendingSession && (
+          <p>
+            You have unsaved work from {new Date(pendingSession.savedAt).toLocaleString()} ({pendingSession.state.layers.length} {pendingSession.state.layers.length === 1 ? 'layer' : 'layers'}). Would you like to restore it?
+          </p>
+        )}
+      </ConfirmationDialog>
     </div>
   );
 };
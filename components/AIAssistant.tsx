@@ -1,17 +1,26 @@
 import React, { useState, useEffect, useRef } from 'react';
-import type { ChatMessage, CanvasImageElement } from '../types';
+import type { ChatMessage, CanvasImageElement, AspectRatio, GenerationOptions, GenerationPlacement } from '../types';
 import { ICONS } from '../constants';
+import { MAX_VARIANTS } from '../services/aiService';
 
 interface AIAssistantProps {
   messages: ChatMessage[];
-  onSendMessage: (prompt: string) => void;
+  onSendMessage: (prompt: string, options: GenerationOptions) => void;
+  onUseVariant: (messageId: string, index: number, asNewLayer?: boolean) => void;
   isLoading: boolean;
+  isAIAvailable: boolean;
+  hasSketch: boolean;
   canvasElements: CanvasImageElement[];
   selectedIds: string[];
 }
 
-const AIAssistant: React.FC<AIAssistantProps> = ({ messages, onSendMessage, isLoading, canvasElements, selectedIds }) => {
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '4:3', '3:4', '16:9', '9:16'];
+
+const AIAssistant: React.FC<AIAssistantProps> = ({ messages, onSendMessage, onUseVariant, isLoading, isAIAvailable, hasSketch, canvasElements, selectedIds }) => {
   const [prompt, setPrompt] = useState('');
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio | ''>('');
+  const [variantCount, setVariantCount] = useState(1);
+  const [placement, setPlacement] = useState<GenerationPlacement>('beside');
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const referenceElements = selectedIds
@@ -26,8 +35,8 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ messages, onSendMessage, isLo
   
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (prompt.trim() && !isLoading) {
-      onSendMessage(prompt);
+    if (prompt.trim() && !isLoading && isAIAvailable) {
+      onSendMessage(prompt, { aspectRatio: aspectRatio || undefined, variantCount, placement });
       setPrompt('');
     }
   };
@@ -48,7 +57,33 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ messages, onSendMessage, isLo
               }`}
             >
               <p className="text-sm">{message.content}</p>
-              {message.images && message.images.length > 0 && (
+              {message.images && message.images.length > 0 && message.placedLayerId && (
+                 <div className="mt-2 flex gap-2 overflow-x-auto pb-1">
+                    {message.images.map((img, index) => (
+                        <div key={index} className="relative flex-shrink-0 group">
+                            <button
+                                onClick={() => onUseVariant(message.id, index)}
+                                className={`block rounded-lg overflow-hidden border-2 transition-colors ${
+                                    message.selectedVariant === index ? 'border-blue-500' : 'border-transparent hover:border-blue-300'
+                                }`}
+                                aria-label={`Use variant ${index + 1}`}
+                                title="Use this variant"
+                            >
+                                <img src={img} alt={`Variant ${index + 1}`} className="w-24 h-24 object-cover" />
+                            </button>
+                            <button
+                                onClick={() => onUseVariant(message.id, index, true)}
+                                className="absolute top-1 right-1 w-6 h-6 rounded-full bg-white/90 text-gray-700 text-sm leading-none shadow opacity-0 group-hover:opacity-100 transition-opacity"
+                                aria-label={`Place variant ${index + 1} as a new layer`}
+                                title="Place as a new layer"
+                            >
+                                +
+                            </button>
+                        </div>
+                    ))}
+                 </div>
+              )}
+              {message.images && message.images.length > 0 && !message.placedLayerId && (
                  <div className="mt-2 grid grid-cols-2 gap-2">
                     {message.images.map((img, index) => (
                         <img key={index} src={img} alt="Generated content" className="rounded-lg object-cover" />
@@ -62,7 +97,7 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ messages, onSendMessage, isLo
             <div className="flex justify-start">
                  <div className="bg-gray-100 text-gray-800 rounded-2xl px-4 py-3 flex items-center">
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600"></div>
-                    <span className="ml-3 text-sm">Generating image...</span>
+                    <span className="ml-3 text-sm">{variantCount > 1 ? `Generating ${variantCount} variants...` : 'Generating image...'}</span>
                  </div>
             </div>
         )}
@@ -81,24 +116,73 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ messages, onSendMessage, isLo
                         </div>
                     ))
                 ) : (
-                    <p className="text-xs text-gray-400 px-2">Select visible images on the canvas to use as references for the AI.</p>
+                    <p className="text-xs text-gray-400 px-2">No references selected: the AI will create a new image from your prompt alone. Select visible images on the canvas to use them as references.</p>
                 )}
             </div>
         </div>
 
+        {hasSketch && (
+            <p className="mb-3 text-xs text-blue-600 bg-blue-50 rounded-lg px-3 py-2">
+                Your sketch will be sent with the prompt to show where and what to change.
+            </p>
+        )}
+
+        <div className="mb-3 flex flex-wrap items-center gap-2">
+            <label htmlFor="variant-count" className="text-sm font-medium text-gray-700">Variants</label>
+            <select
+                id="variant-count"
+                value={variantCount}
+                onChange={e => setVariantCount(parseInt(e.target.value, 10))}
+                className="p-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-400 focus:outline-none"
+                disabled={isLoading}
+            >
+                {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+                    <option key={count} value={count}>{count}</option>
+                ))}
+            </select>
+            <label htmlFor="aspect-ratio" className="text-sm font-medium text-gray-700 ml-2">Aspect ratio</label>
+            <select
+                id="aspect-ratio"
+                value={aspectRatio}
+                onChange={e => setAspectRatio(e.target.value as AspectRatio | '')}
+                className="p-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-400 focus:outline-none"
+                disabled={isLoading}
+            >
+                <option value="">Auto</option>
+                {ASPECT_RATIOS.map(ratio => (
+                    <option key={ratio} value={ratio}>{ratio}</option>
+                ))}
+            </select>
+            {referenceElements.length > 0 && (
+                <>
+                    <label htmlFor="placement" className="text-sm font-medium text-gray-700 ml-2">Place</label>
+                    <select
+                        id="placement"
+                        value={placement}
+                        onChange={e => setPlacement(e.target.value as GenerationPlacement)}
+                        className="p-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-400 focus:outline-none"
+                        disabled={isLoading}
+                    >
+                        <option value="beside">Beside</option>
+                        <option value="on-top">On top</option>
+                    </select>
+                </>
+            )}
+        </div>
+
         <form onSubmit={handleSubmit} className="flex items-center gap-2">
           <input
             type="text"
             value={prompt}
             onChange={(e) => setPrompt(e.target.value)}
-            placeholder="e.g., add a hat to person #1"
+            placeholder={!isAIAvailable ? "AI is not configured" : referenceElements.length > 0 ? "e.g., add a hat to person #1" : "e.g., an astronaut riding a horse"}
             className="flex-grow p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-400 focus:outline-none transition"
-            disabled={isLoading}
+            disabled={isLoading || !isAIAvailable}
           />
           <button
             type="submit"
             className="p-3 bg-blue-500 text-white rounded-xl disabled:bg-gray-300 hover:bg-blue-600 transition-colors shadow-sm"
-            disabled={isLoading || !prompt.trim() || referenceElements.length === 0}
+            disabled={isLoading || !isAIAvailable || !prompt.trim()}
             aria-label="Send message"
           >
             {ICONS.send}
@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react';
+import type { ImageAdjustment } from '../types';
+import { getAdjustedSrc, peekAdjustedSrc } from '../utils/adjustments';
+
+interface AdjustedImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  src: string;
+  adjustments?: ImageAdjustment[];
+}
+
+/**
+ * An `<img>` showing `src` through its adjustment stack. While a new result
+ * renders, the previous one stays up so slider drags don't flicker.
+ */
+const AdjustedImage: React.FC<AdjustedImageProps> = ({ src, adjustments, ...imgProps }) => {
+  const [displaySrc, setDisplaySrc] = useState(() => peekAdjustedSrc(src, adjustments) ?? src);
+
+  useEffect(() => {
+    const ready = peekAdjustedSrc(src, adjustments);
+    if (ready) {
+      setDisplaySrc(ready);
+      return;
+    }
+    let cancelled = false;
+    // Debounced, so a slider drag renders once it settles rather than at every step.
+    const timer = setTimeout(() => {
+      getAdjustedSrc(src, adjustments)
+        .then(result => { if (!cancelled) setDisplaySrc(result); })
+        .catch(error => {
+          console.error('Could not apply image adjustments:', error);
+          if (!cancelled) setDisplaySrc(src);
+        });
+    }, 60);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [src, adjustments]);
+
+  return <img src={displaySrc} {...imgProps} />;
+};
+
+export default AdjustedImage;
@@ -0,0 +1,104 @@
+import React from 'react';
+import type { CanvasArtboard } from '../types';
+import { ARTBOARD_PRESETS, ICONS } from '../constants';
+
+interface ArtboardToolbarProps {
+  artboard: CanvasArtboard;
+  artboardCount: number;
+  onUpdate: (props: Partial<CanvasArtboard>) => void;
+  onExport: () => void;
+  onExportAll: () => void;
+}
+
+const MAX_ARTBOARD_SIZE = 8192;
+
+const SizeInput: React.FC<{ value: number; onChange: (value: number) => void; label: string }> = ({ value, onChange, label }) => (
+  <label className="flex items-center gap-1 text-xs text-gray-500">
+    {label}
+    <input
+      type="number"
+      value={value}
+      min={1}
+      max={MAX_ARTBOARD_SIZE}
+      onChange={e => {
+        const size = parseInt(e.target.value, 10);
+        if (size > 0) onChange(Math.min(size, MAX_ARTBOARD_SIZE));
+      }}
+      className="w-20 p-1 border border-gray-300 rounded-md text-sm text-gray-800 focus:ring-2 focus:ring-blue-400 focus:outline-none"
+    />
+  </label>
+);
+
+const ArtboardToolbar: React.FC<ArtboardToolbarProps> = ({ artboard, artboardCount, onUpdate, onExport, onExportAll }) => {
+  const presetIndex = ARTBOARD_PRESETS.findIndex(p => p.width === artboard.width && p.height === artboard.height);
+  const isTransparent = artboard.background === 'transparent';
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm border-b border-gray-200 p-2 flex items-center flex-wrap gap-x-4 gap-y-2 z-10 flex-shrink-0">
+      <div className="flex items-center gap-2">
+        <select
+          value={presetIndex}
+          onChange={e => {
+            const preset = ARTBOARD_PRESETS[parseInt(e.target.value, 10)];
+            if (preset) onUpdate({ width: preset.width, height: preset.height });
+          }}
+          className="p-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-400 focus:outline-none"
+          aria-label="Artboard size preset"
+        >
+          <option value={-1} disabled>Custom</option>
+          {ARTBOARD_PRESETS.map((preset, index) => (
+            <option key={preset.label} value={index}>{preset.label} ({preset.width}×{preset.height})</option>
+          ))}
+        </select>
+        <SizeInput label="W" value={artboard.width} onChange={width => onUpdate({ width })} />
+        <SizeInput label="H" value={artboard.height} onChange={height => onUpdate({ height })} />
+      </div>
+
+      <div className="w-px h-6 bg-gray-300" />
+
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <span>Background</span>
+        <div className={`relative w-7 h-7 rounded-md border border-gray-300 overflow-hidden ${isTransparent ? 'opacity-40' : ''}`}>
+          <input
+            type="color"
+            value={isTransparent ? '#ffffff' : artboard.background}
+            onChange={e => onUpdate({ background: e.target.value })}
+            className="absolute -top-1 -left-1 w-10 h-10 cursor-pointer"
+            title="Background color"
+          />
+        </div>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={isTransparent}
+            onChange={e => onUpdate({ background: e.target.checked ? 'transparent' : '#ffffff' })}
+          />
+          Transparent
+        </label>
+      </div>
+
+      <div className="w-px h-6 bg-gray-300" />
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onExport}
+          className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600"
+          title={`Export ${artboard.name} as a ${artboard.width}×${artboard.height} PNG`}
+        >
+          {ICONS.download}
+          Export
+        </button>
+        {artboardCount > 1 && (
+          <button
+            onClick={onExportAll}
+            className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+          >
+            Export all {artboardCount}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ArtboardToolbar;
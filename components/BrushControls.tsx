@@ -0,0 +1,71 @@
+import React from 'react';
+import type { BrushSettings } from '../types';
+
+interface BrushControlsProps {
+  settings: BrushSettings;
+  onChange: (settings: Partial<BrushSettings>) => void;
+  showColor?: boolean;
+  maxWidth?: number;
+}
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step?: number; display: string; onChange: (value: number) => void }> = ({
+  label, value, min, max, step = 1, display, onChange,
+}) => (
+  <label className="flex flex-col text-xs text-gray-500" title={label}>
+    <span className="flex justify-between gap-2">
+      {label}
+      <span className="text-gray-700">{display}</span>
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={e => onChange(parseFloat(e.target.value))}
+      className="w-24"
+    />
+  </label>
+);
+
+/** Color, width, opacity and smoothing inputs shared by the Draw tool and path layers. */
+const BrushControls: React.FC<BrushControlsProps> = ({ settings, onChange, showColor = true, maxWidth = 60 }) => (
+  <>
+    {showColor && (
+      <div className="relative w-8 h-8 rounded-md border border-gray-300 overflow-hidden flex-shrink-0" title="Color">
+        <input
+          type="color"
+          value={settings.color}
+          onChange={e => onChange({ color: e.target.value })}
+          className="absolute -top-1 -left-1 w-10 h-10 cursor-pointer"
+        />
+      </div>
+    )}
+    <Slider
+      label="Width"
+      value={Math.min(settings.width, maxWidth)}
+      min={1}
+      max={maxWidth}
+      display={`${Math.round(settings.width)}px`}
+      onChange={width => onChange({ width })}
+    />
+    <Slider
+      label="Opacity"
+      value={Math.round(settings.opacity * 100)}
+      min={5}
+      max={100}
+      display={`${Math.round(settings.opacity * 100)}%`}
+      onChange={opacity => onChange({ opacity: opacity / 100 })}
+    />
+    <Slider
+      label="Smoothing"
+      value={Math.round(settings.smoothing * 100)}
+      min={0}
+      max={100}
+      display={`${Math.round(settings.smoothing * 100)}%`}
+      onChange={smoothing => onChange({ smoothing: smoothing / 100 })}
+    />
+  </>
+);
+
+export default BrushControls;
@@ -1,7 +1,25 @@
-import React, { useRef, useState, useEffect, useImperativeHandle } from 'react';
+import React, { useRef, useState, useEffect, useImperativeHandle, useMemo } from 'react';
 import Moveable from 'react-moveable';
-import type { CanvasElement, CanvasAreaHandle, Layer, CanvasTextElement, CanvasImageElement } from '../types';
-import { Tool } from '../types';
+import OutpaintFrame from './OutpaintFrame';
+import VectorPath from './VectorPath';
+import ShapeGraphic from './ShapeGraphic';
+import CurvedText from './CurvedText';
+import AdjustedImage from './AdjustedImage';
+import type { BrushSettings, CanvasArtboard, CanvasElement, CanvasAreaHandle, Layer, CanvasTextElement, CanvasImageElement, MaskMode, MaskPath, OutpaintExtension, ShapePreset, StrokeMode, TextSelection, VectorStroke, Viewport } from '../types';
+import { Tool, isCanvasElement } from '../types';
+import { traceMaskPaths } from '../utils/imageUtils';
+import { screenToCanvas, zoomAtPoint } from '../utils/geometry';
+import { createPathGeometry, drawStrokes, getStrokesBounds } from '../utils/vectorPaths';
+import { getDraggedShapeBox, getShapePaths } from '../utils/shapes';
+import { createClipResolver, getShapeTransform, splitClipRuns } from '../utils/clipping';
+import { cropToBox, getCropAt, getCropImageStyle } from '../utils/crop';
+import { DEFAULT_LINE_HEIGHT, TEXT_PADDING_X, getUnderline, resizeTextBox } from '../utils/textLayout';
+import { getTextSegments, remapRuns } from '../utils/textRuns';
+import { hasTextEffect } from '../utils/textEffects';
+import { DEFAULT_FONT_FAMILY } from '../utils/fonts';
+import type { Bounds } from '../utils/geometry';
+import { DEFAULT_SHAPE_STYLE } from '../constants';
+import type { Point } from '../utils/geometry';
 
 interface CanvasAreaProps {
   layers: Layer[];
@@ -14,45 +32,50 @@ interface CanvasAreaProps {
   isShiftPressed: boolean;
   onAddText: (x: number, y: number) => void;
   onUpdateTextProps: (id: string, props: Partial<CanvasTextElement>) => void;
+  /** The characters selected while editing text, or null when none are. */
+  onTextSelectionChange: (selection: TextSelection | null) => void;
   onElementUpdate: (id: string, props: Partial<CanvasElement>) => void;
   onGroupUpdate: (targets: readonly (HTMLElement | SVGElement)[], updateFn: (el: HTMLElement | SVGElement, index: number) => Partial<CanvasElement>) => void;
   moveableRef: React.RefObject<Moveable>;
-  drawingColor: string;
+  brush: BrushSettings;
+  strokeMode: StrokeMode;
+  /** A path layer whose strokes are loaded on the drawing layer; it is hidden meanwhile. */
+  editingPathId: string | null;
+  onEditPath: (id: string) => void;
+  /** An image being cropped: moving or resizing it moves its frame over the image. */
+  croppingId: string | null;
+  shapePreset: ShapePreset;
+  onAddShape: (start: Point, end: Point, constrain: boolean) => void;
+  maskMode: MaskMode;
+  maskBrushSize: number;
+  onMaskChange: (paths: MaskPath[]) => void;
+  onSketchChange: (hasSketch: boolean) => void;
+  outpaintExtension: OutpaintExtension;
+  onOutpaintExtensionChange: (extension: OutpaintExtension) => void;
+  viewport: Viewport;
+  onViewportChange: (viewport: Viewport) => void;
 }
 
 interface DrawingState {
-  paths: { points: { x: number; y: number }[] }[];
+  paths: VectorStroke[];
 }
 
-const getDrawingBounds = (paths: { points: { x: number; y: number }[] }[]) => {
-    if (paths.length === 0 || paths.every(p => p.points.length < 2)) {
-        return null;
-    }
-    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-    paths.forEach(path => {
-        path.points.forEach(point => {
-            minX = Math.min(minX, point.x);
-            minY = Math.min(minY, point.y);
-            maxX = Math.max(maxX, point.x);
-            maxY = Math.max(maxY, point.y);
-        });
-    });
-    
-    const width = maxX - minX;
-    const height = maxY - minY;
-    
-    if (width < 0 || height < 0 || minX === Infinity) return null;
+// How much one pixel of wheel movement changes the zoom, exponentially.
+const WHEEL_ZOOM_SPEED = 0.0015;
+const WHEEL_LINE_HEIGHT = 16;
+const GRID_SIZE = 20;
 
-    return { x: minX, y: minY, width, height };
+/** Safari's trackpad pinch events, which the DOM typings leave out. */
+interface GestureEvent extends UIEvent {
+  scale: number;
+  clientX: number;
+  clientY: number;
 }
+// Height of an artboard's name label, in screen pixels.
+const ARTBOARD_LABEL_HEIGHT = 20;
 
-const calculateFontSizeFromHeight = (height: number): number => {
-    // This ratio ensures the font size is small enough to fit within the
-    // element's height, accounting for line-height and character descenders.
-    // It's consistent with the logic in the TextToolbar.
-    const FONT_SIZE_TO_HEIGHT_RATIO = 1.2;
-    return Math.max(1, height / FONT_SIZE_TO_HEIGHT_RATIO);
-};
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
 
 const CanvasArea = React.forwardRef<CanvasAreaHandle, CanvasAreaProps>(({
   layers,
@@ -65,17 +88,43 @@ const CanvasArea = React.forwardRef<CanvasAreaHandle, CanvasAreaProps>(({
   isShiftPressed,
   onAddText,
   onUpdateTextProps,
+  onTextSelectionChange,
   onElementUpdate,
   onGroupUpdate,
   moveableRef,
-  drawingColor,
+  brush,
+  strokeMode,
+  editingPathId,
+  onEditPath,
+  croppingId,
+  shapePreset,
+  onAddShape,
+  maskMode,
+  maskBrushSize,
+  onMaskChange,
+  onSketchChange,
+  outpaintExtension,
+  onOutpaintExtensionChange,
+  viewport,
+  onViewportChange,
 }, ref) => {
   const [drawingState, setDrawingState] = useState<DrawingState>({ paths: [] });
+  const [maskPaths, setMaskPaths] = useState<MaskPath[]>([]);
   const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
   const [editingTextId, setEditingTextId] = useState<string | null>(null);
+  const [isSpacePressed, setIsSpacePressed] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const [shapeDraft, setShapeDraft] = useState<{ start: Point; end: Point; constrain: boolean } | null>(null);
+
+  // Native wheel and touch listeners are registered once and read these.
+  const viewportRef = useRef(viewport);
+  viewportRef.current = viewport;
+  const onViewportChangeRef = useRef(onViewportChange);
+  onViewportChangeRef.current = onViewportChange;
 
   const isDrawingRef = useRef(false);
-  const currentPathRef = useRef<{ points: { x: number; y: number }[] }>({ points: [] });
+  const currentPathRef = useRef<VectorStroke | null>(null);
+  const currentMaskPathRef = useRef<MaskPath | null>(null);
 
   useEffect(() => {
     const container = canvasContainerRef.current;
@@ -101,43 +150,184 @@ const CanvasArea = React.forwardRef<CanvasAreaHandle, CanvasAreaProps>(({
     }
   }, [activeTool]);
 
+  // Tracks the selection inside the text being edited, as offsets into its
+  // content, so the text toolbar can style just those characters.
+  useEffect(() => {
+    if (!editingTextId) return;
+    const handleSelectionChange = () => {
+      const editor = document.getElementById(editingTextId)?.querySelector<HTMLElement>('[contenteditable="true"]');
+      const selection = window.getSelection();
+      if (!editor || document.activeElement !== editor || !selection || selection.rangeCount === 0) return;
+      const range = selection.getRangeAt(0);
+      if (!editor.contains(range.startContainer) || !editor.contains(range.endContainer)) return;
+      const offsetOf = (node: Node, offset: number) => {
+        const before = document.createRange();
+        before.selectNodeContents(editor);
+        before.setEnd(node, offset);
+        return before.toString().length;
+      };
+      const start = offsetOf(range.startContainer, range.startOffset);
+      const end = offsetOf(range.endContainer, range.endOffset);
+      onTextSelectionChange(start < end ? { id: editingTextId, start, end } : null);
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, [editingTextId, onTextSelectionChange]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      setIsSpacePressed(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpacePressed(false);
+    };
+    const handleBlur = () => setIsSpacePressed(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // Ctrl/cmd + wheel (which is also what trackpad pinches send) zooms towards
+  // the pointer; a plain wheel pans. Safari reports trackpad pinches as
+  // gesture events and touch screens as two-finger touches instead.
+  useEffect(() => {
+    const container = canvasContainerRef.current;
+    if (!container) return;
+
+    const toLocal = (clientX: number, clientY: number): Point => {
+      const rect = container.getBoundingClientRect();
+      return { x: clientX - rect.left, y: clientY - rect.top };
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const scale = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_HEIGHT : 1;
+      const current = viewportRef.current;
+      if (e.ctrlKey || e.metaKey) {
+        const zoom = current.zoom * Math.exp(-e.deltaY * scale * WHEEL_ZOOM_SPEED);
+        onViewportChangeRef.current(zoomAtPoint(current, zoom, toLocal(e.clientX, e.clientY)));
+      } else {
+        onViewportChangeRef.current({ ...current, x: current.x - e.deltaX * scale, y: current.y - e.deltaY * scale });
+      }
+    };
+
+    let gestureStart: { viewport: Viewport; anchor: Point } | null = null;
+    const handleGestureStart = (e: GestureEvent) => {
+      e.preventDefault();
+      gestureStart = { viewport: viewportRef.current, anchor: toLocal(e.clientX, e.clientY) };
+    };
+    const handleGestureChange = (e: GestureEvent) => {
+      e.preventDefault();
+      if (!gestureStart) return;
+      onViewportChangeRef.current(zoomAtPoint(gestureStart.viewport, gestureStart.viewport.zoom * e.scale, gestureStart.anchor));
+    };
+    const handleGestureEnd = () => { gestureStart = null; };
+
+    let pinchStart: { viewport: Viewport; center: Point; distance: number } | null = null;
+    const getPinch = (touches: TouchList) => {
+      const [a, b] = [touches[0], touches[1]];
+      return {
+        center: toLocal((a.clientX + b.clientX) / 2, (a.clientY + b.clientY) / 2),
+        distance: Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY),
+      };
+    };
+    const handleTouchStart = (e: TouchEvent) => {
+      if (e.touches.length !== 2) return;
+      e.preventDefault();
+      pinchStart = { viewport: viewportRef.current, ...getPinch(e.touches) };
+    };
+    const handleTouchMove = (e: TouchEvent) => {
+      if (!pinchStart || e.touches.length !== 2) return;
+      e.preventDefault();
+      const { center, distance } = getPinch(e.touches);
+      const zoomed = zoomAtPoint(pinchStart.viewport, pinchStart.viewport.zoom * distance / Math.max(pinchStart.distance, 1), pinchStart.center);
+      onViewportChangeRef.current({
+        ...zoomed,
+        x: zoomed.x + center.x - pinchStart.center.x,
+        y: zoomed.y + center.y - pinchStart.center.y,
+      });
+    };
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) pinchStart = null;
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    container.addEventListener('gesturestart', handleGestureStart);
+    container.addEventListener('gesturechange', handleGestureChange);
+    container.addEventListener('gestureend', handleGestureEnd);
+    container.addEventListener('touchstart', handleTouchStart, { passive: false });
+    container.addEventListener('touchmove', handleTouchMove, { passive: false });
+    container.addEventListener('touchend', handleTouchEnd);
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('gesturestart', handleGestureStart);
+      container.removeEventListener('gesturechange', handleGestureChange);
+      container.removeEventListener('gestureend', handleGestureEnd);
+      container.removeEventListener('touchstart', handleTouchStart);
+      container.removeEventListener('touchmove', handleTouchMove);
+      container.removeEventListener('touchend', handleTouchEnd);
+    };
+  }, [canvasContainerRef]);
+
+  useEffect(() => {
+    moveableRef.current?.updateRect();
+  }, [viewport, moveableRef]);
+
 
-  const redrawAllPaths = (paths: { points: { x: number; y: number }[] }[]) => {
+  const redrawAllPaths = (paths: VectorStroke[], masks: MaskPath[] = maskPaths) => {
     const canvas = drawingCanvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-    ctx.strokeStyle = drawingColor;
-    ctx.lineWidth = 5;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    
-    paths.forEach(path => {
-      if (path.points.length < 2) return;
-      ctx.beginPath();
-      ctx.moveTo(path.points[0].x, path.points[0].y);
-      for (let i = 1; i < path.points.length; i++) {
-        ctx.lineTo(path.points[i].x, path.points[i].y);
-      }
-      ctx.stroke();
-    });
+    // Paths are stored in canvas coordinates and drawn through the viewport.
+    ctx.setTransform(viewport.zoom, 0, 0, viewport.zoom, viewport.x, viewport.y);
+    drawStrokes(ctx, paths);
+
+    if (masks.length > 0) {
+      // Paint the mask opaque on a scratch canvas first so overlapping strokes
+      // don't stack up into darker patches, then overlay it translucently.
+      const maskCanvas = document.createElement('canvas');
+      maskCanvas.width = canvas.width;
+      maskCanvas.height = canvas.height;
+      const maskCtx = maskCanvas.getContext('2d');
+      if (!maskCtx) return;
+      maskCtx.setTransform(viewport.zoom, 0, 0, viewport.zoom, viewport.x, viewport.y);
+      traceMaskPaths(maskCtx, masks, '#3b82f6');
+      ctx.save();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.globalAlpha = 0.45;
+      ctx.drawImage(maskCanvas, 0, 0);
+      ctx.restore();
+    }
   };
 
   useEffect(() => {
     redrawAllPaths(drawingState.paths);
-  }, [drawingState.paths, canvasSize, drawingColor]);
+  }, [drawingState.paths, maskPaths, canvasSize, viewport]);
+
+  useEffect(() => {
+    onSketchChange(getStrokesBounds(drawingState.paths) !== null);
+  }, [drawingState.paths, onSketchChange]);
 
   
   useImperativeHandle(ref, () => ({
     getDrawingAsElement: () => {
-        const bounds = getDrawingBounds(drawingState.paths);
+        const bounds = getStrokesBounds(drawingState.paths);
         if (!bounds || bounds.width <= 0 || bounds.height <= 0) return null;
         
         const padding = 10;
-        const finalWidth = bounds.width + padding * 2;
-        const finalHeight = bounds.height + padding * 2;
+        const finalWidth = Math.ceil(bounds.width + padding * 2);
+        const finalHeight = Math.ceil(bounds.height + padding * 2);
 
         const tempCanvas = document.createElement('canvas');
         tempCanvas.width = finalWidth;
@@ -145,20 +335,8 @@ const CanvasArea = React.forwardRef<CanvasAreaHandle, CanvasAreaProps>(({
         const ctx = tempCanvas.getContext('2d');
         if (!ctx) return null;
 
-        ctx.strokeStyle = drawingColor;
-        ctx.lineWidth = 5;
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-
-        drawingState.paths.forEach(path => {
-            if (path.points.length < 2) return;
-            ctx.beginPath();
-            ctx.moveTo(path.points[0].x - bounds.x + padding, path.points[0].y - bounds.y + padding);
-            for (let i = 1; i < path.points.length; i++) {
-                ctx.lineTo(path.points[i].x - bounds.x + padding, path.points[i].y - bounds.y + padding);
-            }
-            ctx.stroke();
-        });
+        ctx.translate(padding - bounds.x, padding - bounds.y);
+        drawStrokes(ctx, drawingState.paths);
         
         const newElement: Omit<CanvasImageElement, 'visible' | 'name' | 'parentId'> = {
             id: `el-${Date.now()}`,
@@ -173,7 +351,15 @@ const CanvasArea = React.forwardRef<CanvasAreaHandle, CanvasAreaProps>(({
         };
 
         return newElement;
-    }
+    },
+    getDrawingAsPath: () => {
+        const geometry = createPathGeometry(drawingState.paths);
+        return geometry && { id: `el-${Date.now()}`, type: 'path', rotation: 0, ...geometry };
+    },
+    loadDrawing: (strokes: VectorStroke[]) => {
+        setDrawingState({ paths: strokes });
+    },
+    getMaskPaths: () => maskPaths,
   }));
 
 
@@ -182,18 +368,81 @@ const CanvasArea = React.forwardRef<CanvasAreaHandle, CanvasAreaProps>(({
         setDrawingState({ paths: [] });
     };
     
+    const handleClearMask = () => {
+        setMaskPaths([]);
+    };
+    
     const canvas = drawingCanvasRef.current;
     canvas?.addEventListener('clearDrawing', handleClear);
+    canvas?.addEventListener('clearMask', handleClearMask);
 
     return () => {
         canvas?.removeEventListener('clearDrawing', handleClear);
+        canvas?.removeEventListener('clearMask', handleClearMask);
     };
   }, [drawingCanvasRef]);
 
 
+  const outpaintTarget = activeTool === Tool.Outpaint && selectedElementIds.length === 1
+    ? elements.find((el): el is CanvasImageElement => el.id === selectedElementIds[0] && el.type === 'image' && el.visible)
+    : undefined;
+
+  const layersById = useMemo(() => new Map(layers.map(l => [l.id, l])), [layers]);
+  // Stacking follows the layer list, which interleaves artboards and elements.
+  const layerIndex = useMemo(() => new Map(layers.map((l, index) => [l.id, index])), [layers]);
+  // Each layer's children, bottom first. Layers whose parent is gone sit at the top level.
+  const childrenByParent = useMemo(() => {
+    const children = new Map<string | undefined, Layer[]>();
+    layers.forEach(layer => {
+      const parentId = layer.parentId && layersById.has(layer.parentId) ? layer.parentId : undefined;
+      children.set(parentId, [...(children.get(parentId) ?? []), layer]);
+    });
+    return children;
+  }, [layers, layersById]);
+
+  const clipResolver = useMemo(() => createClipResolver(layers), [layers]);
+
+  const getRotation = (id: string) => {
+    const layer = layersById.get(id);
+    return layer && isCanvasElement(layer) ? layer.rotation : 0;
+  };
+
   const getTarget = () => {
-    const visibleSelectedElements = elements.filter(el => selectedElementIds.includes(el.id) && el.visible);
-    return visibleSelectedElements.map(el => document.getElementById(el.id)).filter(Boolean) as HTMLElement[];
+    const visibleSelectedLayers = layers.filter(l => selectedElementIds.includes(l.id) && l.visible);
+    return visibleSelectedLayers.map(l => document.getElementById(l.id)).filter(Boolean) as HTMLElement[];
+  };
+  const isArtboardSelected = selectedElementIds.some(id => layersById.get(id)?.type === 'artboard');
+  const isCropping = !!croppingId && selectedElementIds.includes(croppingId);
+
+  const getCropTarget = (target: HTMLElement | SVGElement) => {
+    const el = target.id === croppingId ? layersById.get(target.id) : undefined;
+    return el?.type === 'image' ? el : undefined;
+  };
+
+  // Keeps the image still under a frame that is being dragged or resized.
+  const previewCrop = (target: HTMLElement | SVGElement, box: Bounds) => {
+    const el = getCropTarget(target);
+    if (!el) return;
+    const style = getCropImageStyle(getCropAt(el, box));
+    target.querySelectorAll('img').forEach(img => Object.assign(img.style, style));
+  };
+
+  // The crop is clamped to the image, so the DOM is corrected before React catches up.
+  const finishCrop = (target: HTMLElement | SVGElement, box: Bounds) => {
+    const el = getCropTarget(target);
+    if (!el) return false;
+    const result = cropToBox(el, box);
+    Object.assign(target.style, {
+      left: `${result.x}px`,
+      top: `${result.y}px`,
+      width: `${result.width}px`,
+      height: `${result.height}px`,
+      transform: `rotate(${el.rotation}deg)`,
+    });
+    const style = getCropImageStyle(result.crop);
+    target.querySelectorAll('img').forEach(img => Object.assign(img.style, style));
+    onElementUpdate(el.id, result);
+    return true;
   };
 
   const handleCanvasMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -205,7 +454,7 @@ const CanvasArea = React.forwardRef<CanvasAreaHandle, CanvasAreaProps>(({
         } else {
           const elementNode = target.closest('.canvas-element');
           const elementId = elementNode?.id;
-          const element = elementId ? elements.find(el => el.id === elementId) : undefined;
+          const element = elementId ? layersById.get(elementId) : undefined;
           
           if (elementId && element?.visible) {
             if (e.shiftKey) {
@@ -220,168 +469,436 @@ const CanvasArea = React.forwardRef<CanvasAreaHandle, CanvasAreaProps>(({
     } else if (activeTool === Tool.Text) {
         if (canvasContainerRef.current) {
             const rect = canvasContainerRef.current.getBoundingClientRect();
-            onAddText(e.clientX - rect.left, e.clientY - rect.top);
+            const point = screenToCanvas({ x: e.clientX - rect.left, y: e.clientY - rect.top }, viewport);
+            onAddText(point.x, point.y);
         }
+    } else if (activeTool === Tool.Shape && e.button === 0) {
+        handleShapeDragStart(e);
     }
   };
 
+  // Drags out a shape, previewing it until the button is released.
+  const handleShapeDragStart = (e: React.MouseEvent<HTMLDivElement>) => {
+    const container = canvasContainerRef.current;
+    if (!container) return;
+    const toCanvas = (clientX: number, clientY: number) => {
+      const rect = container.getBoundingClientRect();
+      return screenToCanvas({ x: clientX - rect.left, y: clientY - rect.top }, viewport);
+    };
+    const start = toCanvas(e.clientX, e.clientY);
+    let draft = { start, end: start, constrain: e.shiftKey };
+    setShapeDraft(draft);
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      draft = { start, end: toCanvas(moveEvent.clientX, moveEvent.clientY), constrain: moveEvent.shiftKey };
+      setShapeDraft(draft);
+    };
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      setShapeDraft(null);
+      onAddShape(draft.start, draft.end, draft.constrain);
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const getCanvasPoint = (e: React.MouseEvent<HTMLCanvasElement>): Point => {
+    const rect = drawingCanvasRef.current!.getBoundingClientRect();
+    return screenToCanvas({ x: e.clientX - rect.left, y: e.clientY - rect.top }, viewport);
+  };
+
+  // Pans with the middle button, or the left one while space is held. Runs in
+  // the capture phase so drawing, selection and Moveable never see the press.
+  const handlePanStart = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.button !== 1 && !(e.button === 0 && isSpacePressed)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const start = { clientX: e.clientX, clientY: e.clientY, viewport };
+    setIsPanning(true);
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      onViewportChange({
+        ...start.viewport,
+        x: start.viewport.x + moveEvent.clientX - start.clientX,
+        y: start.viewport.y + moveEvent.clientY - start.clientY,
+      });
+    };
+    const handleMouseUp = () => {
+      setIsPanning(false);
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
   const handleDrawStart = (e: React.MouseEvent<HTMLCanvasElement>) => {
     isDrawingRef.current = true;
-    const rect = drawingCanvasRef.current!.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    currentPathRef.current = { points: [{ x, y }] };
+    const { x, y } = getCanvasPoint(e);
+    if (activeTool === Tool.GenerativeFill) {
+      // The brush size is picked in screen pixels.
+      currentMaskPathRef.current = { mode: maskMode, points: [{ x, y }], brushSize: maskBrushSize / viewport.zoom };
+      redrawAllPaths(drawingState.paths, [...maskPaths, currentMaskPathRef.current]);
+      return;
+    }
+    // Like the mask brush, the stroke width is picked in screen pixels.
+    currentPathRef.current = { ...brush, width: brush.width / viewport.zoom, mode: strokeMode, points: [{ x, y }] };
   };
 
   const handleDrawMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
     if (!isDrawingRef.current) return;
+
+    if (activeTool === Tool.GenerativeFill) {
+      const maskPath = currentMaskPathRef.current;
+      if (!maskPath) return;
+      maskPath.points.push(getCanvasPoint(e));
+      redrawAllPaths(drawingState.paths, [...maskPaths, maskPath]);
+      return;
+    }
     
-    const canvas = drawingCanvasRef.current;
-    const ctx = canvas?.getContext("2d");
-    if (!ctx || !canvas) return;
-
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-
-    const points = currentPathRef.current.points;
-    if (points.length === 0) return;
-    const lastPoint = points[points.length - 1];
-
-    ctx.strokeStyle = drawingColor;
-    ctx.lineWidth = 5;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    ctx.beginPath();
-    ctx.moveTo(lastPoint.x, lastPoint.y);
-    ctx.lineTo(x, y);
-    ctx.stroke();
-    
-    points.push({ x, y });
+    const stroke = currentPathRef.current;
+    if (!stroke) return;
+    stroke.points.push(getCanvasPoint(e));
+    // Smoothing and opacity apply to the whole stroke, so it is redrawn each time.
+    redrawAllPaths([...drawingState.paths, stroke]);
   };
 
   const handleDrawEnd = () => {
+    if (isDrawingRef.current && activeTool === Tool.GenerativeFill) {
+      isDrawingRef.current = false;
+      const maskPath = currentMaskPathRef.current;
+      currentMaskPathRef.current = null;
+      // A lasso needs at least a triangle to enclose any area.
+      if (maskPath && (maskPath.mode === 'brush' || maskPath.points.length > 2)) {
+        const newMaskPaths = [...maskPaths, maskPath];
+        setMaskPaths(newMaskPaths);
+        onMaskChange(newMaskPaths);
+      } else {
+        redrawAllPaths(drawingState.paths);
+      }
+      return;
+    }
     if (isDrawingRef.current) {
       isDrawingRef.current = false;
-      if (currentPathRef.current.points.length > 1) {
-          const newPath = { points: [...currentPathRef.current.points] };
+      const stroke = currentPathRef.current;
+      if (stroke && stroke.points.length > 1) {
           setDrawingState(prev => ({
-              paths: [...prev.paths, newPath]
+              paths: [...prev.paths, stroke]
           }));
       }
-      currentPathRef.current = { points: [] };
+      currentPathRef.current = null;
+    }
+  };
+
+  const renderElement = (el: CanvasElement) => {
+    // Masks stay in place to be selected and moved, but only their clipping shows.
+    const isMaskContent = clipResolver.isMaskContent(el);
+    const commonStyle: React.CSSProperties = {
+        left: `${el.x}px`,
+        top: `${el.y}px`,
+        width: `${el.width}px`,
+        height: `${el.height}px`,
+        transform: `rotate(${el.rotation}deg)`,
+        zIndex: (layerIndex.get(el.id) ?? 0) + 1,
+        opacity: isMaskContent ? 0 : el.opacity ?? 1,
+        mixBlendMode: el.blendMode ?? 'normal',
+    };
+
+    if (el.type === 'image') {
+        const imageStyle = getCropImageStyle(el.crop);
+        return (
+            <div key={el.id} id={el.id} className="canvas-element absolute cursor-grab" style={commonStyle}>
+              {/* While cropping, the parts outside the frame show faded. */}
+              {el.id === croppingId && (
+                <AdjustedImage src={el.src} adjustments={el.adjustments} className="absolute max-w-none opacity-40 pointer-events-none" style={imageStyle} alt="" />
+              )}
+              <div className="absolute inset-0 overflow-hidden pointer-events-none">
+                <AdjustedImage src={el.src} adjustments={el.adjustments} className="absolute max-w-none" style={imageStyle} alt="canvas element" />
+              </div>
+            </div>
+        );
+    }
+
+    if (el.type === 'shape') {
+        return (
+            <div key={el.id} id={el.id} className="canvas-element absolute cursor-grab" style={commonStyle}>
+              <ShapeGraphic element={el} className="overflow-visible pointer-events-none" />
+            </div>
+        );
+    }
+
+    if (el.type === 'path') {
+        return (
+            <div
+              key={el.id}
+              id={el.id}
+              className="canvas-element absolute cursor-grab"
+              style={commonStyle}
+              onDoubleClick={() => {
+                  if (activeTool === Tool.Select) {
+                      onEditPath(el.id);
+                  }
+              }}
+            >
+              <VectorPath element={el} className="overflow-visible pointer-events-none" />
+            </div>
+        );
+    }
+
+    if (el.type === 'text') {
+        const isEditing = editingTextId === el.id;
+        const textStyles: React.CSSProperties = {
+            fontFamily: el.fontFamily ?? DEFAULT_FONT_FAMILY,
+            fontSize: `${el.fontSize}px`,
+            fontWeight: el.fontWeight,
+            fontStyle: el.fontStyle,
+            textAlign: el.align,
+            lineHeight: el.lineHeight ?? DEFAULT_LINE_HEIGHT,
+            letterSpacing: el.letterSpacing ? `${el.letterSpacing}px` : undefined,
+            textTransform: el.textTransform,
+            whiteSpace: 'pre-line',
+            paddingLeft: TEXT_PADDING_X,
+            paddingRight: TEXT_PADDING_X,
+        };
+        if (el.shadowEnabled) {
+            // A filter rather than text-shadow, so the shadow stays under a
+            // gradient fill and the export can cast it the same way.
+            textStyles.filter = `drop-shadow(${el.shadowOffsetX}px ${el.shadowOffsetY}px ${el.shadowBlur}px ${el.shadowColor})`;
+        }
+        if (el.outlineEnabled) {
+            (textStyles as any).WebkitTextStroke = `${el.outlineWidth}px ${el.outlineColor}`;
+            (textStyles as any).textStroke = `${el.outlineWidth}px ${el.outlineColor}`;
+        }
+
+        if (el.fillType === 'solid') {
+            textStyles.color = el.color;
+        } else {
+            textStyles.background = `linear-gradient(${el.gradientDirection}, ${el.gradientColors[0]}, ${el.gradientColors[1]})`;
+            textStyles.WebkitBackgroundClip = 'text';
+            textStyles.backgroundClip = 'text';
+            textStyles.color = 'transparent';
+        }
+
+        // While typing, an auto-sized box grows with its text. It's fitted
+        // exactly, the way the export measures it, once editing ends.
+        const sizing = el.sizing ?? 'fixed';
+        const boxStyle: React.CSSProperties = isEditing && sizing !== 'fixed'
+            ? { ...commonStyle, width: sizing === 'auto-width' ? 'max-content' : commonStyle.width, height: 'auto', minHeight: commonStyle.height }
+            : commonStyle;
+
+        return (
+            <div
+                key={el.id}
+                id={el.id}
+                className="canvas-element absolute flex justify-center cursor-grab"
+                style={boxStyle}
+                onDoubleClick={() => {
+                    if (activeTool === Tool.Select) {
+                        setEditingTextId(el.id);
+                    }
+                }}
+            >
+                {/* Curved text is edited flat, in lines, and curves again when editing ends. */}
+                {hasTextEffect(el) && !isEditing ? (
+                  <CurvedText element={el} className="overflow-visible pointer-events-none" />
+                ) : (
+                  <div
+                    // Remounted when editing starts and ends, so React never
+                    // reconciles against text the browser has edited.
+                    key={isEditing ? 'editor' : 'text'}
+                    contentEditable={isEditing}
+                    suppressContentEditableWarning={true}
+                    onBlur={(e) => {
+                        // Not innerText, which would bake in the text transform.
+                        const content = e.currentTarget.textContent ?? '';
+                        onUpdateTextProps(el.id, { content, runs: remapRuns(el.content, content, el.runs) });
+                        setEditingTextId(null);
+                    }}
+                    onKeyDown={(e) => {
+                        // Enter starts a new line as a plain line break, which
+                        // the text's white-space keeps; Escape finishes editing.
+                        if (e.key === 'Enter') {
+                            e.preventDefault();
+                            document.execCommand('insertText', false, '\n');
+                        } else if (e.key === 'Escape') {
+                            e.preventDefault();
+                            e.currentTarget.blur();
+                        }
+                    }}
+                    onPaste={(e) => {
+                        e.preventDefault();
+                        document.execCommand('insertText', false, e.clipboardData.getData('text/plain'));
+                    }}
+                    className={`w-full h-full box-border break-words ${isEditing ? 'ring-2 ring-blue-500 focus:outline-none' : ''}`}
+                    style={textStyles}
+                  >
+                    {/* Runs set only what differs from the box, except decorations: a run can't take off an underline it inherits. */}
+                    {getTextSegments(el).map(({ text, start, style }) => (
+                      <span
+                        key={start}
+                        style={{
+                            fontFamily: style.fontFamily !== textStyles.fontFamily ? style.fontFamily : undefined,
+                            fontSize: style.fontSize !== el.fontSize ? `${style.fontSize}px` : undefined,
+                            fontWeight: style.fontWeight !== el.fontWeight ? style.fontWeight : undefined,
+                            fontStyle: style.fontStyle !== el.fontStyle ? style.fontStyle : undefined,
+                            textDecoration: style.textDecoration,
+                            // Placed like the export's, rather than from the font.
+                            textUnderlineOffset: style.textDecoration === 'underline' ? `${getUnderline(style.fontSize).offset}px` : undefined,
+                            textDecorationThickness: style.textDecoration === 'underline' ? `${getUnderline(style.fontSize).thickness}px` : undefined,
+                            color: el.fillType === 'solid' && style.color !== el.color ? style.color : undefined,
+                        }}
+                      >
+                        {text}
+                      </span>
+                    ))}
+                  </div>
+                )}
+            </div>
+        )
     }
+    return null;
+  };
+
+  const getMaskId = (layer: Layer) => (clipResolver.isMaskContent(layer) ? undefined : clipResolver.getMaskId(layer));
+  const clipMasks = [...new Set(layers.filter(l => l.visible).map(getMaskId).filter(Boolean))].map(clipResolver.getMask);
+
+  const renderArtboard = (artboard: CanvasArtboard) => (
+    <React.Fragment key={artboard.id}>
+      <div
+        className="absolute flex items-end whitespace-nowrap text-xs text-gray-500 pointer-events-none"
+        style={{
+          left: `${artboard.x}px`,
+          top: `${artboard.y - ARTBOARD_LABEL_HEIGHT}px`,
+          height: `${ARTBOARD_LABEL_HEIGHT}px`,
+          transform: `scale(${1 / viewport.zoom})`,
+          transformOrigin: '0 100%',
+        }}
+      >
+        {artboard.name} · {artboard.width}×{artboard.height}
+      </div>
+      <div
+        id={artboard.id}
+        className="canvas-element absolute overflow-hidden shadow-md"
+        style={{
+          left: `${artboard.x}px`,
+          top: `${artboard.y}px`,
+          width: `${artboard.width}px`,
+          height: `${artboard.height}px`,
+          background: artboard.background,
+          zIndex: (layerIndex.get(artboard.id) ?? 0) + 1,
+        }}
+      >
+        {/* Cancels the artboard's offset so children keep canvas coordinates. */}
+        <div className="absolute" style={{ left: `${-artboard.x}px`, top: `${-artboard.y}px` }}>
+          {renderLayers(artboard.id)}
+        </div>
+      </div>
+    </React.Fragment>
+  );
+
+  // A group's children go in one container, so they blend with each other and
+  // then take the group's opacity and blend mode together.
+  const renderLayer = (layer: Layer): React.ReactNode =>
+    layer.type === 'artboard' ? renderArtboard(layer)
+      : layer.type === 'group' ? (
+        <div
+          key={layer.id}
+          className="absolute left-0 top-0"
+          style={{ zIndex: (layerIndex.get(layer.id) ?? 0) + 1, opacity: layer.opacity ?? 1, mixBlendMode: layer.blendMode ?? 'normal' }}
+        >
+          {renderLayers(layer.id)}
+        </div>
+      )
+      : renderElement(layer);
+
+  // Runs of siblings under a clipping mask go in a container clipped to it.
+  const renderLayers = (parentId: string | undefined): React.ReactNode[] => {
+    const children = (childrenByParent.get(parentId) ?? []).filter(l => l.visible && l.id !== editingPathId);
+    return splitClipRuns(children, getMaskId).map(run => run.type === 'item' ? renderLayer(run.item) : (
+      <div
+        key={`clip-${run.maskId}-${run.items[0].id}`}
+        className="absolute left-0 top-0"
+        style={{ clipPath: `url(#clip-${run.maskId})`, zIndex: (layerIndex.get(run.items[run.items.length - 1].id) ?? 0) + 1 }}
+      >
+        {run.items.map(renderLayer)}
+      </div>
+    ));
   };
 
   return (
     <div
       id="canvas-area"
       ref={canvasContainerRef}
-      className="relative w-full h-full bg-gray-50 overflow-hidden select-none"
+      className="relative w-full h-full bg-gray-50 overflow-hidden select-none touch-none"
+      onMouseDownCapture={handlePanStart}
       onMouseDown={handleCanvasMouseDown}
-      style={{ cursor: activeTool === Tool.Text ? 'text' : 'default' }}
+      style={{
+        cursor: isPanning ? 'grabbing'
+          : isSpacePressed ? 'grab'
+          : activeTool === Tool.Text ? 'text'
+          : activeTool === Tool.GenerativeFill || activeTool === Tool.Shape ? 'crosshair'
+          : 'default',
+      }}
     >
         <div className="absolute inset-0 canvas-bg" style={{
             backgroundImage: 'radial-gradient(#e0e0e0 1px, transparent 0)',
-            backgroundSize: '20px 20px',
+            backgroundSize: `${GRID_SIZE * viewport.zoom}px ${GRID_SIZE * viewport.zoom}px`,
+            backgroundPosition: `${viewport.x}px ${viewport.y}px`,
         }}/>
       <canvas
         ref={drawingCanvasRef}
         width={canvasSize.width}
         height={canvasSize.height}
         className="absolute top-0 left-0"
-        style={{ pointerEvents: activeTool === Tool.Draw ? 'auto' : 'none', zIndex: 10 }}
+        style={{ pointerEvents: activeTool === Tool.Draw || activeTool === Tool.GenerativeFill ? 'auto' : 'none', zIndex: 10 }}
         onMouseDown={handleDrawStart}
         onMouseMove={handleDrawMove}
         onMouseUp={handleDrawEnd}
         onMouseLeave={handleDrawEnd}
       />
-      
-      {elements.filter(el => el.visible).map((el, index) => {
-        const commonStyle: React.CSSProperties = {
-            left: `${el.x}px`,
-            top: `${el.y}px`,
-            width: `${el.width}px`,
-            height: `${el.height}px`,
-            transform: `rotate(${el.rotation}deg)`,
-            zIndex: index + 1,
-        };
-
-        if (el.type === 'image') {
-            return (
-                <img
-                  key={el.id}
-                  id={el.id}
-                  src={el.src}
-                  className="canvas-element absolute cursor-grab"
-                  style={commonStyle}
-                  alt="canvas element"
-                />
-            );
-        }
 
-        if (el.type === 'text') {
-            const isEditing = editingTextId === el.id;
-            const textStyles: React.CSSProperties = {
-                fontSize: `${el.fontSize}px`,
-                fontWeight: el.fontWeight,
-                fontStyle: el.fontStyle,
-                textDecoration: el.textDecoration,
-                textAlign: el.align,
-                lineHeight: 1.1,
-            };
-            if (el.shadowEnabled) {
-                textStyles.textShadow = `${el.shadowOffsetX}px ${el.shadowOffsetY}px ${el.shadowBlur}px ${el.shadowColor}`;
-            }
-            if (el.outlineEnabled) {
-                (textStyles as any).WebkitTextStroke = `${el.outlineWidth}px ${el.outlineColor}`;
-                (textStyles as any).textStroke = `${el.outlineWidth}px ${el.outlineColor}`;
-            }
-
-            if (el.fillType === 'solid') {
-                textStyles.color = el.color;
-            } else {
-                textStyles.background = `linear-gradient(${el.gradientDirection}, ${el.gradientColors[0]}, ${el.gradientColors[1]})`;
-                textStyles.WebkitBackgroundClip = 'text';
-                textStyles.backgroundClip = 'text';
-                textStyles.color = 'transparent';
-            }
+      <div
+        className="absolute top-0 left-0"
+        style={{ transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})`, transformOrigin: '0 0' }}
+      >
+      {renderLayers(undefined)}
+      {clipMasks.length > 0 && (
+        <svg className="absolute" width={0} height={0}>
+          <defs>
+            {clipMasks.map(mask => (
+              <clipPath key={mask.id} id={`clip-${mask.id}`} clipPathUnits="userSpaceOnUse">
+                {mask.shapes.map(shape => (
+                  <path key={shape.id} d={getShapePaths(shape).outline} transform={getShapeTransform(shape)} />
+                ))}
+              </clipPath>
+            ))}
+          </defs>
+        </svg>
+      )}
 
-            return (
-                <div
-                    key={el.id}
-                    id={el.id}
-                    className="canvas-element absolute flex justify-center cursor-grab"
-                    style={commonStyle}
-                    onDoubleClick={() => {
-                        if (activeTool === Tool.Select) {
-                            setEditingTextId(el.id);
-                        }
-                    }}
-                >
-                    <div
-                      contentEditable={isEditing}
-                      suppressContentEditableWarning={true}
-                      onBlur={(e) => {
-                          onUpdateTextProps(el.id, { content: e.currentTarget.innerText });
-                          setEditingTextId(null);
-                      }}
-                      onKeyDown={(e) => {
-                          if (e.key === 'Enter') {
-                              e.preventDefault();
-                              e.currentTarget.blur();
-                          }
-                      }}
-                      className={`w-full h-full px-1 box-border break-words ${isEditing ? 'ring-2 ring-blue-500 focus:outline-none' : ''}`}
-                      style={textStyles}
-                    >
-                      {el.content}
-                    </div>
-                </div>
-            )
-        }
-        return null;
-      })}
+      {shapeDraft && (() => {
+        const style = { ...DEFAULT_SHAPE_STYLE, ...shapePreset.style };
+        const box = getDraggedShapeBox(shapePreset.shape, shapeDraft.start, shapeDraft.end, style.strokeWidth, shapeDraft.constrain);
+        return (
+          <div
+            className="absolute opacity-60 pointer-events-none"
+            style={{ left: `${box.x}px`, top: `${box.y}px`, width: `${box.width}px`, height: `${box.height}px`, transform: `rotate(${box.rotation}deg)`, zIndex: layers.length + 1 }}
+          >
+            <ShapeGraphic element={{ ...style, shape: shapePreset.shape, width: box.width, height: box.height }} className="overflow-visible" />
+          </div>
+        );
+      })()}
+
+      {outpaintTarget && (
+        <OutpaintFrame
+          element={outpaintTarget}
+          extension={outpaintExtension}
+          onChange={onOutpaintExtensionChange}
+          zoom={viewport.zoom}
+        />
+      )}
+      </div>
 
       {activeTool === Tool.Select && (
         <Moveable
@@ -389,7 +906,7 @@ const CanvasArea = React.forwardRef<CanvasAreaHandle, CanvasAreaProps>(({
           target={getTarget()}
           draggable={true}
           resizable={true}
-          rotatable={true}
+          rotatable={!isArtboardSelected && !isCropping}
           keepRatio={isShiftPressed}
           throttleDrag={1}
           throttleResize={1}
@@ -398,6 +915,7 @@ const CanvasArea = React.forwardRef<CanvasAreaHandle, CanvasAreaProps>(({
           onDrag={({ target, left, top }) => {
             target.style.left = `${left}px`;
             target.style.top = `${top}px`;
+            previewCrop(target, { x: left, y: top, width: parseFloat(target.style.width), height: parseFloat(target.style.height) });
           }}
           onDragGroup={({ events }) => {
             events.forEach(ev => {
@@ -405,68 +923,63 @@ const CanvasArea = React.forwardRef<CanvasAreaHandle, CanvasAreaProps>(({
               ev.target.style.top = `${ev.top}px`;
             });
           }}
-          onDragEnd={({ target }) => onElementUpdate(target.id, { x: parseFloat(target.style.left), y: parseFloat(target.style.top) })}
+          onDragEnd={({ target }) => {
+            const x = parseFloat(target.style.left);
+            const y = parseFloat(target.style.top);
+            if (finishCrop(target, { x, y, width: parseFloat(target.style.width), height: parseFloat(target.style.height) })) return;
+            onElementUpdate(target.id, { x, y });
+          }}
           onDragGroupEnd={({ targets }) => onGroupUpdate(targets, t => ({ x: parseFloat(t.style.left), y: parseFloat(t.style.top) }))}
           
           onResize={({ target, width, height, drag }) => {
             target.style.width = `${width}px`;
             target.style.height = `${height}px`;
-            const el = elements.find(e => e.id === target.id);
-            if (el?.type === 'text') {
-                target.querySelector('div')!.style.fontSize = `${calculateFontSizeFromHeight(height)}px`;
-            }
-            target.style.transform = `translate(${drag.beforeTranslate[0]}px, ${drag.beforeTranslate[1]}px) rotate(${el?.rotation || 0}deg)`;
+            target.style.transform = `translate(${drag.beforeTranslate[0]}px, ${drag.beforeTranslate[1]}px) rotate(${getRotation(target.id)}deg)`;
+            previewCrop(target, { x: drag.left, y: drag.top, width, height });
           }}
           onResizeGroup={({ events }) => {
             events.forEach(ev => {
               ev.target.style.width = `${ev.width}px`;
               ev.target.style.height = `${ev.height}px`;
-              const el = elements.find(e => e.id === ev.target.id);
-               if (el?.type === 'text') {
-                    (ev.target as HTMLElement).querySelector('div')!.style.fontSize = `${calculateFontSizeFromHeight(ev.height)}px`;
-               }
-              ev.target.style.transform = `translate(${ev.drag.beforeTranslate[0]}px, ${ev.drag.beforeTranslate[1]}px) rotate(${el?.rotation || 0}deg)`;
+              ev.target.style.transform = `translate(${ev.drag.beforeTranslate[0]}px, ${ev.drag.beforeTranslate[1]}px) rotate(${getRotation(ev.target.id)}deg)`;
             });
           }}
           // FIX: The properties `width`, `height`, and `drag` on the `onResizeEnd` event are located
           // on the `lastEvent` property. Access them via `e.lastEvent` after a null check.
           onResizeEnd={e => {
             if (e.lastEvent && 'width' in e.lastEvent && 'height' in e.lastEvent && e.lastEvent.drag) {
-              const el = elements.find(el => el.id === e.target.id);
-              if (!el) return;
-              
-              const newProps: Partial<CanvasElement> = {
+              const el = layersById.get(e.target.id);
+              if (!el || el.type === 'group') return;
+              const { width, height, drag } = e.lastEvent;
+              if (finishCrop(e.target, { x: drag.left, y: drag.top, width, height })) return;
+
+              const box = {
                   width: e.lastEvent.width,
                   height: e.lastEvent.height,
                   x: e.lastEvent.drag.left,
                   y: e.lastEvent.drag.top,
               };
-              if (el.type === 'text') {
-                  (newProps as Partial<CanvasTextElement>).fontSize = calculateFontSizeFromHeight(e.lastEvent.height);
-              }
+              // Text reflows in its new box rather than scaling.
+              const newProps: Partial<CanvasElement> = el.type === 'text' ? resizeTextBox(el, box) : box;
   
-              e.target.style.transform = `rotate(${el?.rotation || 0}deg)`;
+              e.target.style.transform = `rotate(${getRotation(el.id)}deg)`;
               onElementUpdate(e.target.id, newProps);
             }
           }}
           onResizeGroupEnd={({ targets, events }) => {
             targets.forEach(t => {
-                const el = elements.find(e => e.id === t.id);
-                t.style.transform = `rotate(${el?.rotation || 0}deg)`;
+                t.style.transform = `rotate(${getRotation(t.id)}deg)`;
             });
             onGroupUpdate(targets, (t, i) => {
                  const el = elements.find(e => e.id === t.id);
                  if (!events[i]?.drag) return {};
-                 const newProps: Partial<CanvasElement> = {
+                 const box = {
                      width: events[i].width,
                      height: events[i].height,
                      x: events[i].drag.left,
                      y: events[i].drag.top,
                  };
-                 if (el?.type === 'text') {
-                     (newProps as Partial<CanvasTextElement>).fontSize = calculateFontSizeFromHeight(events[i].height);
-                 }
-                 return newProps;
+                 return el?.type === 'text' ? resizeTextBox(el, box) : box;
             });
           }}
 
@@ -6,15 +6,31 @@ interface ConfirmationDialogProps {
   onConfirm: () => void;
   title: string;
   children: React.ReactNode;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  variant?: 'danger' | 'primary';
+  // Whether clicking outside the dialog closes it. Turn this off when
+  // closing does something that can't be taken back.
+  dismissible?: boolean;
 }
 
-const ConfirmationDialog: React.FC<ConfirmationDialogProps> = ({ isOpen, onClose, onConfirm, title, children }) => {
+const ConfirmationDialog: React.FC<ConfirmationDialogProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  title,
+  children,
+  confirmLabel = 'Delete',
+  cancelLabel = 'Cancel',
+  variant = 'danger',
+  dismissible = true,
+}) => {
   if (!isOpen) return null;
 
   return (
     <div
       className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center"
-      onClick={onClose}
+      onClick={dismissible ? onClose : undefined}
       aria-modal="true"
       role="dialog"
     >
@@ -31,13 +47,15 @@ const ConfirmationDialog: React.FC<ConfirmationDialogProps> = ({ isOpen, onClose
             onClick={onClose}
             className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
           >
-            Cancel
+            {cancelLabel}
           </button>
           <button
             onClick={onConfirm}
-            className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors focus:outline-none focus:ring-2 focus:ring-red-400"
+            className={`px-4 py-2 text-white rounded-lg transition-colors focus:outline-none focus:ring-2 ${
+              variant === 'danger' ? 'bg-red-500 hover:bg-red-600 focus:ring-red-400' : 'bg-blue-500 hover:bg-blue-600 focus:ring-blue-400'
+            }`}
           >
-            Delete
+            {confirmLabel}
           </button>
         </div>
       </div>
@@ -0,0 +1,88 @@
+import React from 'react';
+import type { CanvasTextElement } from '../types';
+import { getGlyphBounds, getGlyphTransform, layoutGlyphs } from '../utils/textEffects';
+import type { Glyph } from '../utils/textEffects';
+import { getGradientLine, getUnderline } from '../utils/textLayout';
+
+type GlyphPaint = Pick<React.SVGProps<SVGElement>, 'fill' | 'stroke' | 'strokeWidth'>;
+
+interface CurvedTextProps {
+  element: CanvasTextElement;
+  className?: string;
+}
+
+/**
+ * Text on a path or warped, as SVG in its own box, a character at a time.
+ * Mirrors the scene renderer and the SVG export, which draw the same glyphs.
+ */
+const CurvedText: React.FC<CurvedTextProps> = ({ element: el, className }) => {
+  const glyphs = layoutGlyphs(el);
+
+  const renderGlyphs = (paint: (glyph: Glyph) => GlyphPaint, withUnderlines: boolean) => glyphs.map((glyph, index) => {
+    const transform = getGlyphTransform(glyph);
+    const underline = getUnderline(glyph.style.fontSize);
+    return (
+      <React.Fragment key={index}>
+        <text
+          transform={transform}
+          x={-glyph.width / 2}
+          fontFamily={glyph.style.fontFamily}
+          fontSize={glyph.style.fontSize}
+          fontWeight={glyph.style.fontWeight}
+          fontStyle={glyph.style.fontStyle}
+          {...paint(glyph)}
+        >
+          {glyph.text}
+        </text>
+        {withUnderlines && glyph.style.textDecoration === 'underline' && (
+          <rect
+            transform={transform}
+            x={-glyph.width / 2}
+            y={underline.offset}
+            width={glyph.width}
+            height={underline.thickness}
+            {...paint(glyph)}
+          />
+        )}
+      </React.Fragment>
+    );
+  });
+
+  let fill: React.ReactNode;
+  if (el.fillType === 'gradient') {
+    // One gradient across the box, cut out by the glyphs.
+    const gradientId = `${el.id}-curved-fill`;
+    const clipId = `${el.id}-curved-glyphs`;
+    const { x0, y0, x1, y1 } = getGradientLine({ ...el, x: 0, y: 0 });
+    const bounds = getGlyphBounds(glyphs);
+    fill = (
+      <>
+        <defs>
+          <linearGradient id={gradientId} gradientUnits="userSpaceOnUse" x1={x0} y1={y0} x2={x1} y2={y1}>
+            <stop offset="0" stopColor={el.gradientColors[0]} />
+            <stop offset="1" stopColor={el.gradientColors[1]} />
+          </linearGradient>
+          <clipPath id={clipId} clipPathUnits="userSpaceOnUse">{renderGlyphs(() => ({}), true)}</clipPath>
+        </defs>
+        <rect x={bounds.x} y={bounds.y} width={bounds.width} height={bounds.height} fill={`url(#${gradientId})`} clipPath={`url(#${clipId})`} />
+      </>
+    );
+  } else {
+    fill = renderGlyphs(glyph => ({ fill: glyph.style.color }), true);
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${Math.max(el.width, 1)} ${Math.max(el.height, 1)}`}
+      className={className}
+      width="100%"
+      height="100%"
+      style={el.shadowEnabled ? { filter: `drop-shadow(${el.shadowOffsetX}px ${el.shadowOffsetY}px ${el.shadowBlur}px ${el.shadowColor})` } : undefined}
+    >
+      {fill}
+      {el.outlineEnabled && renderGlyphs(() => ({ fill: 'none', stroke: el.outlineColor, strokeWidth: el.outlineWidth }), false)}
+    </svg>
+  );
+};
+
+export default CurvedText;
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import type { CanvasGroup, ExportArea, ExportOptions } from '../types';
+import { DEFAULT_EXPORT_OPTIONS, EXPORT_FORMATS, EXPORT_SCALES } from '../constants';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  /** The options the dialog opens with, usually the last ones used. */
+  options: ExportOptions;
+  groups: CanvasGroup[];
+  hasSelection: boolean;
+  onClose: () => void;
+  onExport: (options: ExportOptions) => void;
+}
+
+const AREAS: { value: ExportArea; label: string }[] = [
+  { value: 'view', label: 'Visible area' },
+  { value: 'canvas', label: 'Whole canvas' },
+  { value: 'selection', label: 'Selection' },
+  { value: 'group', label: 'Group' },
+];
+
+const SegmentButton: React.FC<{ label: string; isActive: boolean; onClick: () => void; disabled?: boolean }> = ({ label, isActive, onClick, disabled }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    className={`px-3 py-1 text-sm rounded-md transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${
+      isActive ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+    }`}
+  >
+    {label}
+  </button>
+);
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex items-start gap-4">
+    <span className="w-24 pt-1 text-sm font-medium text-gray-700 flex-shrink-0">{label}</span>
+    <div className="flex flex-wrap items-center gap-2 flex-grow">{children}</div>
+  </div>
+);
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, options, groups, hasSelection, onClose, onExport }) => {
+  const [draft, setDraft] = useState(options);
+
+  useEffect(() => {
+    if (isOpen) setDraft(options);
+  }, [isOpen, options]);
+
+  if (!isOpen) return null;
+
+  const update = (props: Partial<ExportOptions>) => setDraft(prev => ({ ...prev, ...props }));
+  const format = EXPORT_FORMATS.find(f => f.value === draft.format) ?? EXPORT_FORMATS[0];
+  const isAreaAvailable = (area: ExportArea) =>
+    area === 'selection' ? hasSelection : area === 'group' ? groups.length > 0 : true;
+  const groupId = groups.some(g => g.id === draft.groupId) ? draft.groupId : groups[0]?.id;
+  const canExport = isAreaAvailable(draft.area);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white rounded-2xl shadow-xl p-6 m-4 w-full max-w-lg transform transition-all"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-gray-800 mb-5">Export</h2>
+        <div className="flex flex-col gap-4 mb-6">
+          <Field label="Format">
+            {EXPORT_FORMATS.map(f => (
+              <SegmentButton key={f.value} label={f.label} isActive={draft.format === f.value} onClick={() => update({ format: f.value })} />
+            ))}
+            {format.note && <p className="w-full text-xs text-gray-500">{format.note}</p>}
+          </Field>
+
+          {format.hasQuality && (
+            <Field label="Quality">
+              <input
+                type="range"
+                min={10}
+                max={100}
+                value={Math.round(draft.quality * 100)}
+                onChange={e => update({ quality: parseInt(e.target.value, 10) / 100 })}
+                className="flex-grow"
+                aria-label="Quality"
+              />
+              <span className="w-10 text-right text-sm text-gray-600 tabular-nums">{Math.round(draft.quality * 100)}%</span>
+            </Field>
+          )}
+
+          <Field label="Scale">
+            {EXPORT_SCALES.map(scale => (
+              <SegmentButton key={scale} label={`${scale}x`} isActive={draft.scale === scale} onClick={() => update({ scale })} />
+            ))}
+          </Field>
+
+          <Field label="Area">
+            {AREAS.map(area => (
+              <SegmentButton
+                key={area.value}
+                label={area.label}
+                isActive={draft.area === area.value}
+                onClick={() => update({ area: area.value })}
+                disabled={!isAreaAvailable(area.value)}
+              />
+            ))}
+            {draft.area === 'group' && groups.length > 0 && (
+              <select
+                value={groupId}
+                onChange={e => update({ groupId: e.target.value })}
+                className="w-full p-1 border border-gray-300 rounded-md text-sm bg-white focus:ring-2 focus:ring-blue-400 focus:outline-none"
+                aria-label="Group to export"
+              >
+                {groups.map(group => (
+                  <option key={group.id} value={group.id}>{group.name}</option>
+                ))}
+              </select>
+            )}
+          </Field>
+
+          <Field label="Background">
+            <SegmentButton label="Transparent" isActive={draft.background === null} onClick={() => update({ background: null })} />
+            <SegmentButton
+              label="Color"
+              isActive={draft.background !== null}
+              onClick={() => update({ background: draft.background ?? DEFAULT_EXPORT_OPTIONS.background })}
+            />
+            {draft.background !== null && (
+              <div className="relative w-7 h-7 rounded-md border border-gray-300 overflow-hidden">
+                <input
+                  type="color"
+                  value={draft.background}
+                  onChange={e => update({ background: e.target.value })}
+                  className="absolute -top-1 -left-1 w-10 h-10 cursor-pointer"
+                  title="Background color"
+                />
+              </div>
+            )}
+            {draft.background === null && !format.hasTransparency && (
+              <p className="w-full text-xs text-gray-500">{format.label} has no transparency, so the background will be white.</p>
+            )}
+          </Field>
+        </div>
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onExport({ ...draft, groupId: draft.area === 'group' ? groupId : draft.groupId })}
+            disabled={!canExport}
+            className="px-4 py-2 text-white rounded-lg transition-colors focus:outline-none focus:ring-2 bg-blue-500 hover:bg-blue-600 focus:ring-blue-400 disabled:bg-blue-300 disabled:cursor-not-allowed"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import type { HistoryNode, HistoryState } from '../utils/history';
+import { getHistoryPath, getRedoChild } from '../utils/history';
+import { ICONS } from '../constants';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  onJumpTo: (id: string) => void;
+  onNameSnapshot: (id: string, name: string | null) => void;
+  onShowLayers: () => void;
+  height: number;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const countSteps = (history: HistoryState, id: string): number => {
+  const node = history.nodes[id];
+  return node ? 1 + node.childIds.reduce((sum, childId) => sum + countSteps(history, childId), 0) : 0;
+};
+
+const HistoryRow: React.FC<{
+  node: HistoryNode;
+  isCurrent: boolean;
+  isApplied: boolean;
+  depth: number;
+  onJumpTo: (id: string) => void;
+}> = ({ node, isCurrent, isApplied, depth, onJumpTo }) => (
+  <button
+    onClick={() => onJumpTo(node.id)}
+    className={`w-full flex items-center gap-2 py-1.5 pr-3 rounded-lg text-left text-sm transition-colors ${
+      isCurrent ? 'bg-blue-100 ring-2 ring-blue-400 text-gray-800' : 'hover:bg-gray-100'
+    } ${isApplied ? 'text-gray-800' : 'text-gray-400'}`}
+    style={{ paddingLeft: `${depth * 16 + 8}px` }}
+  >
+    <span className="truncate flex-grow">{node.label}</span>
+    {node.snapshotName && (
+      <span className="flex-shrink-0 max-w-[40%] truncate text-xs bg-amber-100 text-amber-800 rounded-full px-2">{node.snapshotName}</span>
+    )}
+    <span className="flex-shrink-0 text-xs text-gray-400">{formatTime(node.createdAt)}</span>
+  </button>
+);
+
+/**
+ * Lists the history oldest first. The line redo follows is shown flat; other
+ * branches hang off the step they split from and can be expanded.
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJumpTo, onNameSnapshot, onShowLayers, height }) => {
+  const [expandedBranches, setExpandedBranches] = useState<Set<string>>(new Set());
+  const [snapshotName, setSnapshotName] = useState<string | null>(null);
+
+  const appliedIds = useMemo(() => new Set(getHistoryPath(history, history.currentId)), [history]);
+  const snapshots = useMemo(
+    () => Object.values(history.nodes).filter(n => n.snapshotName).sort((a, b) => a.createdAt - b.createdAt),
+    [history]
+  );
+
+  const toggleBranch = (id: string) => {
+    setExpandedBranches(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handlePinSnapshot = () => {
+    if (snapshotName?.trim()) {
+      onNameSnapshot(history.currentId, snapshotName);
+    }
+    setSnapshotName(null);
+  };
+
+  const renderLine = (startId: string, depth: number): React.ReactNode[] => {
+    const rows: React.ReactNode[] = [];
+    for (let node: HistoryNode | undefined = history.nodes[startId]; node; node = getRedoChild(history, node.id)) {
+      rows.push(
+        <HistoryRow
+          key={node.id}
+          node={node}
+          isCurrent={node.id === history.currentId}
+          isApplied={appliedIds.has(node.id)}
+          depth={depth}
+          onJumpTo={onJumpTo}
+        />
+      );
+      const activeChild = getRedoChild(history, node.id);
+      node.childIds.filter(id => id !== activeChild?.id).forEach(branchId => {
+        const isExpanded = expandedBranches.has(branchId);
+        const steps = countSteps(history, branchId);
+        rows.push(
+          <button
+            key={`branch-${branchId}`}
+            onClick={() => toggleBranch(branchId)}
+            className="flex items-center gap-1 py-1 text-xs text-gray-500 hover:text-blue-500"
+            style={{ paddingLeft: `${(depth + 1) * 16}px` }}
+          >
+            {isExpanded ? ICONS.chevron_down : ICONS.chevron_right}
+            Branch ({steps} {steps === 1 ? 'step' : 'steps'})
+          </button>
+        );
+        if (isExpanded) {
+          rows.push(...renderLine(branchId, depth + 1));
+        }
+      });
+    }
+    return rows;
+  };
+
+  return (
+    <div style={{ height: `${height}px` }} className="flex flex-col bg-white flex-shrink-0">
+      <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-gray-800">History</h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setSnapshotName(snapshotName === null ? '' : null)}
+            className="p-2 text-gray-600 hover:text-blue-500"
+            aria-label="Pin a snapshot of the current step"
+            title="Pin snapshot"
+          >
+            {ICONS.pin}
+          </button>
+          <button
+            onClick={onShowLayers}
+            className="p-2 text-gray-600 hover:text-blue-500"
+            aria-label="Show layers"
+            title="Show layers"
+          >
+            {ICONS.layers}
+          </button>
+        </div>
+      </div>
+      {snapshotName !== null && (
+        <form
+          onSubmit={e => { e.preventDefault(); handlePinSnapshot(); }}
+          className="p-2 border-b border-gray-200 flex gap-2"
+        >
+          <input
+            autoFocus
+            type="text"
+            value={snapshotName}
+            onChange={e => setSnapshotName(e.target.value)}
+            onKeyDown={e => e.key === 'Escape' && setSnapshotName(null)}
+            placeholder="Snapshot name, e.g. before client feedback"
+            className="flex-grow px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!snapshotName.trim()}
+            className="px-3 py-1 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300"
+          >
+            Pin
+          </button>
+        </form>
+      )}
+      {snapshots.length > 0 && (
+        <div className="p-2 border-b border-gray-200">
+          <h3 className="text-xs font-medium text-gray-500 px-2 mb-1">Snapshots</h3>
+          <ul>
+            {snapshots.map(node => (
+              <li key={node.id} className="flex items-center gap-1">
+                <button
+                  onClick={() => onJumpTo(node.id)}
+                  className={`flex-grow truncate text-left text-sm px-2 py-1 rounded-lg hover:bg-gray-100 ${
+                    node.id === history.currentId ? 'text-blue-600 font-medium' : 'text-gray-700'
+                  }`}
+                  title={node.label}
+                >
+                  {node.snapshotName}
+                </button>
+                <button
+                  onClick={() => onNameSnapshot(node.id, null)}
+                  className="px-2 text-gray-400 hover:text-red-500"
+                  aria-label={`Remove snapshot ${node.snapshotName}`}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="flex-grow overflow-y-auto p-2">
+        {renderLine(history.rootId, 0)}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,148 @@
+import React from 'react';
+import type { AdjustmentType, CanvasImageElement, ImageAdjustment, LevelsSettings } from '../types';
+import { ADJUSTMENTS, ICONS } from '../constants';
+import { DEFAULT_LEVELS } from '../utils/adjustments';
+
+interface ImageToolbarProps {
+  selectedElement: CanvasImageElement;
+  onChangeAdjustments: (adjustments: ImageAdjustment[]) => void;
+  isCropping: boolean;
+  onToggleCrop: () => void;
+  onResetCrop: () => void;
+}
+
+const LevelsInputs: React.FC<{ levels: LevelsSettings; onChange: (levels: LevelsSettings) => void }> = ({ levels, onChange }) => {
+  const fields: { key: keyof LevelsSettings; label: string; min: number; max: number; step: number }[] = [
+    { key: 'black', label: 'Black', min: 0, max: levels.white - 1, step: 1 },
+    { key: 'gamma', label: 'Gamma', min: 0.1, max: 10, step: 0.1 },
+    { key: 'white', label: 'White', min: levels.black + 1, max: 255, step: 1 },
+  ];
+  return (
+    <>
+      {fields.map(field => (
+        <label key={field.key} className="flex items-center gap-1 text-xs text-gray-500">
+          {field.label}
+          <input
+            type="number"
+            value={levels[field.key]}
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            onChange={e => {
+              const value = parseFloat(e.target.value);
+              if (!isNaN(value)) onChange({ ...levels, [field.key]: Math.min(field.max, Math.max(field.min, value)) });
+            }}
+            className="w-14 p-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-400 focus:outline-none"
+          />
+        </label>
+      ))}
+    </>
+  );
+};
+
+/**
+ * Crops an image and edits its adjustment stack. Adjustments apply in the
+ * order they were added.
+ */
+const ImageToolbar: React.FC<ImageToolbarProps> = ({ selectedElement, onChangeAdjustments: onChange, isCropping, onToggleCrop, onResetCrop }) => {
+  const adjustments = selectedElement.adjustments ?? [];
+  const available = ADJUSTMENTS.filter(def => !adjustments.some(a => a.type === def.type));
+
+  const update = (id: string, props: Partial<ImageAdjustment>) =>
+    onChange(adjustments.map(a => (a.id === id ? { ...a, ...props } : a)));
+
+  const add = (type: AdjustmentType) => {
+    const def = ADJUSTMENTS.find(d => d.type === type);
+    if (!def) return;
+    onChange([
+      ...adjustments,
+      {
+        id: `adjustment-${Date.now()}`,
+        type,
+        enabled: true,
+        amount: def.defaultAmount,
+        levels: type === 'levels' ? DEFAULT_LEVELS : undefined,
+      },
+    ]);
+  };
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm border-b border-gray-200 p-2 flex items-center flex-wrap gap-x-4 gap-y-2 z-10 flex-shrink-0">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onToggleCrop}
+          className={`flex items-center gap-1 px-3 py-1 text-sm rounded-lg transition-colors ${
+            isCropping ? 'bg-blue-500 text-white hover:bg-blue-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+          }`}
+          title={isCropping ? 'Finish cropping' : 'Move or resize the frame without scaling the image'}
+        >
+          {ICONS.crop}
+          {isCropping ? 'Done' : 'Crop'}
+        </button>
+        {selectedElement.crop && (
+          <button onClick={onResetCrop} className="px-2 py-1 text-sm text-gray-600 hover:text-blue-500">
+            Reset crop
+          </button>
+        )}
+      </div>
+      <div className="w-px h-6 bg-gray-300" />
+      <select
+        value=""
+        onChange={e => add(e.target.value as AdjustmentType)}
+        disabled={available.length === 0}
+        className="p-1 border border-gray-300 rounded-md text-sm bg-white focus:ring-2 focus:ring-blue-400 focus:outline-none disabled:text-gray-300"
+        aria-label="Add adjustment"
+      >
+        <option value="" disabled>Add adjustment…</option>
+        {available.map(def => (
+          <option key={def.type} value={def.type}>{def.label}</option>
+        ))}
+      </select>
+
+      {adjustments.map(adjustment => {
+        const def = ADJUSTMENTS.find(d => d.type === adjustment.type);
+        if (!def) return null;
+        return (
+          <div key={adjustment.id} className={`flex items-center gap-2 text-sm text-gray-600 ${adjustment.enabled ? '' : 'opacity-50'}`}>
+            <div className="w-px h-6 bg-gray-300" />
+            <input
+              type="checkbox"
+              checked={adjustment.enabled}
+              onChange={() => update(adjustment.id, { enabled: !adjustment.enabled })}
+              title={adjustment.enabled ? `Turn off ${def.label.toLowerCase()}` : `Turn on ${def.label.toLowerCase()}`}
+            />
+            <span>{def.label}</span>
+            {adjustment.type === 'levels' ? (
+              <LevelsInputs
+                levels={adjustment.levels ?? DEFAULT_LEVELS}
+                onChange={levels => update(adjustment.id, { levels })}
+              />
+            ) : (
+              <>
+                <input
+                  type="range"
+                  min={def.min}
+                  max={def.max}
+                  value={adjustment.amount}
+                  onChange={e => update(adjustment.id, { amount: parseInt(e.target.value, 10) })}
+                  className="w-24"
+                  aria-label={def.label}
+                />
+                <span className="w-8 text-right tabular-nums">{adjustment.amount}</span>
+              </>
+            )}
+            <button
+              onClick={() => onChange(adjustments.filter(a => a.id !== adjustment.id))}
+              className="px-1 text-gray-400 hover:text-red-500"
+              aria-label={`Remove ${def.label.toLowerCase()}`}
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ImageToolbar;
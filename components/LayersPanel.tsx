@@ -1,6 +1,7 @@
 import React, { useRef, useState, useMemo, useEffect, useCallback } from 'react';
-import type { Layer, CanvasImageElement, CanvasTextElement, CanvasGroup } from '../types';
-import { ICONS } from '../constants';
+import type { Layer, CanvasTextElement, CanvasGroup, CanvasArtboard, BlendMode, LayerCompositing } from '../types';
+import { BLEND_MODES, ICONS } from '../constants';
+import SceneThumbnail from './SceneThumbnail';
 
 interface LayersPanelProps {
   layers: Layer[];
@@ -9,9 +10,15 @@ interface LayersPanelProps {
   onSelectLayer: (id: string, isShift: boolean) => void;
   onReorderAndReparentLayers: (dragId: string, dropId: string, position: 'before' | 'after' | 'inside') => void;
   onRenameLayer: (id: string, newName: string) => void;
+  /** Groups and artboards whose children are hidden in the panel. */
+  collapsedIds: Set<string>;
   onToggleGroupExpanded: (id: string) => void;
+  onShowLineage: (id: string) => void;
   onGroupSelection: () => void;
   onUngroupSelection: () => void;
+  onShowHistory: () => void;
+  onUpdateCompositing: (ids: string[], props: LayerCompositing) => void;
+  onToggleClippingMask: (id: string) => void;
   height: number;
 }
 
@@ -21,15 +28,23 @@ type HierarchicalLayer = Layer & {
     depth: number;
 };
 
+// Groups and artboards both hold child layers and can be expanded in the panel.
+const isContainer = (layer: Layer): layer is CanvasGroup | CanvasArtboard =>
+    layer.type === 'group' || layer.type === 'artboard';
+
 const LayerItem: React.FC<{
     layer: HierarchicalLayer;
+    /** The layer as stored, which keeps its identity until it changes. */
+    sourceLayer: Layer;
     isSelected: boolean;
     isDropTarget: boolean;
+    isExpanded: boolean;
     onSelectLayer: (id: string, isShift: boolean) => void;
     onToggleVisibility: (id: string) => void;
     onToggleGroupExpanded: (id: string) => void;
     onRenameLayer: (id: string, newName: string) => void;
-}> = ({ layer, isSelected, isDropTarget, ...props }) => {
+    onShowLineage: (id: string) => void;
+}> = ({ layer, sourceLayer, isSelected, isDropTarget, isExpanded, ...props }) => {
     const [isEditing, setIsEditing] = useState(false);
     const [name, setName] = useState(layer.name);
     const inputRef = useRef<HTMLInputElement>(null);
@@ -53,20 +68,18 @@ const LayerItem: React.FC<{
         setIsEditing(false);
     };
 
-    const isGroup = layer.type === 'group';
-    const isText = layer.type === 'text';
+    const isGroup = isContainer(layer);
+    const hasLineage = layer.type === 'image' && (layer.provenance?.length ?? 0) > 0;
 
     const thumbnail = useMemo(() => {
-        if (isGroup) {
-            return <div className="text-gray-500">{ICONS.group}</div>;
+        if (sourceLayer.type === 'artboard') {
+            return <div className="text-gray-500">{ICONS.artboard}</div>;
         }
-        if (isText) {
-            return <div className="text-gray-500">{ICONS.text}</div>
+        if (sourceLayer.type === 'group') {
+            return <div className="text-gray-500">{ICONS.group}</div>;
         }
-        // It must be an image element
-        const imageLayer = layer as CanvasImageElement;
-        return <img src={imageLayer.src} className="w-full h-full object-cover" alt="layer thumbnail"/>
-    }, [layer]);
+        return <SceneThumbnail element={sourceLayer} className="w-full h-full object-contain" />;
+    }, [sourceLayer]);
 
 
     return (
@@ -83,9 +96,9 @@ const LayerItem: React.FC<{
                 <button
                     onClick={(e) => { e.stopPropagation(); props.onToggleGroupExpanded(layer.id); }}
                     className="p-0 text-gray-500 hover:text-blue-500 rounded-full"
-                    aria-label={(layer as CanvasGroup).expanded ? 'Collapse group' : 'Expand group'}
+                    aria-label={isExpanded ? 'Collapse group' : 'Expand group'}
                 >
-                    {(layer as CanvasGroup).expanded ? ICONS.chevron_down : ICONS.chevron_right}
+                    {isExpanded ? ICONS.chevron_down : ICONS.chevron_right}
                 </button>
             )}
             <div className="w-10 h-10 bg-gray-200 rounded-md flex-shrink-0 overflow-hidden flex items-center justify-center">
@@ -107,6 +120,19 @@ const LayerItem: React.FC<{
                     <span>{layer.name}</span>
                 )}
             </div>
+            {(layer.type === 'shape' || layer.type === 'group') && layer.clippingMask && (
+                <span className="text-blue-500 flex-shrink-0" title="Clipping mask">{ICONS.mask}</span>
+            )}
+            {hasLineage && (
+                <button
+                    onClick={(e) => { e.stopPropagation(); props.onShowLineage(layer.id); }}
+                    className="p-1 text-gray-500 hover:text-blue-500 rounded-full hover:bg-gray-200 transition-colors"
+                    aria-label="Show lineage"
+                    title="Show how this layer was made"
+                >
+                    {ICONS.lineage}
+                </button>
+            )}
             <button
                 onClick={(e) => { e.stopPropagation(); props.onToggleVisibility(layer.id); }}
                 className="p-1 text-gray-500 hover:text-blue-500 rounded-full hover:bg-gray-200 transition-colors"
@@ -123,15 +149,29 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
   selectedIds,
   onGroupSelection,
   onUngroupSelection,
+  onShowHistory,
   onReorderAndReparentLayers,
+  onUpdateCompositing,
+  onToggleClippingMask,
+  collapsedIds,
   height,
   ...rest
 }) => {
   const dragId = useRef<string | null>(null);
   const [dropIndicator, setDropIndicator] = useState<{ id: string; position: 'before' | 'after' | 'inside' } | null>(null);
 
-  const canGroup = selectedIds.length > 1;
+  const canGroup = selectedIds.length > 1 && !selectedIds.some(id => layers.find(l => l.id === id)?.type === 'artboard');
   const canUngroup = selectedIds.some(id => layers.find(l => l.id === id)?.type === 'group');
+  const maskCandidate = selectedIds.length === 1 ? layers.find(l => l.id === selectedIds[0]) : undefined;
+  const canMask = maskCandidate?.type === 'shape' || maskCandidate?.type === 'group';
+  const isMask = canMask && !!maskCandidate.clippingMask;
+
+  // Artboards are opaque frames, so compositing is only offered for other layers.
+  const compositingLayer = useMemo(() => {
+    const selected = layers.filter(l => selectedIds.includes(l.id));
+    if (selected.length === 0 || selected.some(l => l.type === 'artboard')) return null;
+    return selected[0] as Exclude<Layer, CanvasArtboard>;
+  }, [layers, selectedIds]);
 
   const getDescendantIds = useCallback((startLayerId: string): string[] => {
     const allDescendants: string[] = [];
@@ -139,7 +179,7 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
         const children = layers.filter(l => l.parentId === parentId);
         for (const child of children) {
             allDescendants.push(child.id);
-            if (child.type === 'group') {
+            if (isContainer(child)) {
                 findChildren(child.id);
             }
         }
@@ -148,8 +188,9 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
     return allDescendants;
   }, [layers]);
 
+  const layersById = useMemo(() => new Map(layers.map(l => [l.id, l])), [layers]);
+
   const hierarchicalLayers = useMemo((): HierarchicalLayer[] => {
-      const layersById = new Map(layers.map(l => [l.id, l]));
       const hierarchical: HierarchicalLayer[] = [];
       const processedIds = new Set<string>();
 
@@ -162,7 +203,7 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
           hierarchical.push({ ...layer, depth });
           processedIds.add(layer.id);
 
-          if (layer.type === 'group' && layer.expanded) {
+          if (isContainer(layer) && !collapsedIds.has(layer.id)) {
               layers.forEach(child => {
                   if (child.parentId === layer.id) {
                       addLayerAndChildren(child.id, depth + 1);
@@ -178,7 +219,7 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
       });
       
       return hierarchical.reverse();
-  }, [layers]);
+  }, [layers, layersById, collapsedIds]);
 
   const handleDragStart = (e: React.DragEvent<HTMLLIElement>, id: string) => {
     dragId.current = id;
@@ -204,7 +245,7 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
 
     let position: 'before' | 'after' | 'inside' = 'after';
     
-    if (dropTargetLayer.type === 'group') {
+    if (isContainer(dropTargetLayer)) {
         const threshold = rect.height * 0.25;
         if (dropY < threshold) {
             position = 'before';
@@ -221,6 +262,13 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
         }
     }
 
+    // Artboards stay at the top level.
+    const isArtboardDrag = layers.find(l => l.id === draggedId)?.type === 'artboard';
+    if (isArtboardDrag && (position === 'inside' || dropTargetLayer.parentId)) {
+        setDropIndicator(null);
+        return;
+    }
+
     if (position === 'inside' && getDescendantIds(draggedId).includes(dropTargetId)) {
         setDropIndicator(null);
         return;
@@ -270,8 +318,49 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
             >
                 {ICONS.ungroup}
             </button>
+            <button
+                onClick={() => maskCandidate && onToggleClippingMask(maskCandidate.id)}
+                disabled={!canMask}
+                className={`p-2 hover:text-blue-500 disabled:text-gray-300 disabled:cursor-not-allowed ${isMask ? 'text-blue-500' : 'text-gray-600'}`}
+                aria-label={isMask ? 'Release clipping mask' : 'Use as clipping mask'}
+                title={isMask ? 'Release clipping mask' : 'Use as clipping mask for the layers beneath it'}
+            >
+                {ICONS.mask}
+            </button>
+            <button 
+                onClick={onShowHistory}
+                className="p-2 text-gray-600 hover:text-blue-500"
+                aria-label="Show history"
+                title="Show history"
+            >
+                {ICONS.history}
+            </button>
         </div>
       </div>
+      {compositingLayer && (
+        <div className="px-4 py-2 border-b border-gray-200 flex items-center gap-3 text-sm text-gray-600">
+            <select
+                value={compositingLayer.blendMode ?? 'normal'}
+                onChange={e => onUpdateCompositing(selectedIds, { blendMode: e.target.value as BlendMode })}
+                className="flex-1 min-w-0 p-1 border border-gray-300 rounded-md bg-white focus:ring-2 focus:ring-blue-400 focus:outline-none"
+                aria-label="Blend mode"
+            >
+                {BLEND_MODES.map(mode => (
+                    <option key={mode.value} value={mode.value}>{mode.label}</option>
+                ))}
+            </select>
+            <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round((compositingLayer.opacity ?? 1) * 100)}
+                onChange={e => onUpdateCompositing(selectedIds, { opacity: parseInt(e.target.value, 10) / 100 })}
+                className="w-20"
+                aria-label="Opacity"
+            />
+            <span className="w-9 text-right tabular-nums">{Math.round((compositingLayer.opacity ?? 1) * 100)}%</span>
+        </div>
+      )}
       <div className="flex-grow overflow-y-auto p-2">
         <ul onDragEnd={handleDragEnd}>
           {[...hierarchicalLayers].reverse().map((layer) => (
@@ -289,8 +378,10 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
                 )}
                 <LayerItem 
                     layer={layer}
+                    sourceLayer={layersById.get(layer.id) ?? layer}
                     isSelected={selectedIds.includes(layer.id)}
                     isDropTarget={dropIndicator?.id === layer.id && dropIndicator.position === 'inside'}
+                    isExpanded={!collapsedIds.has(layer.id)}
                     {...rest}
                 />
                 {dropIndicator?.id === layer.id && dropIndicator.position === 'after' && (
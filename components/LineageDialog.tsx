@@ -0,0 +1,181 @@
+import React from 'react';
+import type { CanvasImageElement, GenerationOperation, Layer, ProvenanceStep } from '../types';
+
+interface LineageDialogProps {
+  layer: CanvasImageElement | null;
+  layers: Layer[];
+  onClose: () => void;
+  onJumpToLayer: (id: string) => void;
+  onRerunStep: (layerId: string, stepId: string) => void;
+  isAIAvailable: boolean;
+}
+
+const OPERATION_LABELS: Record<GenerationOperation, string> = {
+  'generate': 'Generated',
+  'remove-background': 'Removed background',
+  'inpaint': 'Generative fill',
+  'outpaint': 'Outpainted',
+};
+
+// Reference chains are short in practice; this only guards against very deep trees.
+const MAX_DEPTH = 6;
+
+const Thumbnail: React.FC<{ src: string; label: string }> = ({ src, label }) => (
+  <figure className="flex flex-col items-center gap-1">
+    <img src={src} alt={label} className="w-14 h-14 object-contain rounded-md border border-gray-200 bg-gray-100" />
+    <figcaption className="text-[10px] text-gray-500">{label}</figcaption>
+  </figure>
+);
+
+const StepCard: React.FC<{
+  step: ProvenanceStep;
+  layer: CanvasImageElement;
+  layersById: Map<string, Layer>;
+  canRerun: boolean;
+  onJumpToLayer: (id: string) => void;
+  onRerunStep: (layerId: string, stepId: string) => void;
+  renderReference: (layer: CanvasImageElement) => React.ReactNode;
+}> = ({ step, layer, layersById, canRerun, onJumpToLayer, onRerunStep, renderReference }) => {
+  const isEdit = step.operation !== 'generate';
+  const isMissingInput = isEdit && !step.inputSrc;
+
+  return (
+    <li className="border border-gray-200 rounded-xl p-3 bg-white">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm font-semibold text-gray-800">{OPERATION_LABELS[step.operation]}</p>
+          <p className="text-xs text-gray-500">
+            {new Date(step.timestamp).toLocaleString()} · {step.provider}{step.model ? ` (${step.model})` : ''}
+          </p>
+        </div>
+        <button
+          onClick={() => onRerunStep(layer.id, step.id)}
+          disabled={!canRerun || isMissingInput}
+          title={isMissingInput ? 'The input image of this step was not recorded.' : 'Run this step again as a new layer'}
+          className="px-3 py-1 text-xs font-medium bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed flex-shrink-0"
+        >
+          Re-run
+        </button>
+      </div>
+      {step.prompt && (
+        <p className="mt-2 text-sm text-gray-700 bg-gray-50 rounded-lg px-2 py-1 break-words">"{step.prompt}"</p>
+      )}
+      {step.options?.aspectRatio && (
+        <p className="mt-1 text-xs text-gray-500">Aspect ratio {step.options.aspectRatio}</p>
+      )}
+      {(step.inputSrc || step.maskSrc) && (
+        <div className="mt-2 flex gap-2">
+          {step.inputSrc && <Thumbnail src={step.inputSrc} label="Input" />}
+          {step.maskSrc && <Thumbnail src={step.maskSrc} label="Mask" />}
+        </div>
+      )}
+      {step.referenceIds.length > 0 && (
+        <div className="mt-2">
+          <p className="text-xs font-medium text-gray-500 mb-1">References</p>
+          <ul className="space-y-2">
+            {step.referenceIds.map((id, index) => {
+              const reference = layersById.get(id);
+              if (reference?.type !== 'image') {
+                return (
+                  <li key={id} className="text-xs text-gray-400 italic">
+                    {step.referenceNames[index] ?? 'Unknown layer'} (deleted)
+                  </li>
+                );
+              }
+              return (
+                <li key={id} className="pl-3 border-l-2 border-blue-200">
+                  <button
+                    onClick={() => onJumpToLayer(reference.id)}
+                    className="flex items-center gap-2 text-sm text-blue-600 hover:underline"
+                  >
+                    <img src={reference.src} alt="" className="w-8 h-8 object-cover rounded border border-gray-200" />
+                    {reference.name}
+                  </button>
+                  {renderReference(reference)}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </li>
+  );
+};
+
+/** Shows the AI steps that produced a layer and, recursively, its references. */
+const LineageDialog: React.FC<LineageDialogProps> = ({
+  layer,
+  layers,
+  onClose,
+  onJumpToLayer,
+  onRerunStep,
+  isAIAvailable,
+}) => {
+  if (!layer) return null;
+
+  const layersById = new Map(layers.map(l => [l.id, l]));
+
+  // `visited` holds the layers on the current path, so a layer that was used
+  // as a reference of its own ancestor doesn't recurse forever.
+  const renderSteps = (target: CanvasImageElement, depth: number, visited: Set<string>): React.ReactNode => {
+    const steps = target.provenance ?? [];
+    if (steps.length === 0 || depth > MAX_DEPTH) return null;
+    const nextVisited = new Set(visited).add(target.id);
+
+    return (
+      <ol className="mt-2 space-y-2">
+        {steps.map(step => (
+          <StepCard
+            key={step.id}
+            step={step}
+            layer={target}
+            layersById={layersById}
+            canRerun={isAIAvailable}
+            onJumpToLayer={onJumpToLayer}
+            onRerunStep={onRerunStep}
+            renderReference={reference => nextVisited.has(reference.id) ? null : renderSteps(reference, depth + 1, nextVisited)}
+          />
+        ))}
+      </ol>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white rounded-2xl shadow-xl p-6 m-4 w-full max-w-lg max-h-[85vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xl font-bold text-gray-800 truncate">Lineage of {layer.name}</h2>
+          <button
+            onClick={() => onJumpToLayer(layer.id)}
+            className="text-sm text-blue-600 hover:underline flex-shrink-0 ml-3"
+          >
+            Jump to layer
+          </button>
+        </div>
+        <div className="overflow-y-auto flex-grow -mx-1 px-1">
+          {layer.provenance?.length
+            ? renderSteps(layer, 0, new Set())
+            : <p className="text-gray-600">This layer was not made with AI.</p>}
+        </div>
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LineageDialog;
@@ -0,0 +1,99 @@
+import React, { useRef } from 'react';
+import type { CanvasImageElement, OutpaintExtension } from '../types';
+
+interface OutpaintFrameProps {
+  element: CanvasImageElement;
+  extension: OutpaintExtension;
+  onChange: (extension: OutpaintExtension) => void;
+  /** The viewport zoom, to turn mouse movement into canvas units. */
+  zoom: number;
+}
+
+type HandleDirection = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+const HANDLES: { direction: HandleDirection; style: React.CSSProperties; cursor: string }[] = [
+  { direction: 'n', style: { top: 0, left: '50%' }, cursor: 'ns-resize' },
+  { direction: 's', style: { top: '100%', left: '50%' }, cursor: 'ns-resize' },
+  { direction: 'e', style: { top: '50%', left: '100%' }, cursor: 'ew-resize' },
+  { direction: 'w', style: { top: '50%', left: 0 }, cursor: 'ew-resize' },
+  { direction: 'ne', style: { top: 0, left: '100%' }, cursor: 'nesw-resize' },
+  { direction: 'nw', style: { top: 0, left: 0 }, cursor: 'nwse-resize' },
+  { direction: 'se', style: { top: '100%', left: '100%' }, cursor: 'nwse-resize' },
+  { direction: 'sw', style: { top: '100%', left: 0 }, cursor: 'nesw-resize' },
+];
+
+const OutpaintFrame: React.FC<OutpaintFrameProps> = ({ element, extension, onChange, zoom }) => {
+  const dragRef = useRef<{ direction: HandleDirection; startX: number; startY: number; start: OutpaintExtension } | null>(null);
+
+  const handleMouseDown = (e: React.MouseEvent, direction: HandleDirection) => {
+    e.preventDefault();
+    e.stopPropagation();
+    dragRef.current = { direction, startX: e.clientX, startY: e.clientY, start: extension };
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      // Project the screen-space delta onto the element's own (rotated) axes so
+      // that edges follow the mouse even when the image is rotated.
+      const angle = (-element.rotation * Math.PI) / 180;
+      const dx = (moveEvent.clientX - drag.startX) / zoom;
+      const dy = (moveEvent.clientY - drag.startY) / zoom;
+      const localDx = dx * Math.cos(angle) - dy * Math.sin(angle);
+      const localDy = dx * Math.sin(angle) + dy * Math.cos(angle);
+
+      const next = { ...drag.start };
+      if (drag.direction.includes('n')) next.top = drag.start.top - localDy;
+      if (drag.direction.includes('s')) next.bottom = drag.start.bottom + localDy;
+      if (drag.direction.includes('w')) next.left = drag.start.left - localDx;
+      if (drag.direction.includes('e')) next.right = drag.start.right + localDx;
+
+      onChange({
+        top: Math.max(0, Math.round(next.top)),
+        right: Math.max(0, Math.round(next.right)),
+        bottom: Math.max(0, Math.round(next.bottom)),
+        left: Math.max(0, Math.round(next.left)),
+      });
+    };
+
+    const handleMouseUp = () => {
+      dragRef.current = null;
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  return (
+    <div
+      className="absolute border-2 border-dashed border-blue-500 bg-blue-400/10 pointer-events-none"
+      style={{
+        left: `${element.x - extension.left}px`,
+        top: `${element.y - extension.top}px`,
+        width: `${element.width + extension.left + extension.right}px`,
+        height: `${element.height + extension.top + extension.bottom}px`,
+        transform: `rotate(${element.rotation}deg)`,
+        // Rotate around the image's center, just like the image itself.
+        transformOrigin: `${extension.left + element.width / 2}px ${extension.top + element.height / 2}px`,
+        zIndex: 40,
+      }}
+    >
+      <div
+        className="absolute border border-white/80"
+        style={{ left: extension.left, top: extension.top, width: element.width, height: element.height }}
+      />
+      {HANDLES.map(({ direction, style, cursor }) => (
+        <div
+          key={direction}
+          onMouseDown={(e) => handleMouseDown(e, direction)}
+          className="absolute w-3 h-3 -ml-1.5 -mt-1.5 bg-white border-2 border-blue-500 rounded-sm pointer-events-auto"
+          // Keep the handles the same size on screen at any zoom.
+          style={{ ...style, cursor, transform: `scale(${1 / zoom})` }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default OutpaintFrame;
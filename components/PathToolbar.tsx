@@ -0,0 +1,40 @@
+import React from 'react';
+import type { BrushSettings, CanvasPathElement } from '../types';
+import { ICONS } from '../constants';
+import BrushControls from './BrushControls';
+
+interface PathToolbarProps {
+  selectedElement: CanvasPathElement;
+  onUpdateStyle: (settings: Partial<BrushSettings>) => void;
+  onEditStrokes: () => void;
+}
+
+/** Restyles every drawn stroke of a path layer at once. Eraser strokes keep their shape. */
+const PathToolbar: React.FC<PathToolbarProps> = ({ selectedElement, onUpdateStyle, onEditStrokes }) => {
+  const firstStroke = selectedElement.strokes.find(s => s.mode === 'draw');
+  if (!firstStroke) return null;
+  const scale = (selectedElement.width / selectedElement.viewBox.width + selectedElement.height / selectedElement.viewBox.height) / 2;
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm border-b border-gray-200 p-2 flex items-center flex-wrap gap-x-4 gap-y-2 z-10 flex-shrink-0">
+      <div className="flex items-center gap-3">
+        {/* Widths are shown as they appear on the canvas, after any resize. */}
+        <BrushControls
+          settings={{ ...firstStroke, width: firstStroke.width * scale }}
+          onChange={settings => onUpdateStyle(settings.width === undefined ? settings : { ...settings, width: settings.width / scale })}
+        />
+      </div>
+      <div className="w-px h-6 bg-gray-300" />
+      <button
+        onClick={onEditStrokes}
+        className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+        title="Draw or erase on this layer (or double-click it)"
+      >
+        {ICONS.draw}
+        Edit strokes
+      </button>
+    </div>
+  );
+};
+
+export default PathToolbar;
@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from 'react';
+import type { CanvasElement } from '../types';
+import { getRotatedBounds } from '../utils/geometry';
+import { renderScene } from '../utils/sceneRenderer';
+
+interface SceneThumbnailProps {
+  element: CanvasElement;
+  /** The longest side of the rendered image, in pixels. */
+  size?: number;
+  className?: string;
+}
+
+/**
+ * A layer drawn by the same renderer as exports, so the layers panel shows
+ * exactly what an export of the layer would. Its own opacity and blend mode
+ * are left out.
+ */
+const SceneThumbnail: React.FC<SceneThumbnailProps> = ({ element, size = 80, className }) => {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Debounced like AdjustedImage, so edits re-render once they settle.
+    const timer = setTimeout(() => {
+      const region = getRotatedBounds(element);
+      const scale = size / Math.max(region.width, region.height, 1);
+      renderScene({ layers: [{ ...element, opacity: undefined, blendMode: undefined }] }, region, scale, null)
+        .then(canvas => { if (!cancelled) setSrc(canvas.toDataURL('image/png')); })
+        .catch(error => console.error(`Could not render a thumbnail for ${element.name}:`, error));
+    }, 60);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [element, size]);
+
+  return src ? <img src={src} className={className} alt="layer thumbnail" /> : null;
+};
+
+export default SceneThumbnail;
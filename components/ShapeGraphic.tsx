@@ -0,0 +1,35 @@
+import React from 'react';
+import type { CanvasShapeElement } from '../types';
+import { getShapePaths } from '../utils/shapes';
+
+interface ShapeGraphicProps {
+  element: Omit<CanvasShapeElement, 'id' | 'name' | 'x' | 'y' | 'rotation' | 'visible' | 'parentId' | 'type'>;
+  className?: string;
+}
+
+/** Renders a shape as SVG in its own box. Mirrors `drawShape`, which is used for export. */
+const ShapeGraphic: React.FC<ShapeGraphicProps> = ({ element, className }) => {
+  const { outline, arrowheads, closed } = getShapePaths(element);
+  const { width, height } = element;
+
+  return (
+    <svg
+      viewBox={`0 0 ${Math.max(width, 1)} ${Math.max(height, 1)}`}
+      className={className}
+      width="100%"
+      height="100%"
+    >
+      <path
+        d={outline}
+        fill={closed ? element.fill : 'none'}
+        stroke={element.strokeWidth > 0 ? element.stroke : 'none'}
+        strokeWidth={element.strokeWidth}
+        strokeLinejoin="round"
+        strokeLinecap={closed ? 'butt' : 'round'}
+      />
+      {arrowheads && <path d={arrowheads} fill={element.stroke} />}
+    </svg>
+  );
+};
+
+export default ShapeGraphic;
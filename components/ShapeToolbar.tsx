@@ -0,0 +1,106 @@
+import React from 'react';
+import type { CanvasShapeElement, ShapeStyle } from '../types';
+import { DEFAULT_SHAPE_STYLE } from '../constants';
+
+interface ShapeToolbarProps {
+  selectedElement: CanvasShapeElement;
+  onUpdate: (props: Partial<ShapeStyle>) => void;
+}
+
+const ColorInput: React.FC<{ value: string; onChange: (color: string) => void; title: string; disabled?: boolean }> = ({ value, onChange, title, disabled }) => (
+  <div className={`relative w-7 h-7 rounded-md border border-gray-300 overflow-hidden ${disabled ? 'opacity-40' : ''}`}>
+    <input
+      type="color"
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className="absolute -top-1 -left-1 w-10 h-10 cursor-pointer"
+      title={title}
+    />
+  </div>
+);
+
+const NumberInput: React.FC<{ value: number; onChange: (value: number) => void; label: string; min: number; max?: number }> = ({ value, onChange, label, min, max }) => (
+  <div className="flex flex-col items-center">
+    <input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      onChange={e => {
+        const number = parseFloat(e.target.value);
+        if (!isNaN(number)) onChange(Math.max(min, max === undefined ? number : Math.min(max, number)));
+      }}
+      className="w-14 p-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-400 focus:outline-none"
+    />
+    <label className="text-xs text-gray-500 mt-0.5">{label}</label>
+  </div>
+);
+
+const ToggleButton: React.FC<{ label: string; isActive: boolean; onClick: () => void }> = ({ label, isActive, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`px-2 py-1 text-sm rounded-md transition-colors duration-200 ${
+      isActive ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+    }`}
+  >
+    {label}
+  </button>
+);
+
+const ShapeToolbar: React.FC<ShapeToolbarProps> = ({ selectedElement, onUpdate }) => {
+  const isLine = selectedElement.shape === 'line';
+  const hasFill = selectedElement.fill !== 'transparent';
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm border-b border-gray-200 p-2 flex items-center flex-wrap gap-x-4 gap-y-2 z-10 flex-shrink-0">
+      {!isLine && (
+        <>
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <span>Fill</span>
+            <ColorInput
+              value={hasFill ? selectedElement.fill : '#ffffff'}
+              onChange={fill => onUpdate({ fill })}
+              title="Fill color"
+              disabled={!hasFill}
+            />
+            <ToggleButton label="None" isActive={!hasFill} onClick={() => onUpdate({ fill: hasFill ? 'transparent' : DEFAULT_SHAPE_STYLE.fill })} />
+          </div>
+          <div className="w-px h-6 bg-gray-300" />
+        </>
+      )}
+
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <span>{isLine ? 'Line' : 'Stroke'}</span>
+        <ColorInput value={selectedElement.stroke} onChange={stroke => onUpdate({ stroke })} title="Stroke color" />
+        <NumberInput label="Width" value={selectedElement.strokeWidth} min={isLine ? 1 : 0} max={100} onChange={strokeWidth => onUpdate({ strokeWidth })} />
+      </div>
+
+      {selectedElement.shape === 'rectangle' && (
+        <>
+          <div className="w-px h-6 bg-gray-300" />
+          <NumberInput label="Corner" value={selectedElement.cornerRadius} min={0} onChange={cornerRadius => onUpdate({ cornerRadius })} />
+        </>
+      )}
+
+      {selectedElement.shape === 'polygon' && (
+        <>
+          <div className="w-px h-6 bg-gray-300" />
+          <NumberInput label="Sides" value={selectedElement.sides} min={3} max={24} onChange={sides => onUpdate({ sides: Math.round(sides) })} />
+        </>
+      )}
+
+      {isLine && (
+        <>
+          <div className="w-px h-6 bg-gray-300" />
+          <div className="flex items-center gap-1 text-sm text-gray-600">
+            <span className="mr-1">Arrowheads</span>
+            <ToggleButton label="Start" isActive={selectedElement.arrowStart} onClick={() => onUpdate({ arrowStart: !selectedElement.arrowStart })} />
+            <ToggleButton label="End" isActive={selectedElement.arrowEnd} onClick={() => onUpdate({ arrowEnd: !selectedElement.arrowEnd })} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ShapeToolbar;
@@ -1,12 +1,48 @@
-import React from 'react';
-import type { CanvasTextElement } from '../types';
+import React, { useRef } from 'react';
+import type { CanvasPathElement, CanvasTextElement, CustomFont, TextRunStyle, TextSizing, TextTransform, TextWarpStyle } from '../types';
 import { ICONS } from '../constants';
+import { applyRunStyle, clearRunStyles, getRunStyleAt, resolveTextStyle } from '../utils/textRuns';
+import { getCustomFontFamily, SYSTEM_FONTS } from '../utils/fonts';
+import { DEFAULT_LINE_HEIGHT } from '../utils/textLayout';
+import { getDrawnTextPath } from '../utils/textEffects';
 
 interface TextToolbarProps {
   selectedElement: CanvasTextElement;
   onUpdate: (props: Partial<CanvasTextElement>) => void;
+  /** Characters selected while editing. Character styles apply to just these when set. */
+  selectionRange: { start: number; end: number } | null;
+  onClearSelectionRange: () => void;
+  fonts: CustomFont[];
+  /** Resolves to the added font, or null if the file couldn't be used. */
+  onUploadFont: (file: File) => Promise<CustomFont | null>;
+  /** Drawn paths the text can be set along. */
+  paths: CanvasPathElement[];
 }
 
+const TEXT_TRANSFORMS: { value: TextTransform; label: string }[] = [
+  { value: 'none', label: 'Aa' },
+  { value: 'uppercase', label: 'AA' },
+  { value: 'lowercase', label: 'aa' },
+  { value: 'capitalize', label: 'Aa Aa' },
+];
+
+const TEXT_SIZINGS: { value: TextSizing; label: string; title: string }[] = [
+  { value: 'auto-width', label: 'Auto W', title: 'Auto width: the box fits the text' },
+  { value: 'auto-height', label: 'Auto H', title: 'Auto height: the text wraps to the width' },
+  { value: 'fixed', label: 'Fixed', title: 'Fixed size: text can overflow the box' },
+];
+
+const TEXT_WARPS: { value: TextWarpStyle; label: string }[] = [
+  { value: 'arc', label: 'Arc' },
+  { value: 'wave', label: 'Wave' },
+  { value: 'bulge', label: 'Bulge' },
+];
+
+const UPLOAD_FONT_OPTION = '__upload__';
+// Values of the shape menu, besides `layer:<id>` for each drawn path.
+const STRAIGHT_OPTION = 'straight';
+const DEFAULT_CURVE = 50;
+
 const StyleButton: React.FC<{
     // FIX: Made the `icon` prop optional to allow buttons with text children.
     icon?: JSX.Element;
@@ -54,35 +90,143 @@ const NumberInput: React.FC<{ value: number; onChange: (value: number) => void;
 );
 
 
-const TextToolbar: React.FC<TextToolbarProps> = ({ selectedElement, onUpdate }) => {
+const TextToolbar: React.FC<TextToolbarProps> = ({ selectedElement, onUpdate, selectionRange, onClearSelectionRange, fonts, onUploadFont, paths }) => {
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const range = selectionRange && selectionRange.start < selectionRange.end ? selectionRange : null;
+  // The controls show the style of the selection's first character.
+  const style = resolveTextStyle(selectedElement, range ? getRunStyleAt(selectedElement, range.start) : {});
+
+  // Character styles go on the selected run, or on the whole element,
+  // replacing whatever its runs set.
+  const updateStyle = (props: TextRunStyle) => {
+    if (range) {
+      onUpdate({ runs: applyRunStyle(selectedElement, range.start, range.end, props) });
+    } else {
+      onUpdate({ ...props, runs: clearRunStyles(selectedElement.runs, Object.keys(props)) });
+    }
+  };
+
   const handleFontSizeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newSize = parseInt(e.target.value, 10);
     if (!isNaN(newSize) && newSize > 0) {
-      onUpdate({ fontSize: newSize, height: newSize * 1.2 });
+      updateStyle({ fontSize: newSize });
+    }
+  };
+
+  const handleFontFamilyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (e.target.value === UPLOAD_FONT_OPTION) {
+      fontInputRef.current?.click();
+      return;
     }
+    updateStyle({ fontFamily: e.target.value });
   };
 
+  const handleFontFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const font = await onUploadFont(file);
+    if (font) updateStyle({ fontFamily: getCustomFontFamily(font) });
+  };
+
+  const { textPath, warp } = selectedElement;
+  const shapeValue = textPath ? `path:${textPath.shape}` : warp ? `warp:${warp.style}` : STRAIGHT_OPTION;
+
+  // A path or a warp replaces the other. Following a path fixes the box,
+  // which then holds the path rather than fitting the text.
+  const handleShapeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const option = e.target.value;
+    const [kind, value] = option.split(/:(.*)/);
+    const bend = textPath?.bend || warp?.intensity || DEFAULT_CURVE;
+    const { x, y, width, height } = selectedElement;
+    if (kind === 'warp') {
+      onUpdate({ textPath: undefined, warp: { style: value as TextWarpStyle, intensity: bend } });
+    } else if (option === 'path:arc') {
+      onUpdate({ warp: undefined, textPath: { shape: 'arc', bend }, sizing: 'fixed' });
+    } else if (option === 'path:circle') {
+      // Square, around the same middle.
+      const side = Math.max(width, height);
+      onUpdate({ warp: undefined, textPath: { shape: 'circle', bend }, sizing: 'fixed', x: x + (width - side) / 2, y: y + (height - side) / 2, width: side, height: side });
+    } else if (kind === 'layer') {
+      const layer = paths.find(path => path.id === value);
+      const drawn = layer && getDrawnTextPath(layer, selectedElement.fontSize);
+      if (drawn) onUpdate({ ...drawn, warp: undefined, sizing: 'fixed' });
+    } else if (option === STRAIGHT_OPTION) {
+      onUpdate({ textPath: undefined, warp: undefined });
+    }
+  };
+
+  const curveAmount = textPath?.shape === 'arc' ? textPath.bend : warp?.intensity;
+  const handleCurveAmountChange = (amount: number) => {
+    if (textPath) {
+      onUpdate({ textPath: { ...textPath, bend: amount } });
+    } else if (warp) {
+      onUpdate({ warp: { ...warp, intensity: amount } });
+    }
+  };
+
+  const fontOptions = [...SYSTEM_FONTS, ...fonts.map(font => ({ label: font.family, value: getCustomFontFamily(font) }))];
+
   return (
     <div className="bg-white/90 backdrop-blur-sm border-b border-gray-200 p-2 flex items-center flex-wrap gap-x-4 gap-y-2 z-10 flex-shrink-0">
+      {range && (
+        <div className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-blue-50 text-blue-700 rounded-full text-xs">
+          <span>Styling {range.end - range.start} selected {range.end - range.start === 1 ? 'character' : 'characters'}</span>
+          <button onClick={onClearSelectionRange} className="px-1 rounded-full hover:bg-blue-100" aria-label="Style the whole text instead">×</button>
+        </div>
+      )}
+
+      {/* FONT */}
+      <div className="flex items-center gap-2">
+        <select
+          value={style.fontFamily}
+          onChange={handleFontFamilyChange}
+          className="w-36 p-1 border border-gray-300 rounded-md text-sm bg-white focus:ring-2 focus:ring-blue-400 focus:outline-none h-8"
+          aria-label="Font"
+        >
+          {!fontOptions.some(option => option.value === style.fontFamily) && (
+            <option value={style.fontFamily}>{style.fontFamily.split(',')[0].replace(/"/g, '')}</option>
+          )}
+          <optgroup label="System fonts">
+            {SYSTEM_FONTS.map(font => <option key={font.value} value={font.value}>{font.label}</option>)}
+          </optgroup>
+          {fonts.length > 0 && (
+            <optgroup label="Uploaded fonts">
+              {fonts.map(font => <option key={font.family} value={getCustomFontFamily(font)}>{font.family}</option>)}
+            </optgroup>
+          )}
+          <option value={UPLOAD_FONT_OPTION}>Upload font…</option>
+        </select>
+        <input
+          type="file"
+          ref={fontInputRef}
+          onChange={handleFontFileChange}
+          className="hidden"
+          accept=".ttf,.otf,.woff,.woff2,font/ttf,font/otf,font/woff,font/woff2"
+        />
+      </div>
+
+      <div className="h-6 w-px bg-gray-300" />
+
       {/* STYLE */}
       <div className="flex items-center gap-1">
         <StyleButton
           icon={ICONS.bold}
           label="Bold"
-          isActive={selectedElement.fontWeight === 'bold'}
-          onClick={() => onUpdate({ fontWeight: selectedElement.fontWeight === 'bold' ? 'normal' : 'bold' })}
+          isActive={style.fontWeight === 'bold'}
+          onClick={() => updateStyle({ fontWeight: style.fontWeight === 'bold' ? 'normal' : 'bold' })}
         />
         <StyleButton
           icon={ICONS.italic}
           label="Italic"
-          isActive={selectedElement.fontStyle === 'italic'}
-          onClick={() => onUpdate({ fontStyle: selectedElement.fontStyle === 'italic' ? 'normal' : 'italic' })}
+          isActive={style.fontStyle === 'italic'}
+          onClick={() => updateStyle({ fontStyle: style.fontStyle === 'italic' ? 'normal' : 'italic' })}
         />
         <StyleButton
           icon={ICONS.underline}
           label="Underline"
-          isActive={selectedElement.textDecoration === 'underline'}
-          onClick={() => onUpdate({ textDecoration: selectedElement.textDecoration === 'underline' ? 'none' : 'underline' })}
+          isActive={style.textDecoration === 'underline'}
+          onClick={() => updateStyle({ textDecoration: style.textDecoration === 'underline' ? 'none' : 'underline' })}
         />
       </div>
 
@@ -112,13 +256,30 @@ const TextToolbar: React.FC<TextToolbarProps> = ({ selectedElement, onUpdate })
       
       <div className="h-6 w-px bg-gray-300" />
       
+      {/* BOX SIZING */}
+      <div className="flex items-center gap-1">
+        {TEXT_SIZINGS.map(option => (
+          <StyleButton
+            key={option.value}
+            label={option.title}
+            isActive={(selectedElement.sizing ?? 'fixed') === option.value}
+            onClick={() => onUpdate({ sizing: option.value })}
+            className="text-xs px-2 h-8"
+          >
+            {option.label}
+          </StyleButton>
+        ))}
+      </div>
+
+      <div className="h-6 w-px bg-gray-300" />
+
       {/* SIZE */}
       <div className="flex items-center gap-2">
         <label htmlFor="font-size" className="text-sm text-gray-600">Size:</label>
         <input
           id="font-size"
           type="number"
-          value={Math.round(selectedElement.fontSize)}
+          value={Math.round(style.fontSize)}
           onChange={handleFontSizeChange}
           className="w-16 p-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-400 focus:outline-none"
         />
@@ -126,13 +287,80 @@ const TextToolbar: React.FC<TextToolbarProps> = ({ selectedElement, onUpdate })
 
       <div className="h-6 w-px bg-gray-300" />
 
+      {/* SPACING */}
+      <div className="flex items-end gap-2">
+        <NumberInput
+          value={selectedElement.lineHeight ?? DEFAULT_LINE_HEIGHT}
+          onChange={lineHeight => onUpdate({ lineHeight: Math.max(0.5, lineHeight) })}
+          label="Line"
+          min={0.5}
+          step={0.1}
+        />
+        <NumberInput
+          value={selectedElement.letterSpacing ?? 0}
+          onChange={letterSpacing => onUpdate({ letterSpacing })}
+          label="Spacing"
+          step={0.5}
+        />
+        <div className="flex flex-col items-center">
+          <select
+            value={selectedElement.textTransform ?? 'none'}
+            onChange={e => onUpdate({ textTransform: e.target.value as TextTransform })}
+            className="p-1 border border-gray-300 rounded-md text-sm bg-white focus:ring-2 focus:ring-blue-400 focus:outline-none"
+            aria-label="Letter case"
+          >
+            {TEXT_TRANSFORMS.map(transform => <option key={transform.value} value={transform.value}>{transform.label}</option>)}
+          </select>
+          <label className="text-xs text-gray-500 mt-0.5">Case</label>
+        </div>
+      </div>
+
+      <div className="h-6 w-px bg-gray-300" />
+
+      {/* PATH & WARP */}
+      <div className="flex items-center gap-2">
+        <select
+          value={shapeValue}
+          onChange={handleShapeChange}
+          className="p-1 border border-gray-300 rounded-md text-sm bg-white focus:ring-2 focus:ring-blue-400 focus:outline-none h-8"
+          aria-label="Text shape"
+        >
+          <option value={STRAIGHT_OPTION}>Straight</option>
+          <optgroup label="Along a path">
+            <option value="path:arc">Arc</option>
+            <option value="path:circle">Circle</option>
+            {textPath?.shape === 'custom' && <option value="path:custom">Drawn path</option>}
+            {paths.map(path => <option key={path.id} value={`layer:${path.id}`}>{path.name}</option>)}
+          </optgroup>
+          <optgroup label="Warp">
+            {TEXT_WARPS.map(option => <option key={option.value} value={`warp:${option.value}`}>{option.label}</option>)}
+          </optgroup>
+        </select>
+        {curveAmount !== undefined && (
+          <>
+            <input
+              type="range"
+              min={-100}
+              max={100}
+              value={curveAmount}
+              onChange={e => handleCurveAmountChange(parseInt(e.target.value, 10))}
+              className="w-24"
+              aria-label={textPath ? 'Bend' : 'Intensity'}
+            />
+            <span className="w-8 text-right text-xs text-gray-600 tabular-nums">{curveAmount}</span>
+          </>
+        )}
+      </div>
+
+      <div className="h-6 w-px bg-gray-300" />
+
       {/* FILL */}
       <div className="flex items-center gap-2">
         <label className="text-sm text-gray-600">Fill:</label>
         <StyleButton label="Solid" isActive={selectedElement.fillType === 'solid'} onClick={() => onUpdate({ fillType: 'solid' })} className="text-xs px-2 h-8">Solid</StyleButton>
         <StyleButton label="Gradient" isActive={selectedElement.fillType === 'gradient'} onClick={() => onUpdate({ fillType: 'gradient' })} icon={ICONS.gradient}/>
         {selectedElement.fillType === 'solid' ? (
-          <ColorInput value={selectedElement.color} onChange={color => onUpdate({ color })} title="Text color" />
+          <ColorInput value={style.color} onChange={color => updateStyle({ color })} title="Text color" />
         ) : (
           <div className="flex items-center gap-2 ml-2 p-2 bg-gray-100 rounded-lg">
             <ColorInput value={selectedElement.gradientColors[0]} onChange={color => onUpdate({ gradientColors: [color, selectedElement.gradientColors[1]] })} title="Gradient start color" />
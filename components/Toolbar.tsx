@@ -1,23 +1,40 @@
 import React from 'react';
 import { Tool } from '../types';
-import { ICONS } from '../constants';
+import type { ArtboardPreset, BrushSettings, MaskMode, ShapePreset, StrokeMode } from '../types';
+import { ARTBOARD_PRESETS, ICONS, SHAPE_PRESETS } from '../constants';
+import { PROJECT_FILE_EXTENSION } from '../services/projectService';
+import BrushControls from './BrushControls';
 
 interface ToolbarProps {
   activeTool: Tool;
   setActiveTool: (tool: Tool) => void;
   onAddImage: (file: File) => void;
+  onAddArtboard: (preset: ArtboardPreset) => void;
   onDeleteSelected: () => void;
   onFinalizeDrawing: () => void;
   onUndo: () => void;
   onRedo: () => void;
   canUndo: boolean;
   canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
   onRemoveBackground: () => void;
   isSingleImageSelected: boolean;
-  onSaveImage: () => void;
-  drawingColor: string;
-  onDrawingColorChange: (color: string) => void;
+  isAIAvailable: boolean;
+  onExport: () => void;
+  onSaveProject: () => void;
+  onOpenProject: (file: File) => void;
+  brush: BrushSettings;
+  onBrushChange: (settings: Partial<BrushSettings>) => void;
+  strokeMode: StrokeMode;
+  onStrokeModeChange: (mode: StrokeMode) => void;
+  shapePreset: ShapePreset;
+  onShapePresetChange: (preset: ShapePreset) => void;
   hasSelection: boolean;
+  maskMode: MaskMode;
+  onMaskModeChange: (mode: MaskMode) => void;
+  maskBrushSize: number;
+  onMaskBrushSizeChange: (size: number) => void;
 }
 
 const ToolButton: React.FC<{
@@ -43,20 +60,36 @@ const Toolbar: React.FC<ToolbarProps> = ({
     activeTool, 
     setActiveTool, 
     onAddImage, 
+    onAddArtboard,
     onDeleteSelected, 
     onFinalizeDrawing, 
     onUndo, 
     onRedo, 
     canUndo, 
     canRedo,
+    undoLabel,
+    redoLabel,
     onRemoveBackground,
     isSingleImageSelected,
-    onSaveImage,
-    drawingColor,
-    onDrawingColorChange,
+    isAIAvailable,
+    onExport,
+    onSaveProject,
+    onOpenProject,
+    brush,
+    onBrushChange,
+    strokeMode,
+    onStrokeModeChange,
+    shapePreset,
+    onShapePresetChange,
     hasSelection,
+    maskMode,
+    onMaskModeChange,
+    maskBrushSize,
+    onMaskBrushSizeChange,
 }) => {
   const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const projectInputRef = React.useRef<HTMLInputElement>(null);
+  const [isArtboardMenuOpen, setIsArtboardMenuOpen] = React.useState(false);
 
   const handleAddImageClick = () => {
     fileInputRef.current?.click();
@@ -69,6 +102,14 @@ const Toolbar: React.FC<ToolbarProps> = ({
     }
     event.target.value = ''; // Reset for same file selection
   };
+
+  const handleProjectFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onOpenProject(file);
+    }
+    event.target.value = '';
+  };
   
   return (
     <div className="absolute top-1/2 left-4 -translate-y-1/2 bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl p-2 flex flex-col gap-2 z-20 border border-gray-200">
@@ -93,14 +134,19 @@ const Toolbar: React.FC<ToolbarProps> = ({
                     isActive={false}
                     onClick={onFinalizeDrawing}
                 />
-                 <div className="relative w-8 h-8 rounded-md border border-gray-300 overflow-hidden" title="Pen Color">
-                    <input
-                        type="color"
-                        value={drawingColor}
-                        onChange={(e) => onDrawingColorChange(e.target.value)}
-                        className="absolute -top-1 -left-1 w-10 h-10 cursor-pointer"
-                    />
-                </div>
+                <ToolButton
+                    icon={ICONS.draw}
+                    label="Pen"
+                    isActive={strokeMode === 'draw'}
+                    onClick={() => onStrokeModeChange('draw')}
+                />
+                <ToolButton
+                    icon={ICONS.eraser}
+                    label="Eraser"
+                    isActive={strokeMode === 'erase'}
+                    onClick={() => onStrokeModeChange('erase')}
+                />
+                <BrushControls settings={brush} onChange={onBrushChange} showColor={strokeMode === 'draw'} />
             </div>
         )}
       </div>
@@ -110,26 +156,124 @@ const Toolbar: React.FC<ToolbarProps> = ({
         isActive={activeTool === Tool.Text}
         onClick={() => setActiveTool(Tool.Text)}
       />
+      <div className="relative">
+        <ToolButton
+            icon={ICONS.shapes}
+            label="Shape Tool"
+            isActive={activeTool === Tool.Shape}
+            onClick={() => setActiveTool(Tool.Shape)}
+        />
+        {activeTool === Tool.Shape && (
+            <div className="absolute left-full top-0 ml-2 p-2 bg-white/80 backdrop-blur-sm shadow-lg rounded-xl border border-gray-200 flex items-center gap-2">
+                {SHAPE_PRESETS.map(preset => (
+                    <ToolButton
+                        key={preset.label}
+                        icon={ICONS[preset.icon]}
+                        label={preset.label}
+                        isActive={shapePreset === preset}
+                        onClick={() => onShapePresetChange(preset)}
+                    />
+                ))}
+            </div>
+        )}
+      </div>
+      <div className="relative">
+        <ToolButton
+            icon={ICONS.generative_fill}
+            label="Generative Fill Tool"
+            isActive={activeTool === Tool.GenerativeFill}
+            onClick={() => setActiveTool(Tool.GenerativeFill)}
+            disabled={!isAIAvailable || (!isSingleImageSelected && activeTool !== Tool.GenerativeFill)}
+        />
+        {activeTool === Tool.GenerativeFill && (
+            <div className="absolute left-full top-0 ml-2 p-2 bg-white/80 backdrop-blur-sm shadow-lg rounded-xl border border-gray-200 flex items-center gap-2">
+                <ToolButton
+                    icon={ICONS.brush}
+                    label="Brush Mask"
+                    isActive={maskMode === 'brush'}
+                    onClick={() => onMaskModeChange('brush')}
+                />
+                <ToolButton
+                    icon={ICONS.lasso}
+                    label="Lasso Mask"
+                    isActive={maskMode === 'lasso'}
+                    onClick={() => onMaskModeChange('lasso')}
+                />
+                {maskMode === 'brush' && (
+                    <input
+                        type="range"
+                        min={5}
+                        max={150}
+                        value={maskBrushSize}
+                        onChange={(e) => onMaskBrushSizeChange(parseInt(e.target.value, 10))}
+                        className="w-24"
+                        title="Brush Size"
+                    />
+                )}
+            </div>
+        )}
+      </div>
+      <ToolButton
+        icon={ICONS.outpaint}
+        label="Outpaint Tool"
+        isActive={activeTool === Tool.Outpaint}
+        onClick={() => setActiveTool(Tool.Outpaint)}
+        disabled={!isAIAvailable || (!isSingleImageSelected && activeTool !== Tool.Outpaint)}
+      />
 
       <hr className="my-1 border-gray-200"/>
+      <ToolButton
+        icon={ICONS.folder_open}
+        label="Open Project"
+        isActive={false}
+        onClick={() => projectInputRef.current?.click()}
+      />
+      <ToolButton
+        icon={ICONS.save}
+        label="Save Project"
+        isActive={false}
+        onClick={onSaveProject}
+      />
       <ToolButton
         icon={ICONS.add_image}
         label="Add Image"
         isActive={false}
         onClick={handleAddImageClick}
       />
+      <div className="relative">
+        <ToolButton
+            icon={ICONS.artboard}
+            label="Add Artboard"
+            isActive={isArtboardMenuOpen}
+            onClick={() => setIsArtboardMenuOpen(open => !open)}
+        />
+        {isArtboardMenuOpen && (
+            <div className="absolute left-full top-0 ml-2 p-1 bg-white/90 backdrop-blur-sm shadow-lg rounded-xl border border-gray-200 flex flex-col w-56">
+                {ARTBOARD_PRESETS.map(preset => (
+                    <button
+                        key={preset.label}
+                        onClick={() => { onAddArtboard(preset); setIsArtboardMenuOpen(false); }}
+                        className="flex justify-between gap-2 px-3 py-1.5 text-sm text-left text-gray-700 rounded-lg hover:bg-gray-100"
+                    >
+                        {preset.label}
+                        <span className="text-gray-400">{preset.width}×{preset.height}</span>
+                    </button>
+                ))}
+            </div>
+        )}
+      </div>
       <ToolButton
         icon={ICONS.download}
-        label="Save Image"
+        label="Export"
         isActive={false}
-        onClick={onSaveImage}
+        onClick={onExport}
       />
       <ToolButton
         icon={ICONS.remove_bg}
         label="Remove Background"
         isActive={false}
         onClick={onRemoveBackground}
-        disabled={!isSingleImageSelected}
+        disabled={!isAIAvailable || !isSingleImageSelected}
       />
       <ToolButton
         icon={ICONS.trash}
@@ -143,6 +287,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
         onClick={onUndo}
         disabled={!canUndo}
         aria-label="Undo"
+        title={undoLabel ? `Undo ${undoLabel}` : 'Undo'}
         className="p-3 rounded-xl transition-all duration-200 bg-white text-gray-600 hover:bg-gray-200 hover:text-blue-500 disabled:text-gray-300 disabled:hover:bg-white disabled:cursor-not-allowed"
       >
         {ICONS.undo}
@@ -151,6 +296,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
         onClick={onRedo}
         disabled={!canRedo}
         aria-label="Redo"
+        title={redoLabel ? `Redo ${redoLabel}` : 'Redo'}
         className="p-3 rounded-xl transition-all duration-200 bg-white text-gray-600 hover:bg-gray-200 hover:text-blue-500 disabled:text-gray-300 disabled:hover:bg-white disabled:cursor-not-allowed"
       >
         {ICONS.redo}
@@ -162,6 +308,13 @@ const Toolbar: React.FC<ToolbarProps> = ({
         className="hidden"
         accept="image/png, image/jpeg, image/webp"
       />
+      <input
+        type="file"
+        ref={projectInputRef}
+        onChange={handleProjectFileChange}
+        className="hidden"
+        accept={`${PROJECT_FILE_EXTENSION},application/json`}
+      />
     </div>
   );
 };
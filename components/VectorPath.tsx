@@ -0,0 +1,63 @@
+import React, { useId } from 'react';
+import type { CanvasPathElement } from '../types';
+import { getStrokePathData } from '../utils/vectorPaths';
+
+interface VectorPathProps {
+  element: Pick<CanvasPathElement, 'strokes' | 'viewBox'>;
+  className?: string;
+  /** 'none' stretches the strokes with the layer, like a resized image. */
+  preserveAspectRatio?: string;
+}
+
+/**
+ * Renders a path layer as SVG so it stays sharp at any zoom. Each erase
+ * stroke becomes a mask over everything drawn before it, matching how
+ * `drawStrokes` composites them on a canvas.
+ */
+const VectorPath: React.FC<VectorPathProps> = ({ element, className, preserveAspectRatio = 'none' }) => {
+  // useId output has characters that don't belong in a url(#...) reference.
+  const idPrefix = `vector${useId().replace(/[^\w-]/g, '')}`;
+  const { width, height } = element.viewBox;
+  const masks: React.ReactNode[] = [];
+  let content: React.ReactNode[] = [];
+
+  element.strokes.forEach((stroke, index) => {
+    if (stroke.points.length < 2) return;
+    const pathProps = {
+      d: getStrokePathData(stroke),
+      fill: 'none',
+      strokeWidth: stroke.width,
+      strokeOpacity: stroke.opacity,
+      strokeLinecap: 'round' as const,
+      strokeLinejoin: 'round' as const,
+    };
+
+    if (stroke.mode === 'draw') {
+      content.push(<path key={index} {...pathProps} stroke={stroke.color} />);
+      return;
+    }
+    const maskId = `${idPrefix}-erase-${index}`;
+    masks.push(
+      <mask key={maskId} id={maskId} maskUnits="userSpaceOnUse" x={0} y={0} width={width} height={height}>
+        <rect width={width} height={height} fill="white" />
+        <path {...pathProps} stroke="black" />
+      </mask>
+    );
+    content = [<g key={maskId} mask={`url(#${maskId})`}>{content}</g>];
+  });
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio={preserveAspectRatio}
+      className={className}
+      width="100%"
+      height="100%"
+    >
+      <defs>{masks}</defs>
+      {content}
+    </svg>
+  );
+};
+
+export default VectorPath;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { ICONS } from '../constants';
+
+interface ZoomControlsProps {
+  zoom: number;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onResetZoom: () => void;
+  onZoomToFit: () => void;
+  onZoomToSelection: () => void;
+  hasSelection: boolean;
+}
+
+const ZoomButton: React.FC<{
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}> = ({ label, onClick, disabled = false, children }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    aria-label={label}
+    title={label}
+    className="p-2 rounded-lg text-gray-600 hover:bg-gray-200 hover:text-blue-500 transition-colors disabled:text-gray-300 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+  >
+    {children}
+  </button>
+);
+
+const ZoomControls: React.FC<ZoomControlsProps> = ({
+  zoom,
+  onZoomIn,
+  onZoomOut,
+  onResetZoom,
+  onZoomToFit,
+  onZoomToSelection,
+  hasSelection,
+}) => (
+  <div className="absolute bottom-4 right-4 bg-white/80 backdrop-blur-sm shadow-xl rounded-2xl p-1 flex items-center gap-1 z-20 border border-gray-200">
+    <ZoomButton label="Zoom out (Ctrl -)" onClick={onZoomOut}>{ICONS.zoom_out}</ZoomButton>
+    <button
+      onClick={onResetZoom}
+      title="Reset zoom to 100% (Ctrl 0)"
+      className="w-14 text-sm font-medium text-gray-700 rounded-lg py-2 hover:bg-gray-200"
+    >
+      {Math.round(zoom * 100)}%
+    </button>
+    <ZoomButton label="Zoom in (Ctrl +)" onClick={onZoomIn}>{ICONS.zoom_in}</ZoomButton>
+    <div className="w-px h-6 bg-gray-200" />
+    <ZoomButton label="Zoom to fit (Shift 1)" onClick={onZoomToFit}>{ICONS.zoom_fit}</ZoomButton>
+    <ZoomButton label="Zoom to selection (Shift 2)" onClick={onZoomToSelection} disabled={!hasSelection}>{ICONS.zoom_selection}</ZoomButton>
+  </div>
+);
+
+export default ZoomControls;
@@ -1,4 +1,5 @@
 import React from 'react';
+import type { AdjustmentType, ArtboardPreset, BlendMode, ExportFormat, ExportOptions, ShapePreset, ShapeStyle } from './types';
 
 export const ICONS: { [key: string]: JSX.Element } = {
   select: (
@@ -90,6 +91,18 @@ export const ICONS: { [key: string]: JSX.Element } = {
         <line x1="14" y1="14" x2="10" y2="10"></line>
     </svg>
   ),
+  mask: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <rect x="3" y="3" width="18" height="18" rx="2"></rect>
+      <circle cx="12" cy="12" r="5"></circle>
+    </svg>
+  ),
+  crop: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M6 2v14a2 2 0 0 0 2 2h14"></path>
+      <path d="M18 22V8a2 2 0 0 0-2-2H2"></path>
+    </svg>
+  ),
   chevron_right: (
     <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
         <path d="m9 18 6-6-6-6"/>
@@ -178,4 +191,222 @@ export const ICONS: { [key: string]: JSX.Element } = {
       <line x1="12" y1="15" x2="12" y2="3"/>
     </svg>
   ),
-};
\ No newline at end of file
+  generative_fill: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M12 3l1.9 5.1L19 10l-5.1 1.9L12 17l-1.9-5.1L5 10l5.1-1.9L12 3z" />
+      <path d="M19 15l.9 2.1L22 18l-2.1.9L19 21l-.9-2.1L16 18l2.1-.9L19 15z" />
+    </svg>
+  ),
+  brush: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M9.06 11.9l8.07-8.06a2.85 2.85 0 1 1 4.03 4.03l-8.06 8.08" />
+      <path d="M7.07 14.94c-1.66 0-3 1.35-3 3.02 0 1.33-2.5 1.52-2 2.02 1.08 1.1 2.49 2.02 4 2.02 2.2 0 4-1.8 4-4.04a3.01 3.01 0 0 0-3-3.02z" />
+    </svg>
+  ),
+  lasso: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M7 22a5 5 0 0 1-2-4" />
+      <path d="M3.3 14A6.8 6.8 0 0 1 2 10c0-4.4 4.5-8 10-8s10 3.6 10 8-4.5 8-10 8a12 12 0 0 1-5-1" />
+      <circle cx="5" cy="16" r="2" />
+    </svg>
+  ),
+  outpaint: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <polyline points="15 3 21 3 21 9" />
+      <polyline points="9 21 3 21 3 15" />
+      <line x1="21" y1="3" x2="14" y2="10" />
+      <line x1="3" y1="21" x2="10" y2="14" />
+      <rect x="8" y="8" width="8" height="8" rx="1" strokeDasharray="2 2" />
+    </svg>
+  ),
+  save: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z" />
+      <polyline points="17 21 17 13 7 13 7 21" />
+      <polyline points="7 3 7 8 15 8" />
+    </svg>
+  ),
+  folder_open: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M6 14l1.45-2.9A2 2 0 0 1 9.24 10H20a2 2 0 0 1 1.94 2.5l-1.55 6a2 2 0 0 1-1.94 1.5H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h3.93a2 2 0 0 1 1.66.9l.82 1.2a2 2 0 0 0 1.66.9H18a2 2 0 0 1 2 2v2" />
+    </svg>
+  ),
+  lineage: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <line x1="6" y1="3" x2="6" y2="15" />
+      <circle cx="18" cy="6" r="3" />
+      <circle cx="6" cy="18" r="3" />
+      <path d="M18 9a9 9 0 0 1-9 9" />
+    </svg>
+  ),
+  history: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M3 12a9 9 0 1 0 3-6.7L3 8" />
+      <polyline points="3 3 3 8 8 8" />
+      <polyline points="12 7 12 12 15 14" />
+    </svg>
+  ),
+  pin: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <line x1="12" y1="17" x2="12" y2="22" />
+      <path d="M5 17h14v-1.76a2 2 0 0 0-1.11-1.79l-1.78-.9A2 2 0 0 1 15 10.76V6h1a2 2 0 0 0 0-4H8a2 2 0 0 0 0 4h1v4.76a2 2 0 0 1-1.11 1.79l-1.78.9A2 2 0 0 0 5 15.24z" />
+    </svg>
+  ),
+  layers: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <polygon points="12 2 2 7 12 12 22 7 12 2" />
+      <polyline points="2 17 12 22 22 17" />
+      <polyline points="2 12 12 17 22 12" />
+    </svg>
+  ),
+  zoom_in: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <circle cx="11" cy="11" r="8" />
+      <line x1="21" y1="21" x2="16.65" y2="16.65" />
+      <line x1="11" y1="8" x2="11" y2="14" />
+      <line x1="8" y1="11" x2="14" y2="11" />
+    </svg>
+  ),
+  zoom_out: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <circle cx="11" cy="11" r="8" />
+      <line x1="21" y1="21" x2="16.65" y2="16.65" />
+      <line x1="8" y1="11" x2="14" y2="11" />
+    </svg>
+  ),
+  zoom_fit: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M8 3H5a2 2 0 0 0-2 2v3m18 0V5a2 2 0 0 0-2-2h-3m0 18h3a2 2 0 0 0 2-2v-3M3 16v3a2 2 0 0 0 2 2h3" />
+    </svg>
+  ),
+  zoom_selection: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M8 3H5a2 2 0 0 0-2 2v3m18 0V5a2 2 0 0 0-2-2h-3m0 18h3a2 2 0 0 0 2-2v-3M3 16v3a2 2 0 0 0 2 2h3" />
+      <rect x="8" y="8" width="8" height="8" rx="1" />
+    </svg>
+  ),
+  eraser: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M20 20H7L3 16a2 2 0 0 1 0-2.8L13.2 3a2 2 0 0 1 2.8 0L21 8a2 2 0 0 1 0 2.8L11 20" />
+      <line x1="6" y1="11" x2="13" y2="18" />
+    </svg>
+  ),
+  shapes: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <rect x="3" y="11" width="10" height="10" rx="1" />
+      <circle cx="16" cy="8" r="5" />
+    </svg>
+  ),
+  rectangle: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <rect x="3" y="5" width="18" height="14" rx="2" />
+    </svg>
+  ),
+  ellipse: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <ellipse cx="12" cy="12" rx="9" ry="7" />
+    </svg>
+  ),
+  polygon: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <polygon points="12 3 20 8 20 16 12 21 4 16 4 8" />
+    </svg>
+  ),
+  line: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <line x1="5" y1="19" x2="19" y2="5" />
+    </svg>
+  ),
+  arrow: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <line x1="5" y1="19" x2="19" y2="5" />
+      <polyline points="10 5 19 5 19 14" />
+    </svg>
+  ),
+  artboard: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <line x1="6" y1="2" x2="6" y2="22" />
+      <line x1="18" y1="2" x2="18" y2="22" />
+      <line x1="2" y1="6" x2="22" y2="6" />
+      <line x1="2" y1="18" x2="22" y2="18" />
+    </svg>
+  ),
+};
+
+export const ARTBOARD_PRESETS: ArtboardPreset[] = [
+  { label: 'Square post', width: 1080, height: 1080 },
+  { label: 'Portrait post', width: 1080, height: 1350 },
+  { label: 'Story', width: 1080, height: 1920 },
+  { label: 'Full HD', width: 1920, height: 1080 },
+  { label: 'Banner', width: 1500, height: 500 },
+  { label: 'A4 (150 dpi)', width: 1240, height: 1754 },
+];
+
+export const DEFAULT_SHAPE_STYLE: ShapeStyle = {
+  fill: '#93c5fd',
+  stroke: '#1d4ed8',
+  strokeWidth: 2,
+  cornerRadius: 0,
+  sides: 6,
+  arrowStart: false,
+  arrowEnd: false,
+};
+
+export const SHAPE_PRESETS: ShapePreset[] = [
+  { label: 'Rectangle', icon: 'rectangle', shape: 'rectangle' },
+  { label: 'Ellipse', icon: 'ellipse', shape: 'ellipse' },
+  { label: 'Polygon', icon: 'polygon', shape: 'polygon' },
+  { label: 'Line', icon: 'line', shape: 'line', style: { stroke: '#111827', strokeWidth: 4 } },
+  { label: 'Arrow', icon: 'arrow', shape: 'line', style: { stroke: '#111827', strokeWidth: 4, arrowEnd: true } },
+];
+
+export const BLEND_MODES: { value: BlendMode; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'screen', label: 'Screen' },
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'darken', label: 'Darken' },
+  { value: 'lighten', label: 'Lighten' },
+  { value: 'color-dodge', label: 'Color dodge' },
+  { value: 'color-burn', label: 'Color burn' },
+  { value: 'hard-light', label: 'Hard light' },
+  { value: 'soft-light', label: 'Soft light' },
+  { value: 'difference', label: 'Difference' },
+  { value: 'exclusion', label: 'Exclusion' },
+  { value: 'hue', label: 'Hue' },
+  { value: 'saturation', label: 'Saturation' },
+  { value: 'color', label: 'Color' },
+  { value: 'luminosity', label: 'Luminosity' },
+];
+
+export const ADJUSTMENTS: { type: AdjustmentType; label: string; min: number; max: number; defaultAmount: number }[] = [
+  { type: 'brightness', label: 'Brightness', min: -100, max: 100, defaultAmount: 0 },
+  { type: 'contrast', label: 'Contrast', min: -100, max: 100, defaultAmount: 0 },
+  { type: 'saturation', label: 'Saturation', min: -100, max: 100, defaultAmount: 0 },
+  { type: 'hue', label: 'Hue', min: -180, max: 180, defaultAmount: 0 },
+  { type: 'blur', label: 'Blur', min: 0, max: 40, defaultAmount: 4 },
+  { type: 'sharpen', label: 'Sharpen', min: 0, max: 100, defaultAmount: 40 },
+  { type: 'grayscale', label: 'Grayscale', min: 0, max: 100, defaultAmount: 100 },
+  { type: 'levels', label: 'Levels', min: 0, max: 255, defaultAmount: 0 },
+];
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; hasQuality: boolean; hasTransparency: boolean; note?: string }[] = [
+  { value: 'png', label: 'PNG', extension: 'png', hasQuality: false, hasTransparency: true },
+  { value: 'jpeg', label: 'JPEG', extension: 'jpg', hasQuality: true, hasTransparency: false },
+  { value: 'webp', label: 'WebP', extension: 'webp', hasQuality: true, hasTransparency: true },
+  { value: 'svg', label: 'SVG', extension: 'svg', hasQuality: false, hasTransparency: true },
+  {
+    value: 'pdf', label: 'PDF', extension: 'pdf', hasQuality: false, hasTransparency: false,
+    note: 'The page is a lossless image at the chosen scale, so text and shapes are pixels. Export SVG to keep them as vectors.',
+  },
+];
+
+export const EXPORT_SCALES = [1, 2, 4];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  quality: 0.92,
+  scale: 1,
+  area: 'view',
+  background: '#f9fafb', // bg-gray-50, like the canvas
+};
@@ -0,0 +1,182 @@
+import type { CanvasImageElement, GenerationOperation, GenerationOptions, ProvenanceStep } from '../types';
+import type { ImageInput, ImageModelProvider, SketchInput, SketchPlacement } from './providers/types';
+import { createGeminiProvider, DEFAULT_GEMINI_IMAGE_MODEL } from './providers/geminiProvider';
+import { createHttpProvider } from './providers/httpProvider';
+import { createMockProvider } from './providers/mockProvider';
+
+export const AI_DISABLED_MESSAGE = "AI features are disabled because no model provider is configured. Set GEMINI_API_KEY, AI_PROVIDER=http with AI_SERVER_URL, or AI_PROVIDER=mock in .env.local.";
+
+// Picks a provider from the build-time environment. Returns null instead of
+// throwing so the editor still starts without AI.
+const createProviderFromEnv = (): ImageModelProvider | null => {
+  const providerName = (process.env.AI_PROVIDER || 'gemini').toLowerCase();
+  if (providerName === 'mock') {
+    return createMockProvider();
+  }
+  if (providerName === 'http') {
+    if (!process.env.AI_SERVER_URL) {
+      console.warn('AI_PROVIDER is "http" but AI_SERVER_URL is not set. AI features are disabled.');
+      return null;
+    }
+    return createHttpProvider(process.env.AI_SERVER_URL);
+  }
+  if (providerName !== 'gemini') {
+    console.warn(`Unknown AI_PROVIDER "${providerName}". AI features are disabled.`);
+    return null;
+  }
+  if (!process.env.API_KEY) {
+    console.warn('GEMINI_API_KEY is not set. AI features are disabled.');
+    return null;
+  }
+  return createGeminiProvider(process.env.API_KEY, process.env.GEMINI_IMAGE_MODEL || DEFAULT_GEMINI_IMAGE_MODEL);
+};
+
+let activeProvider: ImageModelProvider | null = createProviderFromEnv();
+
+export const getActiveProvider = (): ImageModelProvider | null => activeProvider;
+
+export const setActiveProvider = (provider: ImageModelProvider | null) => {
+  activeProvider = provider;
+};
+
+export const isAIAvailable = (): boolean => activeProvider !== null;
+
+const requireProvider = (): ImageModelProvider => {
+  if (!activeProvider) {
+    throw new Error(AI_DISABLED_MESSAGE);
+  }
+  return activeProvider;
+};
+
+/** Describes a step about to be run by the active provider, for layer provenance. */
+export const createProvenanceStep = (
+  operation: GenerationOperation,
+  details: Partial<Pick<ProvenanceStep, 'prompt' | 'options' | 'inputSrc' | 'maskSrc'>> & { references?: CanvasImageElement[] } = {}
+): ProvenanceStep => {
+  const { references = [], ...rest } = details;
+  return {
+    id: `step-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    operation,
+    prompt: '',
+    provider: activeProvider?.label ?? 'None',
+    model: activeProvider?.model,
+    timestamp: new Date().toISOString(),
+    referenceIds: references.map(r => r.id),
+    referenceNames: references.map(r => r.name),
+    ...rest,
+  };
+};
+
+const toImageInput = (data: string, mimeType: string): ImageInput => ({ data, mimeType });
+
+export const MAX_VARIANTS = 4;
+
+type Bounds = Pick<CanvasImageElement, 'x' | 'y' | 'width' | 'height'>;
+
+/** A rasterized sketch and where it was drawn on the canvas. */
+export type Sketch = Bounds & Pick<CanvasImageElement, 'src' | 'mimeType'>;
+
+// Maps the sketch's canvas bounds into each reference's own rotated frame and
+// keeps the references it overlaps.
+const getSketchPlacements = (sketch: Bounds, references: CanvasImageElement[]): SketchPlacement[] => {
+  const corners = [
+    { x: sketch.x, y: sketch.y },
+    { x: sketch.x + sketch.width, y: sketch.y },
+    { x: sketch.x, y: sketch.y + sketch.height },
+    { x: sketch.x + sketch.width, y: sketch.y + sketch.height },
+  ];
+
+  return references.flatMap((ref, referenceIndex) => {
+    const angle = (-ref.rotation * Math.PI) / 180;
+    const centerX = ref.x + ref.width / 2;
+    const centerY = ref.y + ref.height / 2;
+    const local = corners.map(({ x, y }) => ({
+      x: (x - centerX) * Math.cos(angle) - (y - centerY) * Math.sin(angle) + ref.width / 2,
+      y: (x - centerX) * Math.sin(angle) + (y - centerY) * Math.cos(angle) + ref.height / 2,
+    }));
+    const minX = Math.min(...local.map(p => p.x)) / ref.width;
+    const maxX = Math.max(...local.map(p => p.x)) / ref.width;
+    const minY = Math.min(...local.map(p => p.y)) / ref.height;
+    const maxY = Math.max(...local.map(p => p.y)) / ref.height;
+    if (maxX <= 0 || minX >= 1 || maxY <= 0 || minY >= 1) return [];
+    return [{ referenceIndex, x: minX, y: minY, width: maxX - minX, height: maxY - minY }];
+  });
+};
+
+/**
+ * Requests `options.variantCount` candidates in parallel. Resolves with every
+ * candidate that succeeded and only rejects if all of them failed.
+ */
+export const generateImages = async (
+  prompt: string,
+  referenceElements: CanvasImageElement[],
+  options: GenerationOptions = {},
+  sketch?: Sketch
+): Promise<string[]> => {
+  const provider = requireProvider();
+  const count = Math.max(1, Math.min(MAX_VARIANTS, Math.round(options.variantCount ?? 1)));
+  const references = referenceElements.map(ref => toImageInput(ref.src, ref.mimeType));
+  const sketchInput: SketchInput | undefined = sketch && {
+    image: toImageInput(sketch.src, sketch.mimeType),
+    placements: getSketchPlacements(sketch, referenceElements),
+  };
+
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, (_, seed) => provider.generate({
+      prompt,
+      references,
+      aspectRatio: options.aspectRatio,
+      seed,
+      sketch: sketchInput,
+    }))
+  );
+
+  const images = results
+    .filter((r): r is PromiseFulfilledResult<string> => r.status === 'fulfilled')
+    .map(r => r.value);
+  if (images.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+  return images;
+};
+
+export const removeBackground = async (
+  base64Image: string,
+  mimeType: string
+): Promise<string> => {
+  return requireProvider().removeBackground(toImageInput(base64Image, mimeType));
+};
+
+export const inpaintImage = async (
+  base64Image: string,
+  mimeType: string,
+  base64Mask: string,
+  prompt: string
+): Promise<string> => {
+  return requireProvider().edit({
+    mode: 'inpaint',
+    prompt,
+    image: toImageInput(base64Image, mimeType),
+    mask: toImageInput(base64Mask, 'image/png'),
+  });
+};
+
+export const outpaintImage = async (
+  base64PaddedImage: string,
+  base64Mask: string,
+  prompt: string
+): Promise<string> => {
+  return requireProvider().edit({
+    mode: 'outpaint',
+    prompt,
+    image: toImageInput(base64PaddedImage, 'image/png'),
+    mask: toImageInput(base64Mask, 'image/png'),
+  });
+};
+
+export const describeImage = async (
+  base64Image: string,
+  mimeType: string
+): Promise<string> => {
+  return requireProvider().describe(toImageInput(base64Image, mimeType));
+};
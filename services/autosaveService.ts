@@ -0,0 +1,63 @@
+import { serializeProject, deserializeProject } from './projectService';
+import type { ProjectDocument, ProjectState } from './projectService';
+
+const DB_NAME = 'magic-canvas';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+const LAST_SESSION_KEY = 'last-session';
+
+export interface SavedSession {
+  savedAt: string;
+  state: ProjectState;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private browsing).
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The autosave transaction was aborted.'));
+  });
+};
+
+// The session is stored in the same shape as a .magiccanvas file so it goes
+// through the same migrations when the format changes.
+export const saveSession = async (state: ProjectState): Promise<void> => {
+  await runRequest('readwrite', store => store.put(serializeProject(state), LAST_SESSION_KEY));
+};
+
+export const loadSession = async (): Promise<SavedSession | null> => {
+  const doc = await runRequest<ProjectDocument | undefined>('readonly', store => store.get(LAST_SESSION_KEY));
+  if (!doc) return null;
+  return { savedAt: doc.savedAt, state: deserializeProject(doc) };
+};
+
+export const clearSession = async (): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(LAST_SESSION_KEY));
+};
@@ -0,0 +1,195 @@
+import type { CanvasImageElement, ChatMessage, CustomFont, Layer } from '../types';
+import { fnv1a } from '../utils/hash';
+
+export const PROJECT_FILE_EXTENSION = '.magiccanvas';
+export const PROJECT_FORMAT = 'magic-canvas';
+export const CURRENT_PROJECT_VERSION = 1;
+
+const ASSET_REF_PREFIX = 'asset:';
+
+export interface ProjectAsset {
+  mimeType: string;
+  data: string;
+}
+
+/**
+ * The on-disk shape of a .magiccanvas file, format version 1.
+ *
+ * Embedded images are kept in `assets` and referenced from `src` as
+ * `asset:<id>`, so an image used by several layers is stored once. The input
+ * and mask images recorded in a layer's provenance are stored the same way,
+ * as are uploaded fonts, which files saved before them lack. Changing this
+ * shape means bumping the version and adding a migration from the old one.
+ */
+export interface ProjectDocument {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  layers: Layer[];
+  assets: Record<string, ProjectAsset>;
+  messages: ChatMessage[];
+  selectedIds: string[];
+  fonts?: CustomFont[];
+}
+
+export interface ProjectState {
+  layers: Layer[];
+  messages: ChatMessage[];
+  selectedIds: string[];
+  fonts: CustomFont[];
+}
+
+// Just enough of a document to tell which migrations it needs.
+interface VersionedDocument extends Record<string, unknown> {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+}
+
+type Migration = (doc: VersionedDocument) => VersionedDocument;
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1. There are
+// none yet, as version 1 is the first format.
+const MIGRATIONS: Record<number, Migration> = {};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isVersionedDocument = (value: Record<string, unknown>): value is VersionedDocument =>
+  value.format === PROJECT_FORMAT && typeof value.version === 'number';
+
+const isCustomFont = (value: unknown): value is CustomFont =>
+  isRecord(value) && typeof value.family === 'string' && typeof value.src === 'string';
+
+// Layers aren't checked one by one; a list of them is enough.
+const isCurrentDocument = (doc: VersionedDocument): doc is VersionedDocument & ProjectDocument =>
+  doc.version === CURRENT_PROJECT_VERSION && typeof doc.savedAt === 'string' && Array.isArray(doc.layers) && isRecord(doc.assets);
+
+const hashString = (value: string): string =>
+  fnv1a(value).toString(16).padStart(8, '0') + value.length.toString(16);
+
+// `ids` remembers the id given to each image within one document, so an
+// image used by several layers is hashed once. Two different images whose
+// hashes collide get distinct ids rather than sharing one asset.
+const addAsset = (assets: Record<string, ProjectAsset>, ids: Map<string, string>, dataUrl: string, fallbackMimeType: string): string => {
+  let id = ids.get(dataUrl);
+  if (!id) {
+    const hash = hashString(dataUrl);
+    id = hash;
+    for (let n = 1; assets[id] && assets[id].data !== dataUrl; n++) {
+      id = `${hash}-${n}`;
+    }
+    ids.set(dataUrl, id);
+  }
+  if (!assets[id]) {
+    const mimeType = dataUrl.slice(5, dataUrl.indexOf(';')) || fallbackMimeType;
+    assets[id] = { mimeType, data: dataUrl };
+  }
+  return `${ASSET_REF_PREFIX}${id}`;
+};
+
+// Applies `map` to every image an image layer holds: its `src` and the
+// inputs and masks recorded in its provenance.
+const mapLayerImages = (layer: Layer, map: (src: string, layer: CanvasImageElement) => string): Layer => {
+  if (layer.type !== 'image') return layer;
+  const mapped: CanvasImageElement = { ...layer, src: map(layer.src, layer) };
+  if (layer.provenance) {
+    mapped.provenance = layer.provenance.map(step => ({
+      ...step,
+      ...(step.inputSrc ? { inputSrc: map(step.inputSrc, layer) } : {}),
+      ...(step.maskSrc ? { maskSrc: map(step.maskSrc, layer) } : {}),
+    }));
+  }
+  return mapped;
+};
+
+export const serializeProject = (state: ProjectState): ProjectDocument => {
+  const assets: Record<string, ProjectAsset> = {};
+  const ids = new Map<string, string>();
+  const layers = state.layers.map(layer => mapLayerImages(layer, (src, image) =>
+    src.startsWith('data:') ? addAsset(assets, ids, src, image.mimeType) : src
+  ));
+
+  const fonts = state.fonts.map(font => ({ ...font, src: addAsset(assets, ids, font.src, 'font/ttf') }));
+
+  return {
+    format: PROJECT_FORMAT,
+    version: CURRENT_PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    layers,
+    assets,
+    messages: state.messages,
+    selectedIds: state.selectedIds,
+    fonts,
+  };
+};
+
+export const migrateProject = (raw: unknown): ProjectDocument => {
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new Error('This file is not a Magic Canvas project.');
+  }
+  if (!isVersionedDocument(raw) || raw.version < 1) {
+    throw new Error('The project file has an invalid version.');
+  }
+  if (raw.version > CURRENT_PROJECT_VERSION) {
+    throw new Error(`This project was saved by a newer version of Magic Canvas (format v${raw.version}).`);
+  }
+  let doc = raw;
+  while (doc.version < CURRENT_PROJECT_VERSION) {
+    const migrate = MIGRATIONS[doc.version];
+    if (!migrate) {
+      throw new Error(`Cannot upgrade project from format v${doc.version}.`);
+    }
+    doc = migrate(doc);
+  }
+  if (!isCurrentDocument(doc)) {
+    throw new Error('The project file is missing its layers or image data.');
+  }
+  return doc;
+};
+
+export const deserializeProject = (raw: unknown): ProjectState => {
+  const doc = migrateProject(raw);
+  const layers = doc.layers.map(layer => mapLayerImages(layer, (src, image) => {
+    if (!src.startsWith(ASSET_REF_PREFIX)) return src;
+    const asset = doc.assets[src.slice(ASSET_REF_PREFIX.length)];
+    if (!asset) {
+      throw new Error(`The project file is missing the image data for layer "${image.name}".`);
+    }
+    return asset.data;
+  }));
+
+  // A missing or malformed font only falls back to the default, so it isn't an error.
+  const fonts = (Array.isArray(doc.fonts) ? doc.fonts : []).filter(isCustomFont).flatMap(font => {
+    if (!font.src.startsWith(ASSET_REF_PREFIX)) return [font];
+    const asset = doc.assets[font.src.slice(ASSET_REF_PREFIX.length)];
+    return typeof asset?.data === 'string' ? [{ ...font, src: asset.data }] : [];
+  });
+
+  const layerIds = new Set(layers.map(l => l.id));
+  return {
+    layers,
+    messages: Array.isArray(doc.messages) ? doc.messages : [],
+    selectedIds: Array.isArray(doc.selectedIds) ? doc.selectedIds.filter(id => layerIds.has(id)) : [],
+    fonts,
+  };
+};
+
+export const downloadProject = (state: ProjectState, fileName = 'untitled') => {
+  const blob = new Blob([JSON.stringify(serializeProject(state))], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = `${fileName}${PROJECT_FILE_EXTENSION}`;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const readProjectFile = async (file: File): Promise<ProjectState> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`Could not read ${file.name}: the file is not valid JSON.`);
+  }
+  return deserializeProject(raw);
+};
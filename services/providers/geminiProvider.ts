@@ -0,0 +1,141 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { GenerateContentResponse, Part } from "@google/genai";
+import type { EditRequest, GenerateRequest, ImageInput, ImageModelProvider, SketchInput } from './types';
+
+export const DEFAULT_GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+const GEMINI_TEXT_MODEL = 'gemini-2.5-flash';
+
+const fileToGenerativePart = (image: ImageInput) => {
+  return {
+    inlineData: {
+      data: image.data.split(',')[1],
+      mimeType: image.mimeType,
+    },
+  };
+};
+
+const extractImage = (response: GenerateContentResponse, forcedMimeType?: string): string | null => {
+  for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+    if (part.inlineData?.data) {
+      const mimeType = forcedMimeType ?? part.inlineData.mimeType;
+      return `data:${mimeType};base64,${part.inlineData.data}`;
+    }
+  }
+  return null;
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const buildSketchPrompt = (sketch: SketchInput, hasReferences: boolean): string => {
+  let text = ' The last image is a sketch the user drew on the canvas (strokes on a transparent background) to annotate the request.';
+  if (sketch.placements.length > 0) {
+    const where = sketch.placements.map(p =>
+      `over reference image #${p.referenceIndex + 1}, spanning ${percent(p.x)} to ${percent(p.x + p.width)} of its width from the left and ${percent(p.y)} to ${percent(p.y + p.height)} of its height from the top`
+    ).join('; and ');
+    text += ` It was drawn ${where}.`;
+  } else if (hasReferences) {
+    text += ' It was drawn next to the reference images rather than on top of them.';
+  }
+  text += hasReferences
+    ? ' Use the sketch to understand where and what to change; do not copy the strokes literally into the result.'
+    : ' Use it as a rough layout for the composition; do not copy the strokes literally into the result.';
+  return text;
+};
+
+const buildEditPrompt = ({ mode, prompt }: EditRequest): string => {
+  if (mode === 'inpaint') {
+    return `The user wants to edit part of an image. The first image is the original. The second image is a black and white mask of the same size: only the white area may be changed, everything in the black area must stay exactly as it is. Edit the white area according to this prompt: "${prompt}". Blend the edit seamlessly with its surroundings and return the full image at the original size.`;
+  }
+  const description = prompt.trim()
+    ? `The new area should contain: "${prompt}".`
+    : 'Continue the existing scene naturally into the new area.';
+  return `The user wants to extend an image beyond its original borders. The first image is the original placed on a larger, partly transparent canvas. The second image is a black and white mask of the same size: the white area is the new, empty space to be filled and the black area is the original image, which must stay exactly as it is. ${description} Match the lighting, perspective and style of the original and return the full image at the size of the larger canvas.`;
+};
+
+export const createGeminiProvider = (apiKey: string, model = DEFAULT_GEMINI_IMAGE_MODEL): ImageModelProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generateImageContent = (parts: Part[], aspectRatio?: string) => ai.models.generateContent({
+    model,
+    contents: { parts },
+    config: {
+      responseModalities: [Modality.IMAGE, Modality.TEXT],
+      ...(aspectRatio ? { imageConfig: { aspectRatio } } : {}),
+    },
+  });
+
+  return {
+    label: 'Gemini',
+    model,
+
+    // `seed` is ignored: Gemini already samples differently on every call, and
+    // fixing it would make re-running a prompt return the same picture.
+    async generate({ prompt, references, aspectRatio, sketch }: GenerateRequest) {
+      let textPrompt = references.length > 0
+        ? `The user wants to generate an image. Their prompt is: "${prompt}". Use the provided reference images to create the final result.`
+        : `The user wants to generate an image from scratch. Their prompt is: "${prompt}".`;
+      if (aspectRatio) {
+        textPrompt += ` The image must have an aspect ratio of ${aspectRatio} (width:height).`;
+      }
+      if (sketch) {
+        textPrompt += buildSketchPrompt(sketch, references.length > 0);
+      }
+      const parts: Part[] = [{ text: textPrompt }, ...references.map(fileToGenerativePart)];
+      if (sketch) {
+        parts.push(fileToGenerativePart(sketch.image));
+      }
+
+      try {
+        const image = extractImage(await generateImageContent(parts, aspectRatio));
+        if (image) return image;
+        throw new Error("No image was generated. The model might have refused the request.");
+      } catch (error) {
+        console.error("Error generating image:", error);
+        throw new Error("Failed to generate image. Please check the console for details.");
+      }
+    },
+
+    async edit(request: EditRequest) {
+      const parts = [{ text: buildEditPrompt(request) }, fileToGenerativePart(request.image), fileToGenerativePart(request.mask)];
+
+      try {
+        const image = extractImage(await generateImageContent(parts));
+        if (image) return image;
+        throw new Error("Image edit failed: The AI did not return an image.");
+      } catch (error) {
+        console.error(`Error during ${request.mode}:`, error);
+        throw new Error(request.mode === 'inpaint'
+          ? "Failed to fill the selected area. Please check the console for details."
+          : "Failed to extend the image. Please check the console for details.");
+      }
+    },
+
+    async removeBackground(image: ImageInput) {
+      const prompt = "Please remove the background of this image, making it transparent. The main subject should be preserved. Output a PNG with a transparent background.";
+
+      try {
+        const result = extractImage(await generateImageContent([{ text: prompt }, fileToGenerativePart(image)]), 'image/png');
+        if (result) return result;
+        throw new Error("Background removal failed: The AI did not return an image.");
+      } catch (error) {
+        console.error("Error removing background:", error);
+        throw new Error("Failed to remove background. Please check the console for details.");
+      }
+    },
+
+    async describe(image: ImageInput) {
+      try {
+        const response = await ai.models.generateContent({
+          model: GEMINI_TEXT_MODEL,
+          contents: { parts: [{ text: 'Describe this image in one short sentence.' }, fileToGenerativePart(image)] },
+        });
+        const text = response.text?.trim();
+        if (text) return text;
+        throw new Error("The AI did not return a description.");
+      } catch (error) {
+        console.error("Error describing image:", error);
+        throw new Error("Failed to describe image. Please check the console for details.");
+      }
+    },
+  };
+};
@@ -0,0 +1,92 @@
+import type { EditRequest, GenerateRequest, ImageInput, ImageModelProvider } from './types';
+
+interface WireImage {
+  mimeType: string;
+  data: string;
+}
+
+const toWireImage = (image: ImageInput): WireImage => ({
+  mimeType: image.mimeType,
+  data: image.data.split(',')[1] ?? '',
+});
+
+const fromWireImage = (image: WireImage | undefined, route: string): string => {
+  if (!image || typeof image.data !== 'string' || typeof image.mimeType !== 'string') {
+    throw new Error(`The model server returned no image from /${route}.`);
+  }
+  return `data:${image.mimeType};base64,${image.data}`;
+};
+
+/**
+ * Talks to a model server over a small JSON protocol. Every call is a
+ * `POST <baseUrl>/<route>` with a JSON body; images travel as
+ * `{ "mimeType": "image/png", "data": "<base64 without data: prefix>" }`.
+ *
+ *   /generate           { prompt, references: Image[], aspectRatio?, seed?, sketch? } -> { image: Image }
+ *   /edit               { mode, prompt, image: Image, mask: Image }  -> { image: Image }
+ *   /remove-background  { image: Image }                             -> { image: Image }
+ *   /describe           { image: Image }                             -> { text: string }
+ *
+ * `sketch` is `{ image: Image, placements: [{ referenceIndex, x, y, width, height }] }`
+ * with the placement given as fractions of the reference's size.
+ *
+ * Non-2xx responses may carry `{ error: string }`, which is shown to the user.
+ */
+export const createHttpProvider = (baseUrl: string): ImageModelProvider => {
+  const endpoint = baseUrl.replace(/\/+$/, '');
+
+  const post = async <T>(route: string, body: unknown): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(`${endpoint}/${route}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      console.error(`Error calling model server /${route}:`, error);
+      throw new Error(`Could not reach the model server at ${endpoint}.`);
+    }
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      const message = payload && typeof payload.error === 'string' ? payload.error : `${response.status} ${response.statusText}`;
+      throw new Error(`The model server failed on /${route}: ${message}`);
+    }
+    return payload as T;
+  };
+
+  return {
+    label: 'Model server',
+    model: endpoint,
+
+    async generate({ prompt, references, aspectRatio, seed, sketch }: GenerateRequest) {
+      const result = await post<{ image?: WireImage }>('generate', {
+        prompt,
+        references: references.map(toWireImage),
+        aspectRatio,
+        seed,
+        sketch: sketch && { image: toWireImage(sketch.image), placements: sketch.placements },
+      });
+      return fromWireImage(result?.image, 'generate');
+    },
+
+    async edit({ mode, prompt, image, mask }: EditRequest) {
+      const result = await post<{ image?: WireImage }>('edit', { mode, prompt, image: toWireImage(image), mask: toWireImage(mask) });
+      return fromWireImage(result?.image, 'edit');
+    },
+
+    async removeBackground(image: ImageInput) {
+      const result = await post<{ image?: WireImage }>('remove-background', { image: toWireImage(image) });
+      return fromWireImage(result?.image, 'remove-background');
+    },
+
+    async describe(image: ImageInput) {
+      const result = await post<{ text?: string }>('describe', { image: toWireImage(image) });
+      if (typeof result?.text !== 'string') {
+        throw new Error('The model server returned no description from /describe.');
+      }
+      return result.text;
+    },
+  };
+};
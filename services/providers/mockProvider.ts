@@ -0,0 +1,180 @@
+import type { EditRequest, GenerateRequest, ImageInput, ImageModelProvider, SketchInput } from './types';
+import { loadImage } from '../../utils/imageUtils';
+import { fnv1a } from '../../utils/hash';
+
+const MAX_OUTPUT_SIZE = 1024;
+const BLANK_OUTPUT_SIZE = 512;
+// Distance in RGB space under which a pixel counts as background.
+const BACKGROUND_THRESHOLD = 48;
+// Pixels between the threshold and this distance fade out for a soft edge.
+const BACKGROUND_FEATHER = 24;
+
+interface MockProviderOptions {
+  /** Artificial delay so loading states can be seen and tested. */
+  latencyMs?: number;
+}
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a 2D canvas context.');
+  return { canvas, ctx };
+};
+
+const parseAspectRatio = (aspectRatio: string | undefined): number => {
+  const [width, height] = (aspectRatio ?? '').split(':').map(Number);
+  return width > 0 && height > 0 ? width / height : 1;
+};
+
+const fitWithin = (width: number, height: number, max: number) => {
+  const scale = Math.min(1, max / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+// Every prompt (and seed) maps to a fixed hue, so the same request always tints the same way.
+const promptHue = (prompt: string, seed = 0) => fnv1a(`${prompt.trim().toLowerCase()}#${seed}`) % 360;
+
+const tint = (ctx: CanvasRenderingContext2D, width: number, height: number, hue: number) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'color';
+  ctx.globalAlpha = 0.6;
+  ctx.fillStyle = `hsl(${hue}, 70%, 50%)`;
+  ctx.fillRect(0, 0, width, height);
+  ctx.restore();
+};
+
+const averageColor = (data: Uint8ClampedArray) => {
+  let r = 0, g = 0, b = 0, count = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    r += data[i];
+    g += data[i + 1];
+    b += data[i + 2];
+    count++;
+  }
+  if (count === 0) return { r: 0, g: 0, b: 0 };
+  return { r: Math.round(r / count), g: Math.round(g / count), b: Math.round(b / count) };
+};
+
+// Stamps the sketch where it was drawn on the first reference (the output is
+// sized from it), or stretched over the whole output otherwise.
+const drawSketch = async (ctx: CanvasRenderingContext2D, width: number, height: number, sketch: SketchInput) => {
+  const img = await loadImage(sketch.image.data);
+  const placement = sketch.placements.find(p => p.referenceIndex === 0);
+  if (placement) {
+    ctx.drawImage(img, placement.x * width, placement.y * height, placement.width * width, placement.height * height);
+  } else {
+    ctx.drawImage(img, 0, 0, width, height);
+  }
+};
+
+/**
+ * An offline provider with canned but deterministic results, for working on
+ * the AI flows without network access or API quota. The same inputs always
+ * produce the same pixels.
+ */
+export const createMockProvider = ({ latencyMs = 400 }: MockProviderOptions = {}): ImageModelProvider => {
+  const delay = () => new Promise(resolve => setTimeout(resolve, latencyMs));
+
+  return {
+    label: 'Mock',
+    model: 'mock',
+
+    async generate({ prompt, references, aspectRatio, seed, sketch }: GenerateRequest) {
+      await delay();
+      const hue = promptHue(prompt, seed);
+      const ratio = parseAspectRatio(aspectRatio);
+
+      if (references.length === 0) {
+        const { width, height } = fitWithin(BLANK_OUTPUT_SIZE * ratio, BLANK_OUTPUT_SIZE, BLANK_OUTPUT_SIZE);
+        const { canvas, ctx } = createCanvas(width, height);
+        const gradient = ctx.createLinearGradient(0, 0, width, height);
+        gradient.addColorStop(0, `hsl(${hue}, 70%, 60%)`);
+        gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 70%, 40%)`);
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+        if (sketch) await drawSketch(ctx, width, height, sketch);
+        return canvas.toDataURL('image/png');
+      }
+
+      // Stack the references on top of each other with decreasing opacity,
+      // sized to the first one (or the requested aspect ratio), then tint by the prompt.
+      const images = await Promise.all(references.map(ref => loadImage(ref.data)));
+      const baseHeight = images[0].naturalHeight;
+      const baseWidth = aspectRatio ? baseHeight * ratio : images[0].naturalWidth;
+      const { width, height } = fitWithin(baseWidth, baseHeight, MAX_OUTPUT_SIZE);
+      const { canvas, ctx } = createCanvas(width, height);
+      images.forEach((img, index) => {
+        ctx.globalAlpha = 1 / (index + 1);
+        ctx.drawImage(img, 0, 0, width, height);
+      });
+      ctx.globalAlpha = 1;
+      tint(ctx, width, height, hue);
+      if (sketch) await drawSketch(ctx, width, height, sketch);
+      return canvas.toDataURL('image/png');
+    },
+
+    async edit({ mode, prompt, image }: EditRequest) {
+      await delay();
+      // Callers composite the result through the mask, so returning the whole
+      // image tinted (inpaint) or with its empty area filled (outpaint) is enough.
+      const img = await loadImage(image.data);
+      const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+      const hue = promptHue(prompt);
+
+      if (mode === 'outpaint') {
+        ctx.drawImage(img, 0, 0);
+        const { r, g, b } = averageColor(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        if (prompt.trim()) tint(ctx, canvas.width, canvas.height, hue);
+        ctx.drawImage(img, 0, 0);
+        return canvas.toDataURL('image/png');
+      }
+
+      ctx.drawImage(img, 0, 0);
+      tint(ctx, canvas.width, canvas.height, hue);
+      return canvas.toDataURL('image/png');
+    },
+
+    async removeBackground(image: ImageInput) {
+      await delay();
+      const img = await loadImage(image.data);
+      const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+      ctx.drawImage(img, 0, 0);
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const { data, width, height } = imageData;
+
+      // Assume the four corners show the background and key out everything close to their average.
+      const corners = [0, width - 1, (height - 1) * width, height * width - 1].map(p => p * 4);
+      const key = {
+        r: corners.reduce((sum, i) => sum + data[i], 0) / corners.length,
+        g: corners.reduce((sum, i) => sum + data[i + 1], 0) / corners.length,
+        b: corners.reduce((sum, i) => sum + data[i + 2], 0) / corners.length,
+      };
+
+      for (let i = 0; i < data.length; i += 4) {
+        const distance = Math.hypot(data[i] - key.r, data[i + 1] - key.g, data[i + 2] - key.b);
+        if (distance < BACKGROUND_THRESHOLD) {
+          data[i + 3] = 0;
+        } else if (distance < BACKGROUND_THRESHOLD + BACKGROUND_FEATHER) {
+          data[i + 3] = Math.round(data[i + 3] * (distance - BACKGROUND_THRESHOLD) / BACKGROUND_FEATHER);
+        }
+      }
+      ctx.putImageData(imageData, 0, 0);
+      return canvas.toDataURL('image/png');
+    },
+
+    async describe(image: ImageInput) {
+      await delay();
+      const img = await loadImage(image.data);
+      const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+      ctx.drawImage(img, 0, 0);
+      const { r, g, b } = averageColor(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+      return `A ${canvas.width}×${canvas.height} image, mostly rgb(${r}, ${g}, ${b}).`;
+    },
+  };
+};
@@ -0,0 +1,66 @@
+/** An image passed to or returned from a provider, as a `data:` URL. */
+export interface ImageInput {
+  data: string;
+  mimeType: string;
+}
+
+/**
+ * Where the sketch sits on one reference image, in that reference's own
+ * (unrotated) frame, as fractions of its width and height.
+ */
+export interface SketchPlacement {
+  /** Index into `GenerateRequest.references`. */
+  referenceIndex: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Strokes the user drew on the canvas, on a transparent background. */
+export interface SketchInput {
+  image: ImageInput;
+  /** Only references the sketch overlaps are listed. */
+  placements: SketchPlacement[];
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  /** May be empty for pure text-to-image generation. */
+  references: ImageInput[];
+  /** Width:height, e.g. "16:9". Omitted when the caller has no preference. */
+  aspectRatio?: string;
+  /** Index of the variant within one request (0, 1, 2, ...). Deterministic providers should vary their output by it. */
+  seed?: number;
+  /** An annotation/scribble that shows where and what to change. */
+  sketch?: SketchInput;
+}
+
+/**
+ * `inpaint` regenerates the white area of `mask` inside `image`.
+ * `outpaint` fills the white area of `mask`, which surrounds the original
+ * pixels of `image` on a larger canvas.
+ */
+export type EditMode = 'inpaint' | 'outpaint';
+
+export interface EditRequest {
+  mode: EditMode;
+  prompt: string;
+  image: ImageInput;
+  mask: ImageInput;
+}
+
+export interface ImageModelProvider {
+  /** Short human-readable name shown in the UI, e.g. "Gemini". */
+  readonly label: string;
+  /** The model (or endpoint) behind this provider, recorded in layer provenance. */
+  readonly model?: string;
+  /** Returns the generated image as a `data:` URL. */
+  generate(request: GenerateRequest): Promise<string>;
+  /** Returns the edited image as a `data:` URL. */
+  edit(request: EditRequest): Promise<string>;
+  /** Returns a PNG `data:` URL with a transparent background. */
+  removeBackground(image: ImageInput): Promise<string>;
+  /** Returns a short text description of the image. */
+  describe(image: ImageInput): Promise<string>;
+}
@@ -1,4 +1,71 @@
-export interface CanvasImageElement {
+export type GenerationOperation = 'generate' | 'remove-background' | 'inpaint' | 'outpaint';
+
+/** One AI step that produced or modified an image layer. */
+export interface ProvenanceStep {
+  id: string;
+  operation: GenerationOperation;
+  /** Empty for operations without a prompt, like background removal. */
+  prompt: string;
+  provider: string;
+  model?: string;
+  /** ISO 8601. */
+  timestamp: string;
+  /** Reference layers used by a `generate` step. */
+  referenceIds: string[];
+  /** Names at generation time, so deleted references can still be shown. */
+  referenceNames: string[];
+  options?: GenerationOptions;
+  /** The image the step was applied to, for edits. Lets the step be re-run. */
+  inputSrc?: string;
+  /** The black/white mask used by inpaint and outpaint steps. */
+  maskSrc?: string;
+}
+
+/** CSS `mix-blend-mode` names. Canvas uses the same names, except 'normal' is 'source-over'. */
+export type BlendMode =
+  | 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten'
+  | 'color-dodge' | 'color-burn' | 'hard-light' | 'soft-light' | 'difference' | 'exclusion'
+  | 'hue' | 'saturation' | 'color' | 'luminosity';
+
+/**
+ * How a layer is composited. On a group, both apply to its layers once
+ * they're composited together, as one image.
+ */
+export interface LayerCompositing {
+  /** 0–1, defaults to 1. */
+  opacity?: number;
+  /** Defaults to 'normal'. */
+  blendMode?: BlendMode;
+}
+
+export type AdjustmentType = 'brightness' | 'contrast' | 'saturation' | 'hue' | 'blur' | 'sharpen' | 'grayscale' | 'levels';
+
+export interface LevelsSettings {
+  /** Input values (0-255) that map to black and to white. */
+  black: number;
+  white: number;
+  /** Midtone gamma; above 1 brightens. */
+  gamma: number;
+}
+
+export interface ImageAdjustment {
+  id: string;
+  type: AdjustmentType;
+  enabled: boolean;
+  /** Slider value, in the range given by `ADJUSTMENTS`. Unused by levels. */
+  amount: number;
+  levels?: LevelsSettings;
+}
+
+/** The visible part of an image, as fractions of its full width and height. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CanvasImageElement extends LayerCompositing {
   id: string;
   type: 'image';
   name: string;
@@ -11,9 +78,67 @@ export interface CanvasImageElement {
   mimeType: string;
   visible: boolean;
   parentId?: string;
+  /** Ids of the reference layers an AI generation was made from. */
+  sourceLayerIds?: string[];
+  /** AI steps that produced this layer, oldest first. */
+  provenance?: ProvenanceStep[];
+  /** Applied in order on top of `src`, which is never modified. */
+  adjustments?: ImageAdjustment[];
+  /** The element's box shows this part of the image; the rest is kept. */
+  crop?: CropRect;
+}
+
+export type TextTransform = 'none' | 'uppercase' | 'lowercase' | 'capitalize';
+
+/**
+ * How a text box gets its size: from its text (`auto-width`), from its width
+ * with the height following the text (`auto-height`), or as set, with any
+ * text that doesn't fit spilling out (`fixed`).
+ */
+export type TextSizing = 'auto-width' | 'auto-height' | 'fixed';
+
+/** A curve for text to run along, in a single line, instead of across its box. */
+export interface TextPath {
+  /** `custom` follows `points`, usually taken from a drawn path. */
+  shape: 'arc' | 'circle' | 'custom';
+  /** How far an arc bends, from -100 (sagging) to 100 (a half circle bulging up). */
+  bend: number;
+  /** As fractions of the box, so the curve stretches with it. */
+  points?: { x: number; y: number }[];
+}
+
+export type TextWarpStyle = 'arc' | 'wave' | 'bulge';
+
+/** A distortion of the text's lines as laid out in its box. */
+export interface TextWarp {
+  style: TextWarpStyle;
+  /** From -100 to 100; negative values bend the other way. */
+  intensity: number;
 }
 
-export interface CanvasTextElement {
+/** Character styles a run can set for part of a text element. */
+export type TextRunStyle = Partial<Pick<CanvasTextElement, 'fontFamily' | 'fontSize' | 'fontWeight' | 'fontStyle' | 'textDecoration' | 'color'>>;
+
+/** Styles for the characters of `content` from `start` up to `end`. Unset styles come from the element. */
+export interface TextRun extends TextRunStyle {
+  start: number;
+  end: number;
+}
+
+/** Characters selected in a text element being edited, as offsets into its content. */
+export interface TextSelection {
+  id: string;
+  start: number;
+  end: number;
+}
+
+/** A font file the user uploaded, kept as a data URL. */
+export interface CustomFont {
+  family: string;
+  src: string;
+}
+
+export interface CanvasTextElement extends LayerCompositing {
   id: string;
   type: 'text';
   name: string;
@@ -29,6 +154,20 @@ export interface CanvasTextElement {
   fontStyle: 'normal' | 'italic';
   textDecoration: 'none' | 'underline';
   align: 'left' | 'center' | 'right';
+  /** A CSS font-family list; the app's sans-serif stack when unset. */
+  fontFamily?: string;
+  /** A multiple of the font size. */
+  lineHeight?: number;
+  /** Extra space after each character, in pixels. */
+  letterSpacing?: number;
+  textTransform?: TextTransform;
+  /** `fixed` when unset. */
+  sizing?: TextSizing;
+  /** Sorted and non-overlapping. */
+  runs?: TextRun[];
+  /** Takes the place of `warp` when both are set. */
+  textPath?: TextPath;
+  warp?: TextWarp;
   visible: boolean;
   parentId?: string;
   // Text Effects
@@ -45,23 +184,180 @@ export interface CanvasTextElement {
   gradientDirection: string;
 }
 
-export type CanvasElement = CanvasImageElement | CanvasTextElement;
+export type StrokeMode = 'draw' | 'erase';
+
+export interface BrushSettings {
+  color: string;
+  width: number;
+  /** 0–1. */
+  opacity: number;
+  /** 0 follows the pointer exactly, 1 smooths the most. */
+  smoothing: number;
+}
 
-export interface CanvasGroup {
+/** A freehand stroke. Erase strokes cut through the strokes drawn before them. */
+export interface VectorStroke extends BrushSettings {
+  mode: StrokeMode;
+  points: { x: number; y: number }[];
+}
+
+export interface CanvasPathElement extends LayerCompositing {
+  id: string;
+  type: 'path';
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  /** In the coordinates of `viewBox`, which is stretched over width×height. */
+  strokes: VectorStroke[];
+  viewBox: { width: number; height: number };
+  visible: boolean;
+  parentId?: string;
+}
+
+export type ShapeKind = 'rectangle' | 'ellipse' | 'polygon' | 'line';
+
+/** Fill, stroke and the kind-specific options of a shape. */
+export interface ShapeStyle {
+  /** Any CSS color, or 'transparent'. Ignored by lines. */
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  /** Rectangles only. */
+  cornerRadius: number;
+  /** Polygons only; at least 3. */
+  sides: number;
+  /** Lines only. */
+  arrowStart: boolean;
+  arrowEnd: boolean;
+}
+
+/** A line runs through the middle of its box from left to right; rotate it to angle it. */
+export interface CanvasShapeElement extends ShapeStyle, LayerCompositing {
+  id: string;
+  type: 'shape';
+  name: string;
+  shape: ShapeKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  visible: boolean;
+  parentId?: string;
+  /** See `CanvasGroup.clippingMask`. */
+  clippingMask?: boolean;
+}
+
+/** An entry of the Shape tool's menu. Arrows are lines with an arrowhead. */
+export interface ShapePreset {
+  label: string;
+  icon: string;
+  shape: ShapeKind;
+  style?: Partial<ShapeStyle>;
+}
+
+export type CanvasElement = CanvasImageElement | CanvasTextElement | CanvasPathElement | CanvasShapeElement;
+
+export interface CanvasGroup extends LayerCompositing {
   id:string;
   type: 'group';
   name: string;
   visible: boolean;
-  expanded: boolean;
   parentId?: string;
+  /**
+   * Hides this layer and clips the sibling layers beneath it, down to the next
+   * mask, to its outline. A group clips to the outlines of its shapes.
+   */
+  clippingMask?: boolean;
+}
+
+/**
+ * A fixed-size frame. Its descendants are clipped to it on the canvas, and
+ * it exports at exactly `width`×`height` pixels.
+ */
+export interface CanvasArtboard {
+  id: string;
+  type: 'artboard';
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Any CSS color, or 'transparent'. */
+  background: string;
+  visible: boolean;
+  parentId?: string;
+}
+
+export interface ArtboardPreset {
+  label: string;
+  width: number;
+  height: number;
 }
 
-export type Layer = CanvasElement | CanvasGroup;
+export type Layer = CanvasElement | CanvasGroup | CanvasArtboard;
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'svg' | 'pdf';
+
+/** `canvas` is everything visible, `view` what is on screen. */
+export type ExportArea = 'canvas' | 'view' | 'selection' | 'group';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** 0-1, for JPEG, WebP and the image inside a PDF. */
+  quality: number;
+  /** Output pixels per canvas pixel. */
+  scale: number;
+  area: ExportArea;
+  /** The group exported when `area` is 'group'. */
+  groupId?: string;
+  /** A CSS color, or null for transparent where the format allows it. */
+  background: string | null;
+}
+
+/** True for layers drawn on the canvas, as opposed to groups and artboards that hold them. */
+export const isCanvasElement = (layer: Layer): layer is CanvasElement =>
+  layer.type !== 'group' && layer.type !== 'artboard';
 
 export enum Tool {
   Select = 'select',
   Draw = 'draw',
   Text = 'text',
+  Shape = 'shape',
+  GenerativeFill = 'generative-fill',
+  Outpaint = 'outpaint',
+}
+
+export type MaskMode = 'brush' | 'lasso';
+
+export interface OutpaintExtension {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface MaskPath {
+  mode: MaskMode;
+  points: { x: number; y: number }[];
+  brushSize: number;
+}
+
+export type AspectRatio = '1:1' | '4:3' | '3:4' | '16:9' | '9:16';
+
+/** Where a generated image goes relative to the bounding box of its references. */
+export type GenerationPlacement = 'beside' | 'on-top';
+
+export interface GenerationOptions {
+  /** Requested output shape; when omitted the model picks one. */
+  aspectRatio?: AspectRatio;
+  /** How many candidates to request for one prompt. Defaults to 1. */
+  variantCount?: number;
+  /** Defaults to 'beside'. Ignored when there are no references. */
+  placement?: GenerationPlacement;
 }
 
 export interface ChatMessage {
@@ -69,8 +365,30 @@ export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
   images?: string[];
+  /** For generations: the layer the chosen variant was placed into. */
+  placedLayerId?: string;
+  /** Index into `images` of the variant currently shown in `placedLayerId`. */
+  selectedVariant?: number;
+  /**
+   * For generations: the lineage of the generated layer, given again to a
+   * variant placed after that layer is gone.
+   */
+  provenance?: ProvenanceStep[];
+  sourceLayerIds?: string[];
+}
+
+/** Maps canvas coordinates to the screen: `screen = canvas * zoom + (x, y)`. */
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
 }
 
 export interface CanvasAreaHandle {
+  /** The strokes on the drawing layer, rasterized. Used as a sketch for generation. */
   getDrawingAsElement: () => Omit<CanvasImageElement, 'visible' | 'name' | 'parentId'> | null;
+  getDrawingAsPath: () => Omit<CanvasPathElement, 'visible' | 'name' | 'parentId'> | null;
+  /** Replaces the drawing layer's strokes, given in canvas coordinates. */
+  loadDrawing: (strokes: VectorStroke[]) => void;
+  getMaskPaths: () => MaskPath[];
 }
\ No newline at end of file
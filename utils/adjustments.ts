@@ -0,0 +1,210 @@
+import type { ImageAdjustment, LevelsSettings } from '../types';
+import { loadImage } from './imageUtils';
+import { fnv1a } from './hash';
+
+export const DEFAULT_LEVELS: LevelsSettings = { black: 0, white: 255, gamma: 1 };
+
+const getActiveAdjustments = (adjustments: ImageAdjustment[] | undefined) =>
+  (adjustments ?? []).filter(a => a.enabled);
+
+export const hasActiveAdjustments = (adjustments?: ImageAdjustment[]) =>
+  getActiveAdjustments(adjustments).length > 0;
+
+// Rec. 709 luma, the same weights CSS filters use.
+const LUMA_R = 0.2126, LUMA_G = 0.7152, LUMA_B = 0.0722;
+
+// `data` is unpremultiplied RGBA, as returned by getImageData. Writes are
+// rounded and clamped by the Uint8ClampedArray.
+const mapChannels = (data: Uint8ClampedArray, map: (value: number) => number) => {
+  const lut = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) lut[v] = map(v);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lut[data[i]];
+    data[i + 1] = lut[data[i + 1]];
+    data[i + 2] = lut[data[i + 2]];
+  }
+};
+
+// `keep` is 1 for the original colors and 0 for gray; above 1 oversaturates.
+const mixWithGray = (data: Uint8ClampedArray, keep: number) => {
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    const gray = r * LUMA_R + g * LUMA_G + b * LUMA_B;
+    data[i] = gray + (r - gray) * keep;
+    data[i + 1] = gray + (g - gray) * keep;
+    data[i + 2] = gray + (b - gray) * keep;
+  }
+};
+
+// The matrix of the CSS hue-rotate() filter.
+const rotateHue = (data: Uint8ClampedArray, degrees: number) => {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  const m = [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.14, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+  ];
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    data[i] = r * m[0] + g * m[1] + b * m[2];
+    data[i + 1] = r * m[3] + g * m[4] + b * m[5];
+    data[i + 2] = r * m[6] + g * m[7] + b * m[8];
+  }
+};
+
+const boxBlurPass = (src: Float32Array, dst: Float32Array, width: number, height: number, radius: number, horizontal: boolean) => {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const step = horizontal ? 4 : width * 4;
+  const size = radius * 2 + 1;
+  for (let line = 0; line < lines; line++) {
+    const start = horizontal ? line * width * 4 : line * 4;
+    for (let c = 0; c < 4; c++) {
+      // Edge pixels are repeated so the borders don't fade out.
+      const at = (i: number) => src[start + Math.min(length - 1, Math.max(0, i)) * step + c];
+      let sum = 0;
+      for (let i = -radius; i <= radius; i++) sum += at(i);
+      for (let i = 0; i < length; i++) {
+        dst[start + i * step + c] = sum / size;
+        sum += at(i + radius + 1) - at(i - radius);
+      }
+    }
+  }
+};
+
+/** Approximates a Gaussian with three box blurs. `radius` is in image pixels. */
+const blur = (data: Uint8ClampedArray, width: number, height: number, radius: number) => {
+  const boxRadius = Math.round((Math.sqrt(radius * radius + 1) - 1) / 2);
+  if (boxRadius < 1) return;
+
+  // Premultiplied, so transparent pixels don't bleed their color into the edges.
+  let a = new Float32Array(data.length);
+  let b = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    a[i] = data[i] * alpha;
+    a[i + 1] = data[i + 1] * alpha;
+    a[i + 2] = data[i + 2] * alpha;
+    a[i + 3] = data[i + 3];
+  }
+  for (let pass = 0; pass < 3; pass++) {
+    boxBlurPass(a, b, width, height, boxRadius, true);
+    boxBlurPass(b, a, width, height, boxRadius, false);
+  }
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = a[i + 3];
+    data[i + 3] = alpha;
+    if (alpha === 0) continue;
+    data[i] = (a[i] * 255) / alpha;
+    data[i + 1] = (a[i + 1] * 255) / alpha;
+    data[i + 2] = (a[i + 2] * 255) / alpha;
+  }
+};
+
+// Unsharp mask: pushes each pixel away from a slightly blurred copy.
+const sharpen = (data: Uint8ClampedArray, width: number, height: number, amount: number) => {
+  const blurred = new Uint8ClampedArray(data);
+  blur(blurred, width, height, 3);
+  const strength = amount / 50;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] += (data[i] - blurred[i]) * strength;
+    data[i + 1] += (data[i + 1] - blurred[i + 1]) * strength;
+    data[i + 2] += (data[i + 2] - blurred[i + 2]) * strength;
+  }
+};
+
+const applyAdjustment = (data: Uint8ClampedArray, width: number, height: number, adjustment: ImageAdjustment) => {
+  const { amount } = adjustment;
+  switch (adjustment.type) {
+    case 'brightness':
+      mapChannels(data, v => v + (amount / 100) * 255);
+      break;
+    case 'contrast': {
+      const c = amount * 2.55;
+      const factor = (259 * (c + 255)) / (255 * (259 - c));
+      mapChannels(data, v => factor * (v - 128) + 128);
+      break;
+    }
+    case 'saturation':
+      mixWithGray(data, 1 + amount / 100);
+      break;
+    case 'hue':
+      rotateHue(data, amount);
+      break;
+    case 'grayscale':
+      mixWithGray(data, 1 - amount / 100);
+      break;
+    case 'blur':
+      blur(data, width, height, amount);
+      break;
+    case 'sharpen':
+      sharpen(data, width, height, amount);
+      break;
+    case 'levels': {
+      const { black, white, gamma } = adjustment.levels ?? DEFAULT_LEVELS;
+      const range = Math.max(1, white - black);
+      mapChannels(data, v => Math.pow(Math.min(1, Math.max(0, (v - black) / range)), 1 / gamma) * 255);
+      break;
+    }
+  }
+};
+
+/** Runs an image through the enabled adjustments, at the image's own resolution. */
+export const renderAdjustments = (img: HTMLImageElement, adjustments: ImageAdjustment[]): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not create a 2D canvas context.');
+  ctx.drawImage(img, 0, 0);
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  getActiveAdjustments(adjustments).forEach(adjustment =>
+    applyAdjustment(imageData.data, canvas.width, canvas.height, adjustment)
+  );
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+interface CacheEntry {
+  promise: Promise<string>;
+  value?: string;
+}
+
+// Recent results, oldest first, so undo and redraws don't redo the work.
+const cache = new Map<string, CacheEntry>();
+const CACHE_SIZE = 32;
+
+const getCacheKey = (src: string, adjustments: ImageAdjustment[]) =>
+  `${fnv1a(src)}:${src.length}:${JSON.stringify(adjustments.map(({ type, amount, levels }) => [type, amount, levels]))}`;
+
+/**
+ * The adjusted image as a data URL, or `src` itself when nothing is enabled.
+ * The canvas and the export both draw from this, so they can't drift apart.
+ */
+export const getAdjustedSrc = (src: string, adjustments?: ImageAdjustment[]): Promise<string> => {
+  const active = getActiveAdjustments(adjustments);
+  if (active.length === 0) return Promise.resolve(src);
+
+  const key = getCacheKey(src, active);
+  let entry = cache.get(key);
+  if (entry) {
+    cache.delete(key);
+  } else {
+    const promise = loadImage(src).then(img => renderAdjustments(img, active).toDataURL('image/png'));
+    const created: CacheEntry = { promise };
+    promise.then(value => { created.value = value; }, () => cache.delete(key));
+    entry = created;
+  }
+  cache.set(key, entry);
+  if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+  return entry.promise;
+};
+
+/** The adjusted image if it has already been rendered, without waiting. */
+export const peekAdjustedSrc = (src: string, adjustments?: ImageAdjustment[]): string | undefined => {
+  const active = getActiveAdjustments(adjustments);
+  if (active.length === 0) return src;
+  return cache.get(getCacheKey(src, active))?.value;
+};
@@ -0,0 +1,102 @@
+import type { CanvasElement, CanvasGroup, CanvasShapeElement, Layer } from '../types';
+import { getShapePaths } from './shapes';
+
+export interface ClipMask {
+  id: string;
+  /** Closed shapes whose combined outlines make up the clip. */
+  shapes: CanvasShapeElement[];
+}
+
+/** An element with the mask that clips it among its siblings, if any. */
+export type ClippedElement = CanvasElement & { clipMask?: ClipMask };
+
+export const isClippingMask = (layer: Layer): layer is CanvasShapeElement | CanvasGroup =>
+  (layer.type === 'shape' || layer.type === 'group') && !!layer.clippingMask && layer.visible;
+
+/**
+ * Answers which masks clip which layers. A mask clips its siblings beneath
+ * it, down to the next mask; artboards are never clipped.
+ */
+export const createClipResolver = (layers: Layer[]) => {
+  const layersById = new Map(layers.map(l => [l.id, l]));
+  const maskAbove = new Map<string, string>();
+  const currentMask = new Map<string | undefined, string>();
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const layer = layers[i];
+    if (isClippingMask(layer)) {
+      currentMask.set(layer.parentId, layer.id);
+      continue;
+    }
+    const maskId = currentMask.get(layer.parentId);
+    if (maskId && layer.type !== 'artboard') maskAbove.set(layer.id, maskId);
+  }
+
+  const getParent = (layer: Layer) => (layer.parentId ? layersById.get(layer.parentId) : undefined);
+
+  /** The id of the mask clipping `layer` among its siblings. Its groups' masks clip it through them. */
+  const getMaskId = (layer: Layer): string | undefined => maskAbove.get(layer.id);
+
+  /** Masks aren't drawn; this is true for a mask and everything inside one. */
+  const isMaskContent = (layer: Layer) => {
+    for (let node: Layer | undefined = layer; node; node = getParent(node)) {
+      if (isClippingMask(node)) return true;
+    }
+    return false;
+  };
+
+  const getMask = (maskId: string): ClipMask => {
+    const mask = layersById.get(maskId);
+    const shapes: CanvasShapeElement[] = [];
+    const collect = (layer: Layer) => {
+      if (!layer.visible) return;
+      if (layer.type === 'shape') {
+        if (getShapePaths(layer).closed) shapes.push(layer);
+      } else if (layer.type === 'group') {
+        layers.forEach(child => child.parentId === layer.id && collect(child));
+      }
+    };
+    if (mask) collect(mask);
+    return { id: maskId, shapes };
+  };
+
+  return { getMaskId, isMaskContent, getMask };
+};
+
+export type ClipRun<T> = { type: 'clip'; maskId: string; items: T[] } | { type: 'item'; item: T };
+
+/**
+ * Splits a bottom-first list of siblings into single items and runs of
+ * consecutive items under the same mask. The canvas, raster export and SVG
+ * export all group their clipped containers this way.
+ */
+export const splitClipRuns = <T>(items: T[], getMaskId: (item: T) => string | undefined): ClipRun<T>[] => {
+  const runs: ClipRun<T>[] = [];
+  for (let i = 0; i < items.length; i++) {
+    const maskId = getMaskId(items[i]);
+    if (!maskId) {
+      runs.push({ type: 'item', item: items[i] });
+      continue;
+    }
+    let end = i + 1;
+    while (end < items.length && getMaskId(items[end]) === maskId) end++;
+    runs.push({ type: 'clip', maskId, items: items.slice(i, end) });
+    i = end - 1;
+  }
+  return runs;
+};
+
+/** The transform that places a shape's own path data on the canvas. Matches the element's CSS. */
+export const getShapeTransform = (shape: CanvasShapeElement) =>
+  `rotate(${shape.rotation} ${shape.x + shape.width / 2} ${shape.y + shape.height / 2}) translate(${shape.x} ${shape.y})`;
+
+/** Fills the mask's shapes onto `ctx`, which must already be in canvas coordinates. */
+export const fillClipMask = (ctx: CanvasRenderingContext2D, mask: ClipMask) => {
+  mask.shapes.forEach(shape => {
+    ctx.save();
+    ctx.translate(shape.x + shape.width / 2, shape.y + shape.height / 2);
+    ctx.rotate((shape.rotation * Math.PI) / 180);
+    ctx.translate(-shape.width / 2, -shape.height / 2);
+    ctx.fill(new Path2D(getShapePaths(shape).outline));
+    ctx.restore();
+  });
+};
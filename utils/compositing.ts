@@ -0,0 +1,9 @@
+import type { BlendMode } from '../types';
+
+// A group's opacity and blend mode apply to the group as a whole, once its
+// children are composited together, never to each child. The canvas wraps
+// the children in one element, the scene renderer draws them on one layer
+// and the SVG export puts them in one <g>.
+
+export const toCompositeOperation = (blendMode: BlendMode): GlobalCompositeOperation =>
+  blendMode === 'normal' ? 'source-over' : blendMode;
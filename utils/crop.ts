@@ -0,0 +1,104 @@
+import type { CanvasImageElement, CropRect } from '../types';
+import type { Bounds, Point } from './geometry';
+import { loadImage } from './imageUtils';
+
+type CroppableElement = Pick<CanvasImageElement, 'x' | 'y' | 'width' | 'height' | 'rotation' | 'crop'>;
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+const rotate = ({ x, y }: Point, degrees: number): Point => {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  return { x: x * cos - y * sin, y: x * sin + y * cos };
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** The box the whole image would fill. It shares the element's rotation. */
+export const getUncroppedBox = (el: CroppableElement): Bounds & { rotation: number } => {
+  const crop = el.crop ?? FULL_CROP;
+  const width = el.width / crop.width;
+  const height = el.height / crop.height;
+  // From the element's center to the image's center, along the element's rotated axes.
+  const offset = rotate({ x: width * (0.5 - crop.x) - el.width / 2, y: height * (0.5 - crop.y) - el.height / 2 }, el.rotation);
+  return {
+    x: el.x + el.width / 2 + offset.x - width / 2,
+    y: el.y + el.height / 2 + offset.y - height / 2,
+    width,
+    height,
+    rotation: el.rotation,
+  };
+};
+
+/** The crop that makes `box` show the same image in the same place. May reach past the image. */
+export const getCropAt = (el: CroppableElement, box: Bounds): CropRect => {
+  const frame = getUncroppedBox(el);
+  const width = box.width / frame.width;
+  const height = box.height / frame.height;
+  const center = rotate({
+    x: box.x + box.width / 2 - (frame.x + frame.width / 2),
+    y: box.y + box.height / 2 - (frame.y + frame.height / 2),
+  }, -el.rotation);
+  return {
+    x: center.x / frame.width + 0.5 - width / 2,
+    y: center.y / frame.height + 0.5 - height / 2,
+    width,
+    height,
+  };
+};
+
+/**
+ * Re-crops an image to a moved or resized box, keeping the image itself in
+ * place. The crop is kept inside the image, and the box adjusted to match.
+ */
+export const cropToBox = (el: CroppableElement, box: Bounds): Pick<CanvasImageElement, 'x' | 'y' | 'width' | 'height' | 'crop'> => {
+  const frame = getUncroppedBox(el);
+  const unclamped = getCropAt(el, box);
+  const width = clamp(unclamped.width, 1 / frame.width, 1);
+  const height = clamp(unclamped.height, 1 / frame.height, 1);
+  const crop = {
+    x: clamp(unclamped.x, 0, 1 - width),
+    y: clamp(unclamped.y, 0, 1 - height),
+    width,
+    height,
+  };
+  const center = rotate({ x: frame.width * (crop.x + width / 2 - 0.5), y: frame.height * (crop.y + height / 2 - 0.5) }, el.rotation);
+  const boxWidth = width * frame.width;
+  const boxHeight = height * frame.height;
+  return {
+    x: frame.x + frame.width / 2 + center.x - boxWidth / 2,
+    y: frame.y + frame.height / 2 + center.y - boxHeight / 2,
+    width: boxWidth,
+    height: boxHeight,
+    crop,
+  };
+};
+
+/** Where the whole image sits inside the element's box, as CSS percentages. */
+export const getCropImageStyle = (crop: CropRect = FULL_CROP) => ({
+  left: `${(-crop.x / crop.width) * 100}%`,
+  top: `${(-crop.y / crop.height) * 100}%`,
+  width: `${100 / crop.width}%`,
+  height: `${100 / crop.height}%`,
+});
+
+/** The crop in the image's own pixels, as `drawImage` source arguments. */
+export const getCropSourceRect = (crop: CropRect = FULL_CROP, naturalWidth: number, naturalHeight: number) => ({
+  sx: crop.x * naturalWidth,
+  sy: crop.y * naturalHeight,
+  sw: crop.width * naturalWidth,
+  sh: crop.height * naturalHeight,
+});
+
+/** Just the visible part of an image, for tools that work on what's shown. */
+export const cropImage = async (img: HTMLImageElement, crop?: CropRect): Promise<HTMLImageElement> => {
+  if (!crop) return img;
+  const { sx, sy, sw, sh } = getCropSourceRect(crop, img.naturalWidth, img.naturalHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sw));
+  canvas.height = Math.max(1, Math.round(sh));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a 2D canvas context.');
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  return loadImage(canvas.toDataURL('image/png'));
+};
@@ -0,0 +1,18 @@
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error(`Could not encode the image as ${type}.`))), type, quality);
+  });
+
+export const downloadDataUrl = (dataUrl: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = dataUrl;
+  link.click();
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadDataUrl(url, fileName);
+  // The download has started by now; the URL only needs to outlive the click.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,75 @@
+import type { CustomFont } from '../types';
+
+/** Tailwind's sans stack, which the canvas used to inherit from the page. */
+export const DEFAULT_FONT_FAMILY = 'ui-sans-serif, system-ui, sans-serif, "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol", "Noto Color Emoji"';
+
+/** Fonts offered without uploading anything, as CSS font-family lists. */
+export const SYSTEM_FONTS: { label: string; value: string }[] = [
+  { label: 'Sans Serif', value: DEFAULT_FONT_FAMILY },
+  { label: 'Serif', value: 'ui-serif, Georgia, Cambria, "Times New Roman", Times, serif' },
+  { label: 'Monospace', value: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace' },
+  { label: 'Arial', value: 'Arial, Helvetica, sans-serif' },
+  { label: 'Helvetica', value: 'Helvetica, Arial, sans-serif' },
+  { label: 'Verdana', value: 'Verdana, Geneva, sans-serif' },
+  { label: 'Trebuchet MS', value: '"Trebuchet MS", Helvetica, sans-serif' },
+  { label: 'Georgia', value: 'Georgia, serif' },
+  { label: 'Times New Roman', value: '"Times New Roman", Times, serif' },
+  { label: 'Courier New', value: '"Courier New", Courier, monospace' },
+  { label: 'Impact', value: 'Impact, Haettenschweiler, sans-serif' },
+  { label: 'Comic Sans MS', value: '"Comic Sans MS", "Comic Sans", cursive' },
+];
+
+/** The font-family list for an uploaded font, falling back to the default stack while it loads. */
+export const getCustomFontFamily = (font: Pick<CustomFont, 'family'>) => `"${font.family}", ${DEFAULT_FONT_FAMILY}`;
+
+// By family, with the file each family was loaded from.
+const registered = new Map<string, { src: string; loading: Promise<FontFace> }>();
+
+/**
+ * Makes an uploaded font available to the page and to canvases. Safe to call
+ * repeatedly; a different file under a registered family replaces its face.
+ */
+export const registerFont = async (font: CustomFont): Promise<void> => {
+  let entry = registered.get(font.family);
+  if (entry?.src !== font.src) {
+    entry?.loading.then(face => document.fonts.delete(face), () => {});
+    const loading = new FontFace(font.family, `url(${font.src})`).load().then(loaded => {
+      document.fonts.add(loaded);
+      return loaded;
+    });
+    entry = { src: font.src, loading };
+    // A failed font can be retried, e.g. after reopening the project.
+    loading.catch(() => {
+      if (registered.get(font.family)?.loading === loading) registered.delete(font.family);
+    });
+    registered.set(font.family, entry);
+  }
+  await entry.loading;
+};
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/** Reads an uploaded font file, named after the file. Throws if the browser can't use it. */
+export const readFontFile = async (file: File): Promise<CustomFont> => {
+  const family = file.name.replace(/\.[^.]+$/, '').trim() || 'Custom Font';
+  try {
+    await new FontFace(family, await file.arrayBuffer()).load();
+  } catch {
+    throw new Error(`${file.name} is not a font file this browser can read.`);
+  }
+  return { family, src: await readAsDataUrl(file) };
+};
+
+/**
+ * Waits for the fonts in `fonts` (CSS `font` shorthands) to be ready, so
+ * canvases don't draw with a fallback while they load.
+ */
+export const loadFonts = async (fonts: Iterable<string>) => {
+  await Promise.all([...new Set(fonts)].map(font => document.fonts.load(font).catch(() => [])));
+};
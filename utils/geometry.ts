@@ -0,0 +1,98 @@
+import type { Viewport } from '../types';
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type RotatedBox = Bounds & { rotation: number };
+
+// Axis-aligned bounds of a box rotated around its center.
+export const getRotatedBounds = ({ x, y, width, height, rotation }: RotatedBox): Bounds => {
+  const angle = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  const rotatedWidth = width * cos + height * sin;
+  const rotatedHeight = width * sin + height * cos;
+  return {
+    x: x + (width - rotatedWidth) / 2,
+    y: y + (height - rotatedHeight) / 2,
+    width: rotatedWidth,
+    height: rotatedHeight,
+  };
+};
+
+export const getCombinedBounds = (boxes: RotatedBox[]): Bounds | null => {
+  if (boxes.length === 0) return null;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  boxes.map(getRotatedBounds).forEach(b => {
+    minX = Math.min(minX, b.x);
+    minY = Math.min(minY, b.y);
+    maxX = Math.max(maxX, b.x + b.width);
+    maxY = Math.max(maxY, b.y + b.height);
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// Scales a size down (never up) so that its longest side is at most `max`.
+export const fitSize = (width: number, height: number, max: number) => {
+  const scale = Math.min(1, max / Math.max(width, height));
+  return { width: width * scale, height: height * scale };
+};
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// A point on screen is `canvas * zoom + offset`, relative to the canvas container.
+export const screenToCanvas = ({ x, y }: Point, viewport: Viewport): Point => ({
+  x: (x - viewport.x) / viewport.zoom,
+  y: (y - viewport.y) / viewport.zoom,
+});
+
+export const canvasToScreen = ({ x, y }: Point, viewport: Viewport): Point => ({
+  x: x * viewport.zoom + viewport.x,
+  y: y * viewport.zoom + viewport.y,
+});
+
+// Changes the zoom while keeping the canvas point under `anchor` (in screen
+// coordinates) in place, like zooming towards the mouse.
+export const zoomAtPoint = (viewport: Viewport, zoom: number, anchor: Point): Viewport => {
+  const nextZoom = clampZoom(zoom);
+  const canvasPoint = screenToCanvas(anchor, viewport);
+  return {
+    x: anchor.x - canvasPoint.x * nextZoom,
+    y: anchor.y - canvasPoint.y * nextZoom,
+    zoom: nextZoom,
+  };
+};
+
+/** The viewport that centers `bounds` on a `width`×`height` screen, zoomed to fit with some padding. */
+export const fitBoundsInViewport = (bounds: Bounds, width: number, height: number, maxZoom = 1, padding = 48): Viewport => {
+  const zoom = clampZoom(Math.min(
+    maxZoom,
+    (width - padding * 2) / Math.max(bounds.width, 1),
+    (height - padding * 2) / Math.max(bounds.height, 1)
+  ));
+  return {
+    x: width / 2 - (bounds.x + bounds.width / 2) * zoom,
+    y: height / 2 - (bounds.y + bounds.height / 2) * zoom,
+    zoom,
+  };
+};
+
+/** The part of the canvas visible on a `width`×`height` screen. */
+export const getVisibleBounds = (viewport: Viewport, width: number, height: number): Bounds => ({
+  x: -viewport.x / viewport.zoom,
+  y: -viewport.y / viewport.zoom,
+  width: width / viewport.zoom,
+  height: height / viewport.zoom,
+});
@@ -0,0 +1,9 @@
+// FNV-1a. Not cryptographic; used for deduplication and deterministic seeds.
+export const fnv1a = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import type { CanvasArtboard, Layer } from '../types';
+import {
+  applyPatch,
+  createHistory,
+  diffLayers,
+  getHistoryPath,
+  jumpToHistory,
+  recordChange,
+  redoHistory,
+  setSnapshotName,
+  undoHistory,
+} from './history';
+import type { HistoryState } from './history';
+
+const frame = (id: string, props: Partial<CanvasArtboard> = {}): CanvasArtboard => ({
+  id, type: 'artboard', name: id, x: 0, y: 0, width: 100, height: 100, background: '#ffffff', visible: true,
+  ...props,
+});
+
+const move = (layers: Layer[], id: string, x: number): Layer[] =>
+  layers.map(l => l.id === id ? { ...l, x } as Layer : l);
+
+const ids = (layers: Layer[]) => layers.map(l => l.id);
+
+// Well apart, so edits at these times never coalesce.
+const SECONDS = 10_000;
+
+describe('diffLayers and applyPatch', () => {
+  it('redoes and undoes edits, additions, deletions and reordering', () => {
+    const prev = [frame('a'), frame('b'), frame('c')];
+    const next = [frame('d'), frame('b', { x: 40 }), frame('a')];
+    const patch = diffLayers(prev, next)!;
+
+    expect(applyPatch(prev, patch, 'redo')).toEqual(next);
+    expect(applyPatch(next, patch, 'undo')).toEqual(prev);
+  });
+
+  it('finds no change when layers are recreated with the same fields', () => {
+    const prev = [frame('a'), frame('b')];
+    expect(diffLayers(prev, prev.map(l => ({ ...l })))).toBeNull();
+  });
+});
+
+describe('recordChange', () => {
+  const start = [frame('a')];
+
+  it('merges edits with the same key that arrive close together', () => {
+    let state = createHistory(start);
+    state = recordChange(state, move(state.present, 'a', 10), {}, 0);
+    state = recordChange(state, move(state.present, 'a', 20), {}, 500);
+
+    const step = state.nodes[state.currentId];
+    expect(getHistoryPath(state, state.currentId)).toHaveLength(2);
+    expect(step.label).toBe('Move a');
+    expect(undoHistory(state).present).toEqual(start);
+  });
+
+  it('starts a new step after the coalescing window or an undo', () => {
+    let state = createHistory(start);
+    state = recordChange(state, move(state.present, 'a', 10), {}, 0);
+    state = recordChange(state, move(state.present, 'a', 20), {}, SECONDS);
+    expect(getHistoryPath(state, state.currentId)).toHaveLength(3);
+
+    state = undoHistory(state);
+    state = recordChange(state, move(state.present, 'a', 30), {}, SECONDS + 1);
+    expect(state.nodes[state.currentId].parentId).not.toBe(state.rootId);
+    expect(undoHistory(state).present).toEqual(move(start, 'a', 10));
+  });
+
+  it('drops a step whose edits cancel out', () => {
+    let state = createHistory(start);
+    state = recordChange(state, move(state.present, 'a', 10), {}, 0);
+    state = recordChange(state, start, {}, 100);
+
+    expect(state.currentId).toBe(state.rootId);
+    expect(Object.keys(state.nodes)).toEqual([state.rootId]);
+  });
+});
+
+describe('history limits', () => {
+  const record = (state: HistoryState, x: number, time: number) =>
+    recordChange(state, move(state.present, 'a', x), {}, time);
+
+  it('drops the oldest steps once there are too many', () => {
+    let state = createHistory([frame('a')], { maxSteps: 2 });
+    for (let i = 1; i <= 4; i++) state = record(state, i * 10, i * SECONDS);
+
+    expect(Object.keys(state.nodes)).toHaveLength(3);
+    while (state.currentId !== state.rootId) state = undoHistory(state);
+    expect(state.present).toEqual(move([frame('a')], 'a', 20));
+  });
+
+  it('drops abandoned branches before the current line', () => {
+    let state = createHistory([frame('a')], { maxSteps: 2 });
+    state = record(state, 10, SECONDS);
+    const abandoned = state.currentId;
+    state = undoHistory(state);
+    state = record(state, 20, 2 * SECONDS);
+    state = record(state, 30, 3 * SECONDS);
+
+    expect(state.nodes[abandoned]).toBeUndefined();
+    expect(state.nodes[state.rootId].childIds).toHaveLength(1);
+  });
+
+  it('keeps named snapshots and the steps leading to them', () => {
+    let state = createHistory([frame('a')], { maxSteps: 2 });
+    state = record(state, 10, SECONDS);
+    const snapshot = state.currentId;
+    state = setSnapshotName(state, snapshot, 'Before the rest');
+    state = undoHistory(state);
+    state = record(state, 20, 2 * SECONDS);
+    state = record(state, 30, 3 * SECONDS);
+
+    expect(state.nodes[snapshot].snapshotName).toBe('Before the rest');
+    expect(jumpToHistory(state, snapshot).present).toEqual(move([frame('a')], 'a', 10));
+  });
+});
+
+describe('branches', () => {
+  it('starts a branch when editing after an undo, and jumps between branches', () => {
+    let state = createHistory([frame('a')]);
+    state = recordChange(state, move(state.present, 'a', 10), {}, SECONDS);
+    const first = state.currentId;
+    state = undoHistory(state);
+    state = recordChange(state, [...state.present, frame('b')], {}, 2 * SECONDS);
+    const second = state.currentId;
+
+    expect(state.nodes[state.rootId].childIds).toEqual([first, second]);
+    expect(ids(state.present)).toEqual(['a', 'b']);
+
+    state = jumpToHistory(state, first);
+    expect(state.present).toEqual(move([frame('a')], 'a', 10));
+    // Redo follows the branch that was visited last.
+    state = redoHistory(undoHistory(state));
+    expect(state.currentId).toBe(first);
+
+    state = jumpToHistory(state, second);
+    expect(state.present).toEqual([frame('a'), frame('b')]);
+  });
+});
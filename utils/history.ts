@@ -0,0 +1,455 @@
+import type { Layer } from '../types';
+
+/** A layer before and after a change. A missing side means it was added or deleted. */
+export interface LayerChange {
+  id: string;
+  before?: Layer;
+  after?: Layer;
+}
+
+/** The difference between two versions of the layer list. */
+export interface LayersPatch {
+  changes: LayerChange[];
+  /** Layer ids bottom-first, as the layer list keeps them. Only recorded when the order or the set of layers changed. */
+  order?: { before: string[]; after: string[] };
+}
+
+/**
+ * One step in the history tree. Undoing a step and then making a new edit
+ * starts a sibling branch instead of discarding the undone steps.
+ */
+export interface HistoryNode {
+  id: string;
+  /** Null for the root, the state the history starts from. */
+  parentId: string | null;
+  childIds: string[];
+  /** The child redo steps into: the one created or visited last. */
+  activeChildId: string | null;
+  label: string;
+  /** Changes from the parent's state to this step's. Empty for the root. */
+  patch: LayersPatch;
+  /** Rough number of bytes the step keeps alive. */
+  size: number;
+  coalesceKey: string;
+  createdAt: number;
+  /** When the step was last extended by coalescing, in ms. */
+  updatedAt: number;
+  /** Set when the step is pinned as a named snapshot. */
+  snapshotName?: string;
+}
+
+export interface HistoryLimits {
+  /** Steps kept at most, across all branches. */
+  maxSteps: number;
+  /** Estimated memory the history may use before old steps are dropped. */
+  maxBytes: number;
+  /** Edits with the same key that arrive within this window become one step. */
+  coalesceWindowMs: number;
+}
+
+export const DEFAULT_HISTORY_LIMITS: HistoryLimits = {
+  maxSteps: 200,
+  maxBytes: 256 * 1024 * 1024,
+  coalesceWindowMs: 1000,
+};
+
+export interface HistoryState {
+  present: Layer[];
+  nodes: Record<string, HistoryNode>;
+  rootId: string;
+  currentId: string;
+  /** False right after undo, redo, jumps or reset, so the next edit starts a new step. */
+  canCoalesce: boolean;
+  limits: HistoryLimits;
+  /** Source of unique step ids. */
+  nextId: number;
+}
+
+export interface HistoryEntryOptions {
+  /** Shown in the undo/redo tooltips. Derived from the change when omitted. */
+  label?: string;
+  /** Consecutive edits with the same key are merged. Defaults to the label plus the changed layer ids. */
+  coalesceKey?: string;
+}
+
+// Strings shorter than this are ignored when estimating memory; image data dwarfs them.
+const LARGE_STRING_LENGTH = 1024;
+// A rough per-layer overhead for the object and its small fields.
+const LAYER_OVERHEAD_BYTES = 512;
+// Each stroke point of a path layer is an object with two numbers.
+const POINT_BYTES = 40;
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => value === b[i]);
+  }
+  return false;
+};
+
+// Layer types have no index signature, so their fields are compared by name.
+const getFields = (layer: Layer) => layer as unknown as Record<string, unknown>;
+
+// Updates create new layer objects even when nothing changed, so compare
+// field by field instead of serializing whole documents.
+const isSameLayer = (a: Layer, b: Layer): boolean => {
+  if (a === b) return true;
+  const fieldsA = getFields(a);
+  const fieldsB = getFields(b);
+  const keysA = Object.keys(fieldsA);
+  if (keysA.length !== Object.keys(fieldsB).length) return false;
+  return keysA.every(key => isSameValue(fieldsA[key], fieldsB[key]));
+};
+
+const isSameOrder = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+const getChangedKeys = (before: Layer, after: Layer): string[] => {
+  const fieldsBefore = getFields(before);
+  const fieldsAfter = getFields(after);
+  const keys = new Set([...Object.keys(fieldsBefore), ...Object.keys(fieldsAfter)]);
+  return [...keys].filter(key => !isSameValue(fieldsBefore[key], fieldsAfter[key]));
+};
+
+export const diffLayers = (prev: Layer[], next: Layer[]): LayersPatch | null => {
+  if (prev === next) return null;
+  const prevById = new Map(prev.map(l => [l.id, l]));
+  const nextIds = new Set<string>();
+  const changes: LayerChange[] = [];
+
+  for (const layer of next) {
+    nextIds.add(layer.id);
+    const before = prevById.get(layer.id);
+    if (!before || !isSameLayer(before, layer)) {
+      changes.push({ id: layer.id, before, after: layer });
+    }
+  }
+  for (const layer of prev) {
+    if (!nextIds.has(layer.id)) {
+      changes.push({ id: layer.id, before: layer });
+    }
+  }
+
+  const before = prev.map(l => l.id);
+  const after = next.map(l => l.id);
+  const sameOrder = isSameOrder(before, after);
+  if (changes.length === 0 && sameOrder) return null;
+  return sameOrder ? { changes } : { changes, order: { before, after } };
+};
+
+export const applyPatch = (layers: Layer[], patch: LayersPatch, direction: 'undo' | 'redo'): Layer[] => {
+  const byId = new Map(layers.map(l => [l.id, l]));
+  for (const change of patch.changes) {
+    const value = direction === 'redo' ? change.after : change.before;
+    if (value) {
+      byId.set(change.id, value);
+    } else {
+      byId.delete(change.id);
+    }
+  }
+  const order = patch.order
+    ? (direction === 'redo' ? patch.order.after : patch.order.before)
+    : layers.map(l => l.id);
+  return order.map(id => byId.get(id)).filter((l): l is Layer => l !== undefined);
+};
+
+/** Combines two consecutive patches into one that goes from the first's start to the second's end. */
+export const mergePatches = (first: LayersPatch, second: LayersPatch): LayersPatch | null => {
+  const changes = new Map(first.changes.map(c => [c.id, c]));
+  for (const change of second.changes) {
+    const existing = changes.get(change.id);
+    changes.set(change.id, existing ? { id: change.id, before: existing.before, after: change.after } : change);
+  }
+  const merged = [...changes.values()].filter(({ before, after }) =>
+    before ? !(after && isSameLayer(before, after)) : after !== undefined
+  );
+
+  const before = first.order?.before ?? second.order?.before;
+  const after = second.order?.after ?? first.order?.after;
+  const order = before && after && !isSameOrder(before, after) ? { before, after } : undefined;
+  if (merged.length === 0 && !order) return null;
+  return order ? { changes: merged, order } : { changes: merged };
+};
+
+const countLayers = (count: number, name: string) => count === 1 ? name : `${count} layers`;
+
+/** A short human label for a change, like "Move 3 layers" or "Delete Astronaut". */
+export const describePatch = (patch: LayersPatch): string => {
+  const added = patch.changes.filter(c => !c.before);
+  const removed = patch.changes.filter(c => !c.after);
+  const edited = patch.changes.filter(c => c.before && c.after);
+
+  if (added.length > 0 && removed.length === 0 && edited.length === 0) {
+    return `Add ${countLayers(added.length, added[0].after!.name)}`;
+  }
+  if (removed.length > 0 && added.length === 0 && edited.length === 0) {
+    return `Delete ${countLayers(removed.length, removed[0].before!.name)}`;
+  }
+  if (patch.changes.length === 0) return 'Reorder layers';
+  if (added.length > 0 || removed.length > 0) return 'Edit layers';
+
+  const keys = new Set(edited.flatMap(c => getChangedKeys(c.before!, c.after!)));
+  const only = (...allowed: string[]) => [...keys].every(key => allowed.includes(key));
+  const subject = countLayers(edited.length, edited[0].after!.name);
+
+  if (only('x', 'y')) return `Move ${subject}`;
+  if (keys.has('rotation') && only('rotation', 'x', 'y')) return `Rotate ${subject}`;
+  if (only('x', 'y', 'width', 'height', 'fontSize')) return `Resize ${subject}`;
+  if (only('name')) return `Rename ${subject}`;
+  if (only('visible')) return `${edited[0].after!.visible ? 'Show' : 'Hide'} ${subject}`;
+  if (only('content')) return `Edit text of ${subject}`;
+  if (only('parentId')) return 'Reorder layers';
+  return `Edit ${subject}`;
+};
+
+export const estimatePatchSize = (patch: LayersPatch): number => {
+  const seen = new Set<string>();
+  let size = 0;
+  const addString = (value: unknown) => {
+    if (typeof value !== 'string' || value.length < LARGE_STRING_LENGTH || seen.has(value)) return;
+    seen.add(value);
+    size += value.length * 2;
+  };
+  const addLayer = (layer: Layer | undefined) => {
+    if (!layer) return;
+    size += LAYER_OVERHEAD_BYTES;
+    Object.values(layer).forEach(addString);
+    if (layer.type === 'path') {
+      size += layer.strokes.reduce((sum, stroke) => sum + stroke.points.length * POINT_BYTES, 0);
+    }
+    if (layer.type === 'image') {
+      layer.provenance?.forEach(step => {
+        addString(step.inputSrc);
+        addString(step.maskSrc);
+      });
+    }
+  };
+  patch.changes.forEach(change => {
+    addLayer(change.before);
+    addLayer(change.after);
+  });
+  return size;
+};
+
+const EMPTY_PATCH: LayersPatch = { changes: [] };
+
+/** Step ids from the root down to `id`. */
+export const getHistoryPath = (state: HistoryState, id: string): string[] => {
+  const path: string[] = [];
+  for (let node: HistoryNode | undefined = state.nodes[id]; node; node = node.parentId ? state.nodes[node.parentId] : undefined) {
+    path.unshift(node.id);
+  }
+  return path;
+};
+
+/** The child redo would step into. */
+export const getRedoChild = (state: HistoryState, id = state.currentId): HistoryNode | undefined => {
+  const node = state.nodes[id];
+  const childId = node?.activeChildId ?? node?.childIds[node.childIds.length - 1];
+  return childId ? state.nodes[childId] : undefined;
+};
+
+const detachFromParent = (nodes: Record<string, HistoryNode>, node: HistoryNode) => {
+  if (!node.parentId) return;
+  const parent = nodes[node.parentId];
+  const childIds = parent.childIds.filter(id => id !== node.id);
+  nodes[parent.id] = {
+    ...parent,
+    childIds,
+    activeChildId: parent.activeChildId === node.id ? childIds[childIds.length - 1] ?? null : parent.activeChildId,
+  };
+};
+
+// Drops steps until the history fits its limits. Abandoned branches go
+// first, oldest first; after that the oldest steps on the current line, and
+// finally the redo steps ahead of the current one. Named snapshots, and the
+// steps leading to them, are never dropped: if only those are left, the
+// history goes over its limits instead.
+const enforceLimits = (state: HistoryState): HistoryState => {
+  const { limits } = state;
+  let count = Object.keys(state.nodes).length;
+  let total = Object.values(state.nodes).reduce((sum, node) => sum + node.size, 0);
+  if (count - 1 <= limits.maxSteps && total <= limits.maxBytes) return state;
+
+  const nodes = { ...state.nodes };
+  let rootId = state.rootId;
+  const isOverLimit = () => count - 1 > limits.maxSteps || total > limits.maxBytes;
+  const remove = (node: HistoryNode) => {
+    detachFromParent(nodes, node);
+    delete nodes[node.id];
+    count--;
+    total -= node.size;
+  };
+
+  const pinned = new Set(Object.values(nodes).filter(n => n.snapshotName).flatMap(n => getHistoryPath(state, n.id)));
+  const currentLine = new Set(getHistoryPath({ ...state, nodes }, state.currentId));
+  for (let child = getRedoChild(state); child; child = getRedoChild({ ...state, nodes }, child.id)) {
+    currentLine.add(child.id);
+  }
+
+  while (isOverLimit()) {
+    const leaves = Object.values(nodes).filter(n => n.childIds.length === 0 && !currentLine.has(n.id) && !pinned.has(n.id));
+    leaves.sort((a, b) => a.updatedAt - b.updatedAt);
+    if (leaves.length > 0) {
+      remove(leaves[0]);
+      continue;
+    }
+
+    if (rootId !== state.currentId && !pinned.has(rootId)) {
+      // Everything is on the current line, so the root's child on it becomes the new starting point.
+      const oldRoot = nodes[rootId];
+      const nextRootId = oldRoot.childIds.find(id => currentLine.has(id))!;
+      const nextRoot = nodes[nextRootId];
+      count--;
+      total -= oldRoot.size + nextRoot.size;
+      delete nodes[rootId];
+      nodes[nextRootId] = { ...nextRoot, parentId: null, patch: EMPTY_PATCH, size: 0 };
+      currentLine.delete(rootId);
+      rootId = nextRootId;
+      continue;
+    }
+
+    const lastRedo = Object.values(nodes).find(n => n.childIds.length === 0 && n.id !== state.currentId && !pinned.has(n.id));
+    if (!lastRedo) break;
+    remove(lastRedo);
+  }
+
+  return { ...state, nodes, rootId };
+};
+
+export const createHistory = (present: Layer[], limits: Partial<HistoryLimits> = {}): HistoryState => {
+  const now = Date.now();
+  const root: HistoryNode = {
+    id: 'step-0',
+    parentId: null,
+    childIds: [],
+    activeChildId: null,
+    label: 'Start',
+    patch: EMPTY_PATCH,
+    size: 0,
+    coalesceKey: '',
+    createdAt: now,
+    updatedAt: now,
+  };
+  return {
+    present,
+    nodes: { [root.id]: root },
+    rootId: root.id,
+    currentId: root.id,
+    canCoalesce: false,
+    limits: { ...DEFAULT_HISTORY_LIMITS, ...limits },
+    nextId: 1,
+  };
+};
+
+/** Records `next` as the new present. Returns `state` unchanged if nothing changed. */
+export const recordChange = (state: HistoryState, next: Layer[], options: HistoryEntryOptions, now: number): HistoryState => {
+  const patch = diffLayers(state.present, next);
+  if (!patch) return state;
+
+  const label = options.label ?? describePatch(patch);
+  const coalesceKey = options.coalesceKey ?? `${label}|${patch.changes.map(c => c.id).sort().join(',')}`;
+  const current = state.nodes[state.currentId];
+
+  // Never extend the root, a step with redo branches or a pinned snapshot.
+  if (
+    current.parentId && state.canCoalesce && current.childIds.length === 0 && !current.snapshotName &&
+    current.coalesceKey === coalesceKey && now - current.updatedAt <= state.limits.coalesceWindowMs
+  ) {
+    const merged = mergePatches(current.patch, patch);
+    const nodes = { ...state.nodes };
+    if (!merged) {
+      // The edits cancelled out, so the step disappears.
+      detachFromParent(nodes, current);
+      delete nodes[current.id];
+      return { ...state, present: next, nodes, currentId: current.parentId, canCoalesce: false };
+    }
+    nodes[current.id] = { ...current, patch: merged, size: estimatePatchSize(merged), updatedAt: now };
+    return enforceLimits({ ...state, present: next, nodes });
+  }
+
+  const node: HistoryNode = {
+    id: `step-${state.nextId}`,
+    parentId: current.id,
+    childIds: [],
+    activeChildId: null,
+    label,
+    patch,
+    size: estimatePatchSize(patch),
+    coalesceKey,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const nodes = {
+    ...state.nodes,
+    [current.id]: { ...current, childIds: [...current.childIds, node.id], activeChildId: node.id },
+    [node.id]: node,
+  };
+  return enforceLimits({
+    ...state,
+    present: next,
+    nodes,
+    currentId: node.id,
+    canCoalesce: true,
+    nextId: state.nextId + 1,
+  });
+};
+
+export const undoHistory = (state: HistoryState): HistoryState => {
+  const current = state.nodes[state.currentId];
+  if (!current.parentId) return state;
+  const parent = state.nodes[current.parentId];
+  return {
+    ...state,
+    present: applyPatch(state.present, current.patch, 'undo'),
+    nodes: { ...state.nodes, [parent.id]: { ...parent, activeChildId: current.id } },
+    currentId: parent.id,
+    canCoalesce: false,
+  };
+};
+
+export const redoHistory = (state: HistoryState): HistoryState => {
+  const child = getRedoChild(state);
+  if (!child) return state;
+  return {
+    ...state,
+    present: applyPatch(state.present, child.patch, 'redo'),
+    currentId: child.id,
+    canCoalesce: false,
+  };
+};
+
+/** Undoes up to the common ancestor, then redoes down to `targetId`, on any branch. */
+export const jumpToHistory = (state: HistoryState, targetId: string): HistoryState => {
+  if (!state.nodes[targetId] || targetId === state.currentId) return state;
+  const from = getHistoryPath(state, state.currentId);
+  const to = getHistoryPath(state, targetId);
+  let common = 0;
+  while (common < from.length && common < to.length && from[common] === to[common]) common++;
+
+  let present = state.present;
+  for (let i = from.length - 1; i >= common; i--) {
+    present = applyPatch(present, state.nodes[from[i]].patch, 'undo');
+  }
+  const nodes = { ...state.nodes };
+  for (let i = common; i < to.length; i++) {
+    const node = nodes[to[i]];
+    present = applyPatch(present, node.patch, 'redo');
+    // Make redo follow the branch that was jumped to.
+    const parent = nodes[node.parentId!];
+    nodes[parent.id] = { ...parent, activeChildId: node.id };
+  }
+  return { ...state, present, nodes, currentId: targetId, canCoalesce: false };
+};
+
+/** Pins a step as a named snapshot, or unpins it when `name` is empty. */
+export const setSnapshotName = (state: HistoryState, id: string, name: string | null): HistoryState => {
+  const node = state.nodes[id];
+  if (!node) return state;
+  const updated = { ...node };
+  if (name?.trim()) {
+    updated.snapshotName = name.trim();
+  } else {
+    delete updated.snapshotName;
+  }
+  return { ...state, nodes: { ...state.nodes, [id]: updated } };
+};
@@ -0,0 +1,164 @@
+import type { CanvasImageElement, MaskPath, OutpaintExtension } from '../types';
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous'; // For images from other domains
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+export const imageToDataUrl = (img: HTMLImageElement): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a 2D canvas context.');
+  ctx.drawImage(img, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+export const getMaskBounds = (paths: MaskPath[]) => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  paths.forEach(path => {
+    const pad = path.mode === 'brush' ? path.brushSize / 2 : 0;
+    path.points.forEach(point => {
+      minX = Math.min(minX, point.x - pad);
+      minY = Math.min(minY, point.y - pad);
+      maxX = Math.max(maxX, point.x + pad);
+      maxY = Math.max(maxY, point.y + pad);
+    });
+  });
+  if (minX === Infinity) return null;
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// Draws mask paths in a solid color onto a context. The caller is responsible for any
+// transform that maps canvas coordinates into the target space.
+export const traceMaskPaths = (ctx: CanvasRenderingContext2D, paths: MaskPath[], color: string) => {
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  paths.forEach(path => {
+    if (path.points.length === 0) return;
+    ctx.beginPath();
+    ctx.moveTo(path.points[0].x, path.points[0].y);
+    for (let i = 1; i < path.points.length; i++) {
+      ctx.lineTo(path.points[i].x, path.points[i].y);
+    }
+    if (path.mode === 'lasso') {
+      ctx.closePath();
+      ctx.fill();
+    } else {
+      ctx.lineWidth = path.brushSize;
+      // A single click still paints a dot.
+      if (path.points.length === 1) ctx.lineTo(path.points[0].x + 0.1, path.points[0].y);
+      ctx.stroke();
+    }
+  });
+};
+
+// Rasterizes canvas-space mask paths into a black/white PNG that matches the
+// natural pixel size of the image element, undoing its position, scale and rotation.
+export const createElementMask = (
+  paths: MaskPath[],
+  element: Pick<CanvasImageElement, 'x' | 'y' | 'width' | 'height' | 'rotation'>,
+  naturalWidth: number,
+  naturalHeight: number
+): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = naturalWidth;
+  canvas.height = naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a 2D canvas context.');
+
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, naturalWidth, naturalHeight);
+
+  ctx.scale(naturalWidth / element.width, naturalHeight / element.height);
+  ctx.translate(element.width / 2, element.height / 2);
+  ctx.rotate((-element.rotation * Math.PI) / 180);
+  ctx.translate(-(element.x + element.width / 2), -(element.y + element.height / 2));
+  traceMaskPaths(ctx, paths, '#ffffff');
+
+  return canvas.toDataURL('image/png');
+};
+
+// Pastes the masked part of `generatedSrc` over the original image so that
+// pixels outside the mask are guaranteed to stay untouched.
+export const compositeMaskedRegion = async (
+  original: HTMLImageElement,
+  generatedSrc: string,
+  maskSrc: string
+): Promise<string> => {
+  const [generated, mask] = await Promise.all([loadImage(generatedSrc), loadImage(maskSrc)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const patch = document.createElement('canvas');
+  patch.width = width;
+  patch.height = height;
+  const patchCtx = patch.getContext('2d');
+  if (!patchCtx) throw new Error('Could not create a 2D canvas context.');
+
+  // Turn the black/white mask into an alpha mask, then keep only the generated pixels inside it.
+  patchCtx.drawImage(mask, 0, 0, width, height);
+  const maskData = patchCtx.getImageData(0, 0, width, height);
+  for (let i = 0; i < maskData.data.length; i += 4) {
+    maskData.data[i + 3] = maskData.data[i];
+  }
+  patchCtx.putImageData(maskData, 0, 0);
+  patchCtx.globalCompositeOperation = 'source-in';
+  patchCtx.drawImage(generated, 0, 0, width, height);
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const ctx = output.getContext('2d');
+  if (!ctx) throw new Error('Could not create a 2D canvas context.');
+  ctx.drawImage(original, 0, 0);
+  ctx.drawImage(patch, 0, 0);
+
+  return output.toDataURL('image/png');
+};
+
+// Places the original image on a larger transparent canvas for outpainting and
+// builds the matching mask (white = new area). Extension values are in
+// on-canvas units and are scaled to the image's natural resolution.
+export const padImageForOutpaint = (
+  original: HTMLImageElement,
+  element: Pick<CanvasImageElement, 'width' | 'height'>,
+  extension: OutpaintExtension
+) => {
+  const scaleX = original.naturalWidth / element.width;
+  const scaleY = original.naturalHeight / element.height;
+  const offsetX = Math.round(extension.left * scaleX);
+  const offsetY = Math.round(extension.top * scaleY);
+  const width = offsetX + original.naturalWidth + Math.round(extension.right * scaleX);
+  const height = offsetY + original.naturalHeight + Math.round(extension.bottom * scaleY);
+
+  const imageCanvas = document.createElement('canvas');
+  imageCanvas.width = width;
+  imageCanvas.height = height;
+  const imageCtx = imageCanvas.getContext('2d');
+
+  const maskCanvas = document.createElement('canvas');
+  maskCanvas.width = width;
+  maskCanvas.height = height;
+  const maskCtx = maskCanvas.getContext('2d');
+  if (!imageCtx || !maskCtx) throw new Error('Could not create a 2D canvas context.');
+
+  imageCtx.drawImage(original, offsetX, offsetY);
+
+  maskCtx.fillStyle = '#ffffff';
+  maskCtx.fillRect(0, 0, width, height);
+  maskCtx.fillStyle = '#000000';
+  maskCtx.fillRect(offsetX, offsetY, original.naturalWidth, original.naturalHeight);
+
+  return {
+    image: imageCanvas.toDataURL('image/png'),
+    mask: maskCanvas.toDataURL('image/png'),
+  };
+};
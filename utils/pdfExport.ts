@@ -0,0 +1,77 @@
+// CSS pixels are 1/96 inch and PDF points 1/72.
+const POINTS_PER_PIXEL = 72 / 96;
+
+// The canvas's pixels as rows of RGB, each after a PNG "Up" filter byte:
+// the difference from the row above compresses far better than the pixels.
+// Alpha is dropped; PDF exports are drawn over a background.
+const toFilteredRows = ({ width, height, data }: ImageData) => {
+  const rowLength = width * 3 + 1;
+  const rows = new Uint8Array(height * rowLength);
+  for (let y = 0; y < height; y++) {
+    rows[y * rowLength] = 2;
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 3; c++) {
+        const i = (y * width + x) * 4 + c;
+        // Wraps around, as the filter expects.
+        rows[y * rowLength + 1 + x * 3 + c] = data[i] - (y > 0 ? data[i - width * 4] : 0);
+      }
+    }
+  }
+  return rows;
+};
+
+const deflate = async (bytes: Uint8Array) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer());
+
+/**
+ * A one-page PDF showing the canvas, compressed without loss. The page is
+ * `pageWidth`×`pageHeight` canvas pixels, so a higher-resolution canvas
+ * prints sharper at the same size.
+ */
+export const createImagePdf = async (canvas: HTMLCanvasElement, pageWidth: number, pageHeight: number): Promise<Blob> => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a 2D canvas context.');
+  const { width: imageWidth, height: imageHeight } = canvas;
+  const pixels = await deflate(toFilteredRows(ctx.getImageData(0, 0, imageWidth, imageHeight)));
+
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = () => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n`);
+  };
+
+  const width = (pageWidth * POINTS_PER_PIXEL).toFixed(2);
+  const height = (pageHeight * POINTS_PER_PIXEL).toFixed(2);
+  const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+
+  // The binary comment tells transfer tools not to treat the file as text.
+  write(new Uint8Array([...encoder.encode('%PDF-1.4\n%'), 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+  startObject();
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  startObject();
+  write('<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n');
+  startObject();
+  write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>\nendobj\n`);
+  startObject();
+  write(`<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode `
+    + `/DecodeParms << /Predictor 12 /Colors 3 /BitsPerComponent 8 /Columns ${imageWidth} >> /Length ${pixels.length} >>\nstream\n`);
+  write(pixels);
+  write('\nendstream\nendobj\n');
+  startObject();
+  write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
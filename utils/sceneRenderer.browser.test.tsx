@@ -0,0 +1,221 @@
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import { flushSync } from 'react-dom';
+import { page } from '@vitest/browser/context';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import CanvasArea from '../components/CanvasArea';
+import { DEFAULT_SHAPE_STYLE, SHAPE_PRESETS } from '../constants';
+import type { CanvasArtboard, CanvasGroup, CanvasShapeElement, CanvasTextElement, Layer } from '../types';
+import { Tool, isCanvasElement } from '../types';
+import { renderScene, resolveScene } from './sceneRenderer';
+
+// The export has to look like the canvas. Each case puts a text element on a
+// white artboard, screenshots the artboard as CanvasArea shows it and
+// compares that with the scene renderer's drawing of it, pixel by pixel.
+
+// The Tailwind utilities the canvas lays elements out with. The app loads
+// Tailwind from a CDN, which tests can't reach.
+const CANVAS_CSS = `
+  *, ::before, ::after { box-sizing: border-box; border: 0 solid; margin: 0; padding: 0; }
+  svg { display: block; }
+  .relative { position: relative; } .absolute { position: absolute; }
+  .inset-0 { inset: 0; } .left-0 { left: 0; } .top-0 { top: 0; }
+  .flex { display: flex; } .items-end { align-items: flex-end; } .justify-center { justify-content: center; }
+  .w-full { width: 100%; } .h-full { height: 100%; } .box-border { box-sizing: border-box; }
+  .overflow-hidden { overflow: hidden; } .overflow-visible { overflow: visible; }
+  .whitespace-nowrap { white-space: nowrap; } .break-words { overflow-wrap: break-word; }
+  .pointer-events-none { pointer-events: none; }
+`;
+
+const ARTBOARD: CanvasArtboard = {
+  id: 'artboard', type: 'artboard', name: 'Artboard',
+  x: 10, y: 30, width: 360, height: 220,
+  background: '#ffffff', visible: true,
+};
+
+const text = (props: Partial<CanvasTextElement>): CanvasTextElement => ({
+  id: 'text', type: 'text', name: 'Text', parentId: ARTBOARD.id, visible: true,
+  content: 'The quick brown fox jumps over the lazy dog',
+  x: 40, y: 60, width: 300, height: 160, rotation: 0,
+  fontSize: 28, color: '#1f2937', fontWeight: 'normal', fontStyle: 'normal', textDecoration: 'none', align: 'left',
+  shadowEnabled: false, shadowColor: 'rgba(0, 0, 0, 0.6)', shadowBlur: 4, shadowOffsetX: 3, shadowOffsetY: 3,
+  outlineEnabled: false, outlineColor: '#dc2626', outlineWidth: 2,
+  fillType: 'solid', gradientColors: ['#ef4444', '#3b82f6'], gradientDirection: 'to right',
+  ...props,
+});
+
+const CASES: { name: string; element: CanvasTextElement }[] = [
+  { name: 'wraps long lines', element: text({ width: 220, content: 'The quick brown fox jumps over the lazy dog and keeps running' }) },
+  { name: 'keeps line breaks', element: text({ content: 'First line\nSecond\n\nAfter a blank line' }) },
+  { name: 'centers lines', element: text({ align: 'center', content: 'Centered\ntext in a box' }) },
+  { name: 'right-aligns lines', element: text({ align: 'right', content: 'Right\naligned text' }) },
+  { name: 'underlines', element: text({ textDecoration: 'underline', content: 'Underlined text\nover two lines' }) },
+  { name: 'underlines one run', element: text({ content: 'Only this is underlined', runs: [{ start: 5, end: 9, textDecoration: 'underline' }] }) },
+  { name: 'outlines', element: text({ fontSize: 40, fontWeight: 'bold', outlineEnabled: true, content: 'Outlined' }) },
+  { name: 'outlines underlined text', element: text({ fontSize: 40, fontWeight: 'bold', outlineEnabled: true, textDecoration: 'underline', color: '#22c55e', content: 'Outlined' }) },
+  { name: 'fills with a gradient', element: text({ fontSize: 40, fontWeight: 'bold', fillType: 'gradient', content: 'Gradient fill' }) },
+  { name: 'fills with a diagonal gradient', element: text({ fontSize: 36, fillType: 'gradient', gradientDirection: 'to bottom right', content: 'Diagonal\ngradient' }) },
+  { name: 'casts a shadow', element: text({ fontSize: 36, shadowEnabled: true, content: 'Shadowed text' }) },
+  { name: 'follows an arc', element: text({ fontSize: 32, textPath: { shape: 'arc', bend: 50 }, content: 'Along an arc' }) },
+  { name: 'warps', element: text({ fontSize: 32, warp: { style: 'wave', intensity: 60 }, textDecoration: 'underline', content: 'Waving text' }) },
+  { name: 'combines effects', element: text({ fontSize: 36, fontWeight: 'bold', align: 'center', textDecoration: 'underline', outlineEnabled: true, shadowEnabled: true, fillType: 'gradient', content: 'All of them\ntogether' }) },
+];
+
+// A channel off by more than this counts as a different pixel; less is
+// antialiasing, which the DOM and the canvas do slightly differently.
+const CHANNEL_TOLERANCE = 64;
+// The share of the drawn pixels allowed to differ, for glyph edges.
+const MISMATCH_TOLERANCE = 0.02;
+
+const noop = () => {};
+
+let root: Root | null = null;
+let container: HTMLDivElement | null = null;
+
+beforeAll(() => {
+  const style = document.createElement('style');
+  style.textContent = CANVAS_CSS;
+  document.head.append(style);
+});
+
+afterEach(() => {
+  root?.unmount();
+  container?.remove();
+  root = null;
+  container = null;
+});
+
+const showOnCanvas = async (layers: Layer[]) => {
+  container = document.createElement('div');
+  container.style.cssText = 'position: fixed; left: 0; top: 0; width: 400px; height: 300px;';
+  document.body.append(container);
+  root = createRoot(container);
+  flushSync(() => root!.render(
+    <CanvasArea
+      layers={layers}
+      elements={layers.filter(isCanvasElement)}
+      selectedElementIds={[]}
+      setSelectedIds={noop}
+      activeTool={Tool.Select}
+      drawingCanvasRef={React.createRef()}
+      canvasContainerRef={React.createRef()}
+      isShiftPressed={false}
+      onAddText={noop}
+      onUpdateTextProps={noop}
+      onTextSelectionChange={noop}
+      onElementUpdate={noop}
+      onGroupUpdate={noop}
+      moveableRef={React.createRef()}
+      brush={{ color: '#000000', width: 5, opacity: 1, smoothing: 0.5 }}
+      strokeMode="draw"
+      editingPathId={null}
+      onEditPath={noop}
+      croppingId={null}
+      shapePreset={SHAPE_PRESETS[0]}
+      onAddShape={noop}
+      maskMode="brush"
+      maskBrushSize={20}
+      onMaskChange={noop}
+      onSketchChange={noop}
+      outpaintExtension={{ top: 0, right: 0, bottom: 0, left: 0 }}
+      onOutpaintExtensionChange={noop}
+      viewport={{ x: 0, y: 0, zoom: 1 }}
+      onViewportChange={noop}
+    />
+  ));
+  await document.fonts.ready;
+  await new Promise(resolve => requestAnimationFrame(resolve));
+};
+
+const toImageData = (source: CanvasImageSource, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(source, 0, 0);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+const screenshot = async (element: HTMLElement) => {
+  const base64 = await page.screenshot({ element, base64: true, save: false });
+  const img = new Image();
+  img.src = `data:image/png;base64,${base64}`;
+  await img.decode();
+  return toImageData(img, img.naturalWidth, img.naturalHeight);
+};
+
+// How much of what either image draws over the white artboard differs between them.
+const compare = (a: ImageData, b: ImageData) => {
+  let drawn = 0;
+  let mismatched = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    const isDrawn = (data: Uint8ClampedArray) => data[i] < 240 || data[i + 1] < 240 || data[i + 2] < 240;
+    if (!isDrawn(a.data) && !isDrawn(b.data)) continue;
+    drawn++;
+    const difference = Math.max(...[0, 1, 2].map(c => Math.abs(a.data[i + c] - b.data[i + c])));
+    if (difference > CHANNEL_TOLERANCE) mismatched++;
+  }
+  return { drawn, mismatch: drawn > 0 ? mismatched / drawn : 0 };
+};
+
+// The artboard on the canvas and as renderScene draws it.
+const renderBoth = async (layers: Layer[]) => {
+  await showOnCanvas(layers);
+  const onCanvas = await screenshot(document.getElementById(ARTBOARD.id)!);
+  const rendered = await renderScene({ layers: resolveScene(layers) }, ARTBOARD, window.devicePixelRatio, null);
+  return { onCanvas, exported: toImageData(rendered, rendered.width, rendered.height) };
+};
+
+const pixelAt = (image: ImageData, x: number, y: number) => {
+  const i = (Math.round(y * window.devicePixelRatio) * image.width + Math.round(x * window.devicePixelRatio)) * 4;
+  return Array.from(image.data.slice(i, i + 3));
+};
+
+const rect = (props: Partial<CanvasShapeElement>): CanvasShapeElement => ({
+  id: 'rect', type: 'shape', name: 'Rectangle', shape: 'rectangle', parentId: ARTBOARD.id, visible: true,
+  x: 40, y: 40, width: 120, height: 100, rotation: 0,
+  ...DEFAULT_SHAPE_STYLE, fill: '#2563eb', strokeWidth: 0,
+  ...props,
+});
+
+describe('renderScene', () => {
+  it.each(CASES)('draws text the way the canvas shows it: $name', async ({ element }) => {
+    const { onCanvas, exported } = await renderBoth([ARTBOARD, element]);
+
+    expect([exported.width, exported.height]).toEqual([onCanvas.width, onCanvas.height]);
+    const { drawn, mismatch } = compare(onCanvas, exported);
+    expect(drawn).toBeGreaterThan(500);
+    expect(mismatch).toBeLessThan(MISMATCH_TOLERANCE);
+  });
+
+  it('fades a group as one layer, as the canvas does', async () => {
+    const group: CanvasGroup = { id: 'group', type: 'group', name: 'Group', parentId: ARTBOARD.id, visible: true, opacity: 0.5 };
+    const { onCanvas, exported } = await renderBoth([
+      ARTBOARD,
+      group,
+      rect({ id: 'back', parentId: group.id }),
+      rect({ id: 'front', parentId: group.id, x: 100, y: 80 }),
+    ]);
+
+    expect(compare(onCanvas, exported).mismatch).toBeLessThan(MISMATCH_TOLERANCE);
+    // Where the shapes overlap, the front one covers the back one before the
+    // group fades, so it's no darker than either alone.
+    for (const image of [onCanvas, exported]) {
+      expect(pixelAt(image, 130, 110)).toEqual(pixelAt(image, 60, 60));
+    }
+  });
+
+  it('blends a group as one layer, as the canvas does', async () => {
+    const group: CanvasGroup = { id: 'group', type: 'group', name: 'Group', parentId: ARTBOARD.id, visible: true, blendMode: 'multiply' };
+    const { onCanvas, exported } = await renderBoth([
+      ARTBOARD,
+      rect({ id: 'below', x: 20, y: 20, width: 320, height: 60, fill: '#facc15' }),
+      group,
+      rect({ id: 'back', parentId: group.id, fill: '#ef4444' }),
+      rect({ id: 'front', parentId: group.id, x: 100, y: 40, fill: '#22c55e', blendMode: 'screen' }),
+    ]);
+
+    expect(compare(onCanvas, exported).mismatch).toBeLessThan(MISMATCH_TOLERANCE);
+  });
+});
@@ -0,0 +1,371 @@
+import type { CanvasArtboard, CanvasElement, CanvasGroup, CanvasTextElement, CustomFont, Layer } from '../types';
+import type { Bounds } from './geometry';
+import { loadImage } from './imageUtils';
+import { rasterizePath } from './vectorPaths';
+import { drawShape } from './shapes';
+import { toCompositeOperation } from './compositing';
+import { getAdjustedSrc } from './adjustments';
+import { getCropSourceRect } from './crop';
+import { createClipResolver, fillClipMask, splitClipRuns } from './clipping';
+import type { ClipMask, ClippedElement } from './clipping';
+import { getGradientLine, getTextFont, getTextFonts, getUnderline, layoutText } from './textLayout';
+import type { TextLine, TextPiece } from './textLayout';
+import { getGlyphBounds, hasTextEffect, layoutGlyphs } from './textEffects';
+import type { Glyph } from './textEffects';
+import { loadFonts } from './fonts';
+
+// A blank canvas the size of `ctx`'s, drawn to in the same coordinates.
+const createLayer = (ctx: CanvasRenderingContext2D) => {
+  const layer = document.createElement('canvas');
+  layer.width = ctx.canvas.width;
+  layer.height = ctx.canvas.height;
+  const layerCtx = layer.getContext('2d');
+  if (!layerCtx) throw new Error('Could not create a 2D canvas context.');
+  layerCtx.setTransform(ctx.getTransform());
+  return layerCtx;
+};
+
+const drawLayer = (ctx: CanvasRenderingContext2D, layerCtx: CanvasRenderingContext2D, opacity = 1, compositeOperation: GlobalCompositeOperation = 'source-over') => {
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = opacity;
+  ctx.globalCompositeOperation = compositeOperation;
+  ctx.drawImage(layerCtx.canvas, 0, 0);
+  ctx.restore();
+};
+
+// Canvas letter spacing is new; without it, spaced text goes a character at a time.
+const fillOrStrokeText = (ctx: CanvasRenderingContext2D, mode: 'fill' | 'stroke', text: string, x: number, y: number, letterSpacing: number) => {
+  const draw = (value: string, at: number) => (mode === 'fill' ? ctx.fillText(value, x + at, y) : ctx.strokeText(value, x + at, y));
+  if (letterSpacing === 0 || typeof ctx.letterSpacing === 'string') {
+    if (letterSpacing !== 0) ctx.letterSpacing = `${letterSpacing}px`;
+    draw(text, 0);
+    return;
+  }
+  let at = 0;
+  for (const char of Array.from(text)) {
+    draw(char, at);
+    at += ctx.measureText(char).width + letterSpacing;
+  }
+};
+
+const createTextGradient = (ctx: CanvasRenderingContext2D, el: CanvasTextElement) => {
+  const { x0, y0, x1, y1 } = getGradientLine(el);
+  const gradient = ctx.createLinearGradient(x0, y0, x1, y1);
+  gradient.addColorStop(0, el.gradientColors[0]);
+  gradient.addColorStop(1, el.gradientColors[1]);
+  return gradient;
+};
+
+// Browsers put underlines on whole output pixels, so unless the text is
+// turned, the export rounds them the same way.
+const getUnderlineRect = (ctx: CanvasRenderingContext2D, x: number, baseline: number, width: number, fontSize: number): [number, number, number, number] => {
+  const { offset, thickness } = getUnderline(fontSize);
+  const { b, c, d, f } = ctx.getTransform();
+  if (b !== 0 || c !== 0) return [x, baseline + offset, width, thickness];
+  const top = (Math.round(d * baseline + f) + Math.round(d * offset) - f) / d;
+  return [x, top, width, Math.max(1, Math.round(d * thickness)) / d];
+};
+
+const paintLines = (ctx: CanvasRenderingContext2D, el: CanvasTextElement, lines: TextLine[]) => {
+  const gradient = el.fillType === 'gradient' ? createTextGradient(ctx, el) : null;
+  const letterSpacing = el.letterSpacing ?? 0;
+  const eachPiece = (draw: (piece: TextPiece, x: number, y: number) => void) => lines.forEach(line => line.pieces.forEach(piece => {
+    ctx.font = getTextFont(piece.style);
+    draw(piece, el.x + line.x + piece.x, el.y + line.baseline);
+  }));
+
+  const isOutlined = el.outlineEnabled && el.outlineWidth > 0;
+  eachPiece((piece, x, y) => {
+    // Underlines go under the text. With -webkit-text-stroke, browsers
+    // paint them in the outline's color rather than the fill's.
+    if (piece.style.textDecoration === 'underline') {
+      ctx.fillStyle = isOutlined ? el.outlineColor : gradient ?? piece.style.color;
+      ctx.fillRect(...getUnderlineRect(ctx, x, y, piece.width, piece.style.fontSize));
+    }
+    ctx.fillStyle = gradient ?? piece.style.color;
+    fillOrStrokeText(ctx, 'fill', piece.text, x, y, letterSpacing);
+  });
+
+  // The outline goes over the fill, as -webkit-text-stroke paints it.
+  if (isOutlined) {
+    ctx.strokeStyle = el.outlineColor;
+    ctx.lineWidth = el.outlineWidth;
+    eachPiece((piece, x, y) => fillOrStrokeText(ctx, 'stroke', piece.text, x, y, letterSpacing));
+  }
+};
+
+// Text on a path or warped goes a character at a time, each turned on its own.
+const paintGlyphs = (ctx: CanvasRenderingContext2D, el: CanvasTextElement, glyphs: Glyph[]) => {
+  const eachGlyph = (target: CanvasRenderingContext2D, draw: (glyph: Glyph) => void) => glyphs.forEach(glyph => {
+    target.save();
+    target.translate(el.x + glyph.x, el.y + glyph.y);
+    target.rotate((glyph.rotation * Math.PI) / 180);
+    target.scale(1, glyph.scaleY);
+    target.font = getTextFont(glyph.style);
+    draw(glyph);
+    target.restore();
+  });
+  const fillGlyphs = (target: CanvasRenderingContext2D, paint: (glyph: Glyph) => string) => eachGlyph(target, glyph => {
+    target.fillStyle = paint(glyph);
+    target.fillText(glyph.text, -glyph.width / 2, 0);
+    if (glyph.style.textDecoration === 'underline') {
+      const underline = getUnderline(glyph.style.fontSize);
+      target.fillRect(-glyph.width / 2, underline.offset, glyph.width, underline.thickness);
+    }
+  });
+
+  if (el.fillType === 'gradient') {
+    // One gradient across the box, cut out by the glyphs, rather than one
+    // turned with each glyph.
+    const layerCtx = createLayer(ctx);
+    fillGlyphs(layerCtx, () => 'black');
+    const bounds = getGlyphBounds(glyphs);
+    layerCtx.globalCompositeOperation = 'source-in';
+    layerCtx.fillStyle = createTextGradient(layerCtx, el);
+    layerCtx.fillRect(el.x + bounds.x, el.y + bounds.y, bounds.width, bounds.height);
+    drawLayer(ctx, layerCtx);
+  } else {
+    fillGlyphs(ctx, glyph => glyph.style.color);
+  }
+
+  if (el.outlineEnabled && el.outlineWidth > 0) {
+    ctx.strokeStyle = el.outlineColor;
+    ctx.lineWidth = el.outlineWidth;
+    eachGlyph(ctx, glyph => ctx.strokeText(glyph.text, -glyph.width / 2, 0));
+  }
+};
+
+const paintText = (ctx: CanvasRenderingContext2D, el: CanvasTextElement) => {
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+  if (hasTextEffect(el)) {
+    paintGlyphs(ctx, el, layoutGlyphs(el));
+  } else {
+    paintLines(ctx, el, layoutText(el));
+  }
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, el: CanvasTextElement) => {
+  if (!el.shadowEnabled) {
+    paintText(ctx, el);
+    return;
+  }
+
+  // The shadow is cast by the finished text, outline and underline included,
+  // like the drop-shadow filter on the canvas. Filters and shadows work in
+  // output pixels, so the offset and blur go through the current transform.
+  const layerCtx = createLayer(ctx);
+  paintText(layerCtx, el);
+  const { a, b, c, d } = ctx.getTransform();
+  const dx = a * el.shadowOffsetX + c * el.shadowOffsetY;
+  const dy = b * el.shadowOffsetX + d * el.shadowOffsetY;
+  const blur = el.shadowBlur * Math.hypot(a, b);
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  // Safari before 18 has no canvas filters.
+  if (typeof ctx.filter === 'string') {
+    ctx.filter = `drop-shadow(${dx}px ${dy}px ${blur}px ${el.shadowColor})`;
+  } else {
+    ctx.shadowColor = el.shadowColor;
+    ctx.shadowOffsetX = dx;
+    ctx.shadowOffsetY = dy;
+    ctx.shadowBlur = blur;
+  }
+  ctx.drawImage(layerCtx.canvas, 0, 0);
+  ctx.restore();
+};
+
+const drawElement = async (ctx: CanvasRenderingContext2D, el: CanvasElement) => {
+  ctx.save();
+
+  // Apply transformations (rotation around center)
+  ctx.translate(el.x + el.width / 2, el.y + el.height / 2);
+  ctx.rotate((el.rotation * Math.PI) / 180);
+  ctx.translate(-(el.x + el.width / 2), -(el.y + el.height / 2));
+
+  if (el.type === 'image') {
+    try {
+      const img = await loadImage(await getAdjustedSrc(el.src, el.adjustments));
+      const { sx, sy, sw, sh } = getCropSourceRect(el.crop, img.naturalWidth, img.naturalHeight);
+      ctx.drawImage(img, sx, sy, sw, sh, el.x, el.y, el.width, el.height);
+    } catch (error) {
+      console.error(`Could not load image ${el.name}:`, error);
+    }
+  } else if (el.type === 'path') {
+    // Rasterize at the output resolution so strokes stay sharp when scaled up.
+    const { a, b } = ctx.getTransform();
+    ctx.drawImage(rasterizePath(el, Math.hypot(a, b)), el.x, el.y, el.width, el.height);
+  } else if (el.type === 'shape') {
+    drawShape(ctx, el);
+  } else if (el.type === 'text') {
+    drawText(ctx, el);
+  }
+
+  ctx.restore();
+};
+
+/** A group with its visible children, composited together before its own opacity and blend mode. */
+export type SceneGroup = CanvasGroup & { clipMask?: ClipMask; contents: SceneLayer[] };
+
+/** An artboard with the layers it clips, drawn together at its place in the stack. */
+export type SceneArtboard = CanvasArtboard & { contents: SceneLayer[] };
+
+export type SceneLayer = ClippedElement | SceneGroup | SceneArtboard;
+
+export interface Scene {
+  /** Bottom first, as a tree of groups and artboards with clipping resolved. */
+  layers: SceneLayer[];
+  /** Uploaded fonts, for formats that embed the ones they use. */
+  fonts?: CustomFont[];
+}
+
+/**
+ * The visible layers that `includes` picks, ready to draw, nested as in the
+ * layers panel. Groups are kept around whatever they still contain. An
+ * artboard that isn't picked itself still clips its contents, but leaves out
+ * its background.
+ */
+export const resolveScene = (layers: Layer[], includes: (layer: Layer) => boolean = () => true): SceneLayer[] => {
+  const layersById = new Map(layers.map(l => [l.id, l]));
+  const { getMaskId, isMaskContent, getMask } = createClipResolver(layers);
+  const masks = new Map<string, ClipMask>();
+  const getClip = (layer: Layer): { clipMask?: ClipMask } => {
+    const maskId = getMaskId(layer);
+    if (!maskId) return {};
+    if (!masks.has(maskId)) masks.set(maskId, getMask(maskId));
+    return { clipMask: masks.get(maskId) };
+  };
+
+  // Layers whose parent is gone sit at the top level.
+  const children = new Map<string | undefined, Layer[]>();
+  layers.forEach(layer => {
+    const parentId = layer.parentId && layersById.has(layer.parentId) ? layer.parentId : undefined;
+    children.set(parentId, [...(children.get(parentId) ?? []), layer]);
+  });
+
+  const resolveChildren = (parentId: string | undefined): SceneLayer[] =>
+    (children.get(parentId) ?? []).filter(layer => layer.visible && !isMaskContent(layer)).flatMap((layer): SceneLayer[] => {
+      if (layer.type === 'artboard') {
+        const contents = resolveChildren(layer.id);
+        if (!includes(layer) && contents.length === 0) return [];
+        return [{ ...layer, background: includes(layer) ? layer.background : 'transparent', contents }];
+      }
+      if (layer.type === 'group') {
+        const contents = resolveChildren(layer.id);
+        return contents.length > 0 ? [{ ...layer, ...getClip(layer), contents }] : [];
+      }
+      return includes(layer) ? [{ ...layer, ...getClip(layer) }] : [];
+    });
+
+  return resolveChildren(undefined);
+};
+
+/** The mask clipping a layer among its siblings. Artboards are never clipped. */
+export const getClipMask = (layer: SceneLayer) => (layer.type === 'artboard' ? undefined : layer.clipMask);
+
+/** Every element in the scene, inside groups and artboards too. */
+export const getSceneElements = (scene: Scene): ClippedElement[] => {
+  const flatten = (layers: SceneLayer[]): ClippedElement[] =>
+    layers.flatMap(layer => (layer.type === 'artboard' || layer.type === 'group' ? flatten(layer.contents) : [layer]));
+  return flatten(scene.layers);
+};
+
+/** Waits for every font the scene's text uses. */
+export const loadSceneFonts = (scene: Scene) =>
+  loadFonts(getSceneElements(scene).flatMap(el => (el.type === 'text' ? getTextFonts(el) : [])));
+
+const drawSceneLayer = async (ctx: CanvasRenderingContext2D, layer: SceneLayer) => {
+  if (layer.type === 'artboard') {
+    // Cut to its frame, like its overflow-hidden container on the canvas;
+    // blend modes inside it stop at its background.
+    const layerCtx = createLayer(ctx);
+    layerCtx.beginPath();
+    layerCtx.rect(layer.x, layer.y, layer.width, layer.height);
+    layerCtx.clip();
+    layerCtx.fillStyle = layer.background;
+    layerCtx.fillRect(layer.x, layer.y, layer.width, layer.height);
+    await drawSceneLayers(layerCtx, layer.contents);
+    drawLayer(ctx, layerCtx);
+    return;
+  }
+
+  const opacity = layer.opacity ?? 1;
+  const blendMode = layer.blendMode ?? 'normal';
+  if (layer.type !== 'group' && opacity >= 1 && blendMode === 'normal') {
+    await drawElement(ctx, layer);
+    return;
+  }
+
+  // Like CSS opacity, the layer is flattened first: a group's children
+  // blend with each other and then fade together, and an element's own
+  // overlapping parts (a shape's stroke over its fill, a text outline) don't
+  // show through.
+  const layerCtx = createLayer(ctx);
+  if (layer.type === 'group') {
+    await drawSceneLayers(layerCtx, layer.contents);
+  } else {
+    await drawElement(layerCtx, layer);
+  }
+  drawLayer(ctx, layerCtx, opacity, toCompositeOperation(blendMode));
+};
+
+// Draws sibling layers onto `ctx` in the given order, so the last one ends up on top.
+const drawSceneLayers = async (ctx: CanvasRenderingContext2D, layers: SceneLayer[]) => {
+  for (const run of splitClipRuns(layers, layer => getClipMask(layer)?.id)) {
+    if (run.type === 'item') {
+      await drawSceneLayer(ctx, run.item);
+      continue;
+    }
+    // The run is drawn on its own and then cut out, like the clipped
+    // container on the canvas.
+    const layerCtx = createLayer(ctx);
+    for (const layer of run.items) await drawSceneLayer(layerCtx, layer);
+    const maskCtx = createLayer(ctx);
+    fillClipMask(maskCtx, getClipMask(run.items[0])!);
+    drawLayer(layerCtx, maskCtx, 1, 'destination-in');
+    drawLayer(ctx, layerCtx);
+  }
+};
+
+// Within what browsers will allocate for a single canvas.
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384;
+
+/**
+ * Renders `region` of the scene at `scale` output pixels per canvas pixel,
+ * over `background` or transparency.
+ */
+export const renderScene = async (scene: Scene, region: Bounds, scale: number, background: string | null): Promise<HTMLCanvasElement> => {
+  const width = Math.max(1, Math.round(region.width * scale));
+  const height = Math.max(1, Math.round(region.height * scale));
+  if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE || width * height > MAX_CANVAS_AREA) {
+    throw new Error(`An export of ${width}×${height} pixels is too large. Try a smaller scale or area.`);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a 2D canvas context.');
+  await loadSceneFonts(scene);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  // The layers are drawn on their own first: on screen they sit in the
+  // transformed world, which blend modes can't see through to the background.
+  ctx.setTransform(scale, 0, 0, scale, -region.x * scale, -region.y * scale);
+  const sceneCtx = createLayer(ctx);
+  await drawSceneLayers(sceneCtx, scene.layers);
+  drawLayer(ctx, sceneCtx);
+  return canvas;
+};
+
+/** Renders an artboard, from `resolveScene`, at exactly its pixel size. */
+export const renderArtboard = async (artboard: SceneArtboard): Promise<string> => {
+  const canvas = await renderScene({ layers: [artboard] }, artboard, 1, null);
+  return canvas.toDataURL('image/png');
+};
+
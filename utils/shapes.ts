@@ -0,0 +1,130 @@
+import type { CanvasShapeElement, ShapeKind } from '../types';
+import type { Point } from './geometry';
+
+type ShapeGeometry = Pick<CanvasShapeElement, 'shape' | 'width' | 'height' | 'strokeWidth' | 'cornerRadius' | 'sides' | 'arrowStart' | 'arrowEnd'>;
+
+export interface ShapePaths {
+  /** SVG path data in the shape's own box, from 0,0 to width,height. */
+  outline: string;
+  /** Filled with the stroke color. Empty unless a line has arrowheads. */
+  arrowheads: string;
+  closed: boolean;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const getArrowheadSize = (strokeWidth: number) => Math.max(10, strokeWidth * 3);
+
+/** Lines get a box tall enough to grab and to fit their arrowheads. */
+export const getLineBoxHeight = (strokeWidth: number) => Math.max(16, getArrowheadSize(strokeWidth) * 1.4);
+
+const getLinePaths = ({ width, height, strokeWidth, arrowStart, arrowEnd }: ShapeGeometry): ShapePaths => {
+  const cy = height / 2;
+  const size = Math.min(getArrowheadSize(strokeWidth), width / (arrowStart && arrowEnd ? 2 : 1));
+  const halfBase = size * 0.6;
+  // The shaft stops inside the arrowhead so its cap doesn't poke out of the tip.
+  const x0 = arrowStart ? size * 0.8 : 0;
+  const x1 = arrowEnd ? width - size * 0.8 : width;
+  let arrowheads = '';
+  if (arrowStart) {
+    arrowheads += `M0 ${round(cy)} L${round(size)} ${round(cy - halfBase)} L${round(size)} ${round(cy + halfBase)} Z`;
+  }
+  if (arrowEnd) {
+    arrowheads += `M${round(width)} ${round(cy)} L${round(width - size)} ${round(cy - halfBase)} L${round(width - size)} ${round(cy + halfBase)} Z`;
+  }
+  return { outline: `M${round(x0)} ${round(cy)} L${round(x1)} ${round(cy)}`, arrowheads, closed: false };
+};
+
+/** Outline and arrowheads of a shape. The same strings feed `<path d>` and `Path2D`. */
+export const getShapePaths = (element: ShapeGeometry): ShapePaths => {
+  if (element.shape === 'line') return getLinePaths(element);
+
+  // Closed shapes are inset by half the stroke so the stroke stays inside the box.
+  const inset = Math.min(element.strokeWidth / 2, element.width / 2, element.height / 2);
+  const w = element.width - inset * 2;
+  const h = element.height - inset * 2;
+  const cx = element.width / 2;
+  const cy = element.height / 2;
+
+  if (element.shape === 'ellipse') {
+    const rx = round(w / 2), ry = round(h / 2);
+    return {
+      outline: `M${round(inset)} ${round(cy)} A${rx} ${ry} 0 1 0 ${round(inset + w)} ${round(cy)} A${rx} ${ry} 0 1 0 ${round(inset)} ${round(cy)} Z`,
+      arrowheads: '',
+      closed: true,
+    };
+  }
+
+  if (element.shape === 'polygon') {
+    const sides = Math.max(3, Math.round(element.sides));
+    const points = Array.from({ length: sides }, (_, i) => {
+      // The first corner points straight up.
+      const angle = -Math.PI / 2 + (i * 2 * Math.PI) / sides;
+      return `${round(cx + (w / 2) * Math.cos(angle))} ${round(cy + (h / 2) * Math.sin(angle))}`;
+    });
+    return { outline: `M${points.join(' L')} Z`, arrowheads: '', closed: true };
+  }
+
+  const r = round(Math.max(0, Math.min(element.cornerRadius, w / 2, h / 2)));
+  const left = round(inset), top = round(inset), right = round(inset + w), bottom = round(inset + h);
+  const outline = r === 0
+    ? `M${left} ${top} H${right} V${bottom} H${left} Z`
+    : `M${left + r} ${top} H${right - r} A${r} ${r} 0 0 1 ${right} ${top + r} V${bottom - r} A${r} ${r} 0 0 1 ${right - r} ${bottom} H${left + r} A${r} ${r} 0 0 1 ${left} ${bottom - r} V${top + r} A${r} ${r} 0 0 1 ${left + r} ${top} Z`;
+  return { outline, arrowheads: '', closed: true };
+};
+
+/** Draws a shape onto `ctx`, which must already be rotated like the element. */
+export const drawShape = (ctx: CanvasRenderingContext2D, element: CanvasShapeElement) => {
+  const { outline, arrowheads, closed } = getShapePaths(element);
+  ctx.save();
+  ctx.translate(element.x, element.y);
+  if (closed && element.fill !== 'transparent') {
+    ctx.fillStyle = element.fill;
+    ctx.fill(new Path2D(outline));
+  }
+  if (element.strokeWidth > 0) {
+    ctx.strokeStyle = element.stroke;
+    ctx.lineWidth = element.strokeWidth;
+    ctx.lineJoin = 'round';
+    ctx.lineCap = closed ? 'butt' : 'round';
+    ctx.stroke(new Path2D(outline));
+  }
+  if (arrowheads) {
+    ctx.fillStyle = element.stroke;
+    ctx.fill(new Path2D(arrowheads));
+  }
+  ctx.restore();
+};
+
+/**
+ * The box of a shape dragged from `start` to `end`, in canvas coordinates.
+ * Lines follow the drag's direction; `constrain` makes other shapes square
+ * and snaps lines to 45°.
+ */
+export const getDraggedShapeBox = (shape: ShapeKind, start: Point, end: Point, strokeWidth: number, constrain: boolean) => {
+  let dx = end.x - start.x;
+  let dy = end.y - start.y;
+
+  if (shape === 'line') {
+    let angle = Math.atan2(dy, dx);
+    if (constrain) angle = Math.round(angle / (Math.PI / 4)) * (Math.PI / 4);
+    const length = Math.hypot(dx, dy);
+    const height = getLineBoxHeight(strokeWidth);
+    const cx = start.x + (Math.cos(angle) * length) / 2;
+    const cy = start.y + (Math.sin(angle) * length) / 2;
+    return { x: cx - length / 2, y: cy - height / 2, width: length, height, rotation: (angle * 180) / Math.PI };
+  }
+
+  if (constrain) {
+    const size = Math.max(Math.abs(dx), Math.abs(dy));
+    dx = Math.sign(dx || 1) * size;
+    dy = Math.sign(dy || 1) * size;
+  }
+  return {
+    x: Math.min(start.x, start.x + dx),
+    y: Math.min(start.y, start.y + dy),
+    width: Math.abs(dx),
+    height: Math.abs(dy),
+    rotation: 0,
+  };
+};
@@ -0,0 +1,274 @@
+import type { CanvasImageElement, CanvasPathElement, CanvasShapeElement, CanvasTextElement } from '../types';
+import type { Bounds } from './geometry';
+import type { ClipMask, ClippedElement } from './clipping';
+import type { Scene, SceneLayer } from './sceneRenderer';
+import { getShapeTransform, splitClipRuns } from './clipping';
+import { getShapePaths } from './shapes';
+import { getStrokePathData } from './vectorPaths';
+import { getAdjustedSrc } from './adjustments';
+import { getCropSourceRect } from './crop';
+import { loadImage } from './imageUtils';
+import { getGradientLine, getUnderline, layoutText, TEXT_PADDING_X } from './textLayout';
+import { getGlyphBounds, getGlyphTransform, hasTextEffect, layoutGlyphs } from './textEffects';
+import type { Glyph } from './textEffects';
+import { getTextSegments, resolveTextStyle } from './textRuns';
+import { getClipMask, getSceneElements, loadSceneFonts } from './sceneRenderer';
+
+/** Shared definitions (gradients, masks, filters, clip paths), keyed by id. */
+type Defs = Map<string, string>;
+
+const escapeXml = (value: string) => value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const attrs = (values: Record<string, string | number | undefined>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}="${escapeXml(String(value))}"`)
+    .join(' ');
+
+// Older SVG tools don't know the CSS keyword.
+const paint = (color: string) => (color === 'transparent' ? 'none' : color);
+
+const imageSvg = async (el: CanvasImageElement) => {
+  const href = await getAdjustedSrc(el.src, el.adjustments);
+  const img = await loadImage(href);
+  const { sx, sy, sw, sh } = getCropSourceRect(el.crop, img.naturalWidth, img.naturalHeight);
+  // A nested viewport scales the crop to the element's box and clips the rest.
+  return `<svg ${attrs({ x: el.x, y: el.y, width: el.width, height: el.height, viewBox: `${sx} ${sy} ${sw} ${sh}`, preserveAspectRatio: 'none' })}>`
+    + `<image ${attrs({ width: img.naturalWidth, height: img.naturalHeight, 'xlink:href': href })}/></svg>`;
+};
+
+const shapeSvg = (el: CanvasShapeElement) => {
+  const { outline, arrowheads, closed } = getShapePaths(el);
+  const path = `<path ${attrs({
+    d: outline,
+    fill: closed ? paint(el.fill) : 'none',
+    stroke: el.strokeWidth > 0 ? el.stroke : 'none',
+    'stroke-width': el.strokeWidth,
+    'stroke-linejoin': 'round',
+    'stroke-linecap': closed ? 'butt' : 'round',
+  })}/>`;
+  const heads = arrowheads ? `<path ${attrs({ d: arrowheads, fill: el.stroke })}/>` : '';
+  return `<g transform="translate(${el.x} ${el.y})">${path}${heads}</g>`;
+};
+
+// Mirrors the VectorPath component: each erase stroke masks everything drawn before it.
+const pathSvg = (el: CanvasPathElement, defs: Defs) => {
+  const { width, height } = el.viewBox;
+  let content = '';
+  el.strokes.forEach((stroke, index) => {
+    if (stroke.points.length < 2) return;
+    const common = attrs({
+      d: getStrokePathData(stroke),
+      fill: 'none',
+      'stroke-width': stroke.width,
+      'stroke-opacity': stroke.opacity,
+      'stroke-linecap': 'round',
+      'stroke-linejoin': 'round',
+    });
+    if (stroke.mode === 'draw') {
+      content += `<path ${common} ${attrs({ stroke: stroke.color })}/>`;
+      return;
+    }
+    const maskId = `${el.id}-erase-${index}`;
+    defs.set(maskId, `<mask ${attrs({ id: maskId, maskUnits: 'userSpaceOnUse', x: 0, y: 0, width, height })}>`
+      + `<rect ${attrs({ width, height, fill: 'white' })}/><path ${common} stroke="black"/></mask>`);
+    content = `<g mask="url(#${maskId})">${content}</g>`;
+  });
+  return `<svg ${attrs({ x: el.x, y: el.y, width: el.width, height: el.height, viewBox: `0 0 ${width} ${height}`, preserveAspectRatio: 'none' })}>${content}</svg>`;
+};
+
+// The text's gradient fill, as a paint reference.
+const textGradientSvg = (el: CanvasTextElement, defs: Defs) => {
+  const gradientId = `${el.id}-fill`;
+  const { x0, y0, x1, y1 } = getGradientLine(el);
+  defs.set(gradientId, `<linearGradient ${attrs({ id: gradientId, gradientUnits: 'userSpaceOnUse', x1: x0, y1: y0, x2: x1, y2: y1 })}>`
+    + `<stop offset="0" ${attrs({ 'stop-color': el.gradientColors[0] })}/><stop offset="1" ${attrs({ 'stop-color': el.gradientColors[1] })}/></linearGradient>`);
+  return `url(#${gradientId})`;
+};
+
+const textShadowSvg = (el: CanvasTextElement, defs: Defs) => {
+  if (!el.shadowEnabled) return undefined;
+  const filterId = `${el.id}-shadow`;
+  defs.set(filterId, `<filter ${attrs({ id: filterId, x: '-50%', y: '-50%', width: '200%', height: '200%' })}>`
+    + `<feDropShadow ${attrs({ dx: el.shadowOffsetX, dy: el.shadowOffsetY, stdDeviation: el.shadowBlur / 2, 'flood-color': el.shadowColor })}/></filter>`);
+  return `url(#${filterId})`;
+};
+
+// Text on a path or warped, a character at a time, as the CurvedText
+// component draws it. A gradient is cut out by the glyphs so it spans the
+// box instead of turning with each one.
+const glyphsSvg = (el: CanvasTextElement, defs: Defs) => {
+  const glyphs = layoutGlyphs(el);
+  const origin = { x: el.x, y: el.y };
+  const glyphMarkup = (paintAttrs: (glyph: Glyph) => Record<string, string | number | undefined>, withUnderlines: boolean) => glyphs.map(glyph => {
+    const transform = getGlyphTransform(glyph, origin);
+    const text = `<text ${attrs({
+      transform,
+      x: -glyph.width / 2,
+      'font-family': glyph.style.fontFamily,
+      'font-size': glyph.style.fontSize,
+      'font-weight': glyph.style.fontWeight,
+      'font-style': glyph.style.fontStyle,
+      ...paintAttrs(glyph),
+    })}>${escapeXml(glyph.text)}</text>`;
+    if (!withUnderlines || glyph.style.textDecoration !== 'underline') return text;
+    const underline = getUnderline(glyph.style.fontSize);
+    return text + `<rect ${attrs({ transform, x: -glyph.width / 2, y: underline.offset, width: glyph.width, height: underline.thickness, ...paintAttrs(glyph) })}/>`;
+  }).join('');
+
+  let fill: string;
+  if (el.fillType === 'gradient') {
+    const clipId = `${el.id}-glyphs`;
+    defs.set(clipId, `<clipPath ${attrs({ id: clipId, clipPathUnits: 'userSpaceOnUse' })}>${glyphMarkup(() => ({}), true)}</clipPath>`);
+    const bounds = getGlyphBounds(glyphs);
+    fill = `<rect ${attrs({ x: el.x + bounds.x, y: el.y + bounds.y, width: bounds.width, height: bounds.height, fill: textGradientSvg(el, defs), 'clip-path': `url(#${clipId})` })}/>`;
+  } else {
+    fill = glyphMarkup(glyph => ({ fill: glyph.style.color }), true);
+  }
+  const outline = el.outlineEnabled
+    ? glyphMarkup(() => ({ fill: 'none', stroke: el.outlineColor, 'stroke-width': el.outlineWidth }), false)
+    : '';
+  return `<g ${attrs({ filter: textShadowSvg(el, defs) })}>${fill}${outline}</g>`;
+};
+
+// Mirrors how the scene renderer draws text, as live text rather than pixels.
+// Lines are broken where the canvas breaks them; each keeps its alignment
+// in case the viewer substitutes a font of a different width.
+const textSvg = (el: CanvasTextElement, defs: Defs) => {
+  if (hasTextEffect(el)) return glyphsSvg(el, defs);
+  const fill = el.fillType === 'gradient' ? textGradientSvg(el, defs) : el.color;
+  const filter = textShadowSvg(el, defs);
+
+  const anchorX = el.align === 'left' ? el.x + TEXT_PADDING_X
+    : el.align === 'right' ? el.x + el.width - TEXT_PADDING_X
+    : el.x + el.width / 2;
+  const base = resolveTextStyle(el);
+  // Pieces only carry the styles that differ from the element's.
+  const lines = layoutText(el).map(line => `<tspan ${attrs({ x: anchorX, y: el.y + line.baseline })}>`
+    + line.pieces.map(({ text, style }) => {
+      const pieceAttrs = attrs({
+        'font-family': style.fontFamily !== base.fontFamily ? style.fontFamily : undefined,
+        'font-size': style.fontSize !== base.fontSize ? style.fontSize : undefined,
+        'font-weight': style.fontWeight !== base.fontWeight ? style.fontWeight : undefined,
+        'font-style': style.fontStyle !== base.fontStyle ? style.fontStyle : undefined,
+        'text-decoration': style.textDecoration !== base.textDecoration ? style.textDecoration : undefined,
+        fill: el.fillType === 'solid' && style.color !== base.color ? style.color : undefined,
+      });
+      return pieceAttrs ? `<tspan ${pieceAttrs}>${escapeXml(text)}</tspan>` : escapeXml(text);
+    }).join('')
+    + '</tspan>').join('');
+
+  return `<text ${attrs({
+    'text-anchor': el.align === 'left' ? 'start' : el.align === 'right' ? 'end' : 'middle',
+    'font-family': base.fontFamily,
+    'font-size': base.fontSize,
+    'font-weight': base.fontWeight,
+    'font-style': base.fontStyle,
+    'text-decoration': base.textDecoration === 'underline' ? 'underline' : undefined,
+    'letter-spacing': el.letterSpacing || undefined,
+    fill,
+    stroke: el.outlineEnabled ? el.outlineColor : undefined,
+    'stroke-width': el.outlineEnabled ? el.outlineWidth : undefined,
+    filter,
+    // Lines are already wrapped and their spaces collapsed.
+    'xml:space': 'preserve',
+  })}>${lines}</text>`;
+};
+
+// Uploaded fonts are embedded so the file shows them on machines without them.
+const fontFacesSvg = (scene: Scene) => {
+  const families = new Set(getSceneElements(scene).flatMap(el => (el.type === 'text' ? getTextSegments(el).map(s => s.style.fontFamily) : [])));
+  const faces = (scene.fonts ?? [])
+    .filter(font => [...families].some(family => family.includes(`"${font.family}"`)))
+    .map(font => `@font-face{font-family:"${font.family}";src:url(${font.src})}`);
+  return faces.length > 0 ? `<style>${escapeXml(faces.join(''))}</style>` : '';
+};
+
+const elementSvg = async (el: ClippedElement, defs: Defs) => {
+  const body = el.type === 'image' ? await imageSvg(el)
+    : el.type === 'shape' ? shapeSvg(el)
+    : el.type === 'path' ? pathSvg(el, defs)
+    : textSvg(el, defs);
+  const blendMode = el.blendMode ?? 'normal';
+  return `<g ${attrs({
+    id: el.id,
+    'data-name': el.name,
+    transform: el.rotation ? `rotate(${el.rotation} ${el.x + el.width / 2} ${el.y + el.height / 2})` : undefined,
+    opacity: (el.opacity ?? 1) < 1 ? el.opacity : undefined,
+    style: blendMode !== 'normal' ? `mix-blend-mode:${blendMode}` : undefined,
+  })}>${body}</g>`;
+};
+
+const clipSvg = (mask: ClipMask, defs: Defs) => {
+  const clipId = `clip-${mask.id}`;
+  defs.set(clipId, `<clipPath ${attrs({ id: clipId, clipPathUnits: 'userSpaceOnUse' })}>`
+    + mask.shapes.map(shape => `<path ${attrs({ d: getShapePaths(shape).outline, transform: getShapeTransform(shape) })}/>`).join('')
+    + '</clipPath>');
+  return `url(#${clipId})`;
+};
+
+const layerSvg = async (layer: SceneLayer, defs: Defs): Promise<string> => {
+  if (layer.type === 'artboard') {
+    // Artboards clip their contents, as on the canvas, and blend modes inside
+    // one stop at its background.
+    const clipId = `${layer.id}-clip`;
+    const frame = { x: layer.x, y: layer.y, width: layer.width, height: layer.height };
+    defs.set(clipId, `<clipPath ${attrs({ id: clipId, clipPathUnits: 'userSpaceOnUse' })}><rect ${attrs(frame)}/></clipPath>`);
+    return `<g ${attrs({ id: layer.id, 'data-name': layer.name, 'clip-path': `url(#${clipId})`, style: 'isolation:isolate' })}>`
+      + `<rect ${attrs({ ...frame, fill: paint(layer.background) })}/>${await layersSvg(layer.contents, defs)}</g>`;
+  }
+  if (layer.type === 'group') {
+    // The children blend with each other, then fade and blend together.
+    const blendMode = layer.blendMode ?? 'normal';
+    return `<g ${attrs({
+      id: layer.id,
+      'data-name': layer.name,
+      opacity: (layer.opacity ?? 1) < 1 ? layer.opacity : undefined,
+      style: `isolation:isolate${blendMode !== 'normal' ? `;mix-blend-mode:${blendMode}` : ''}`,
+    })}>${await layersSvg(layer.contents, defs)}</g>`;
+  }
+  return elementSvg(layer, defs);
+};
+
+const layersSvg = async (layers: SceneLayer[], defs: Defs): Promise<string> => {
+  let markup = '';
+  for (const run of splitClipRuns(layers, layer => getClipMask(layer)?.id)) {
+    if (run.type === 'item') {
+      markup += await layerSvg(run.item, defs);
+      continue;
+    }
+    let items = '';
+    for (const layer of run.items) items += await layerSvg(layer, defs);
+    markup += `<g clip-path="${clipSvg(getClipMask(run.items[0])!, defs)}" style="isolation:isolate">${items}</g>`;
+  }
+  return markup;
+};
+
+/**
+ * The scene as an SVG document with one group per layer. Text stays text and
+ * shapes and paths stay vector; images are embedded with their adjustments
+ * applied.
+ */
+export const buildSvg = async (scene: Scene, region: Bounds, scale: number, background: string | null): Promise<string> => {
+  const defs: Defs = new Map();
+  await loadSceneFonts(scene);
+  const layers = await layersSvg(scene.layers, defs);
+  const backgroundRect = background
+    ? `<rect ${attrs({ x: region.x, y: region.y, width: region.width, height: region.height, fill: background })}/>`
+    : '';
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n'
+    + `<svg ${attrs({
+      xmlns: 'http://www.w3.org/2000/svg',
+      'xmlns:xlink': 'http://www.w3.org/1999/xlink',
+      width: Math.round(region.width * scale),
+      height: Math.round(region.height * scale),
+      viewBox: `${region.x} ${region.y} ${region.width} ${region.height}`,
+    })}>`
+    + fontFacesSvg(scene)
+    + (defs.size > 0 ? `<defs>${[...defs.values()].join('')}</defs>` : '')
+    + backgroundRect
+    // Blend modes stop at the layers, as on screen, rather than reaching the background.
+    + `<g style="isolation:isolate">${layers}</g>`
+    + '</svg>\n';
+};
@@ -0,0 +1,183 @@
+import type { CanvasPathElement, CanvasTextElement, TextPath, TextWarp } from '../types';
+import type { Bounds, Point } from './geometry';
+import { layoutText, measureText } from './textLayout';
+import type { TextLine } from './textLayout';
+import type { ResolvedTextStyle } from './textRuns';
+import { getCanvasStrokes } from './vectorPaths';
+
+// The canvas's CurvedText, the scene renderer and the SVG export all place
+// characters with these, so curved text looks the same everywhere.
+
+/** A single character, placed and turned on its own. */
+export interface Glyph {
+  text: string;
+  /** The middle of the glyph's baseline, relative to the element's top-left corner. */
+  x: number;
+  y: number;
+  /** In degrees, around that point. */
+  rotation: number;
+  /** Vertical stretch, from the baseline. */
+  scaleY: number;
+  width: number;
+  style: ResolvedTextStyle;
+}
+
+/** Whether the text is drawn a character at a time rather than in straight lines. */
+export const hasTextEffect = (el: Pick<CanvasTextElement, 'textPath' | 'warp'>) => Boolean(el.textPath || el.warp);
+
+// Roughly how far the middle of a line of text sits above its baseline, in font sizes.
+const MIDDLE = 0.35;
+const ARC_SEGMENTS = 96;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// The lines' characters where the straight layout puts them.
+const splitGlyphs = (lines: TextLine[], letterSpacing: number): Glyph[] =>
+  lines.flatMap(line => line.pieces.flatMap(piece => {
+    let before = '';
+    return Array.from(piece.text).map(char => {
+      // Measured with what comes before it, so kerning is kept.
+      const left = measureText(before, piece.style, letterSpacing);
+      const width = measureText(char, piece.style);
+      before += char;
+      return { text: char, x: line.x + piece.x + left + width / 2, y: line.baseline, rotation: 0, scaleY: 1, width, style: piece.style };
+    });
+  }));
+
+// Points along the path, in the element's box.
+const getPathPoints = (el: CanvasTextElement, textPath: TextPath): Point[] => {
+  const { width, height } = el;
+  if (textPath.shape === 'custom' && (textPath.points?.length ?? 0) > 1) {
+    return textPath.points!.map(p => ({ x: p.x * width, y: p.y * height }));
+  }
+  if (textPath.shape === 'circle') {
+    // Clockwise from the bottom, so centered text sits on top with its
+    // letters facing out. The radius leaves room for them inside the box.
+    const radius = Math.max(1, Math.min(width, height) / 2 - el.fontSize * 0.8);
+    return Array.from({ length: ARC_SEGMENTS + 1 }, (_, i) => {
+      const angle = Math.PI / 2 + (i / ARC_SEGMENTS) * Math.PI * 2;
+      return { x: width / 2 + radius * Math.cos(angle), y: height / 2 + radius * Math.sin(angle) };
+    });
+  }
+
+  // An arc from side to side, centered in the box along with the text on it.
+  const middle = height / 2 + el.fontSize * MIDDLE;
+  const sagitta = (clamp(textPath.shape === 'arc' ? textPath.bend : 0, -100, 100) / 100) * (width / 2);
+  if (Math.abs(sagitta) < 0.5) return [{ x: 0, y: middle }, { x: width, y: middle }];
+  const ends = middle + sagitta / 2;
+  const apex = middle - sagitta / 2;
+  const radius = (width * width / 4 + sagitta * sagitta) / (2 * Math.abs(sagitta));
+  const cy = apex + Math.sign(sagitta) * radius;
+  const start = Math.atan2(ends - cy, -width / 2);
+  const end = Math.atan2(ends - cy, width / 2);
+  return Array.from({ length: ARC_SEGMENTS + 1 }, (_, i) => {
+    const angle = start + ((end - start) * i) / ARC_SEGMENTS;
+    return { x: width / 2 + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) };
+  });
+};
+
+// Finds the point a distance along a polyline. Past either end it carries
+// on straight, so text longer than its path still shows.
+const walkPath = (points: Point[]) => {
+  const lengths = [0];
+  for (let i = 1; i < points.length; i++) {
+    lengths.push(lengths[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+  }
+  const pointAt = (distance: number): Point => {
+    let i = 1;
+    while (i < points.length - 1 && lengths[i] < distance) i++;
+    const a = points[i - 1], b = points[i];
+    const t = (distance - lengths[i - 1]) / (lengths[i] - lengths[i - 1] || 1);
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+  };
+  return { length: lengths[lengths.length - 1], pointAt };
+};
+
+const followPath = (el: CanvasTextElement, textPath: TextPath): Glyph[] => {
+  // One line, whatever breaks the text has.
+  const [line] = layoutText({ ...el, content: el.content.replace(/\n/g, ' '), width: Infinity });
+  const glyphs = splitGlyphs([{ ...line, x: 0, baseline: 0 }], el.letterSpacing ?? 0);
+  const path = walkPath(getPathPoints(el, textPath));
+  const start = el.align === 'left' ? 0 : el.align === 'right' ? path.length - line.width : (path.length - line.width) / 2;
+  return glyphs.map(glyph => {
+    const distance = start + glyph.x;
+    const point = path.pointAt(distance);
+    // The direction across the glyph's width, which smooths out hand-drawn paths.
+    const reach = Math.max(glyph.width / 2, 1);
+    const before = path.pointAt(distance - reach);
+    const after = path.pointAt(distance + reach);
+    return { ...glyph, x: point.x, y: point.y, rotation: toDegrees(Math.atan2(after.y - before.y, after.x - before.x)) };
+  });
+};
+
+const warpGlyphs = (el: CanvasTextElement, warp: TextWarp): Glyph[] => {
+  const amount = clamp(warp.intensity, -100, 100) / 100;
+  const half = Math.max(el.width / 2, 1);
+  return splitGlyphs(layoutText(el), el.letterSpacing ?? 0).map(glyph => {
+    // -1 at the box's left side and 1 at its right.
+    const u = (glyph.x - half) / half;
+    if (warp.style === 'bulge') {
+      const scaleY = 1 + amount * 0.5 * (1 - Math.min(1, u * u));
+      // Stretched about the middle of the text rather than its baseline.
+      return { ...glyph, y: glyph.y + glyph.style.fontSize * MIDDLE * (scaleY - 1), scaleY };
+    }
+    if (warp.style === 'wave') {
+      // One full wave across the box.
+      const amplitude = amount * el.fontSize * 0.5;
+      const phase = ((u + 1) / 2) * Math.PI * 2;
+      const slope = (-amplitude * Math.cos(phase) * Math.PI) / half;
+      return { ...glyph, y: glyph.y - amplitude * Math.sin(phase), rotation: toDegrees(Math.atan(slope)) };
+    }
+    // The middle rises by up to a quarter of the width, the sides stay put.
+    const rise = amount * half * 0.5;
+    return { ...glyph, y: glyph.y - rise * (1 - u * u), rotation: toDegrees(Math.atan((2 * rise * u) / half)) };
+  });
+};
+
+/** The element's characters, on its path or warped, or else in their lines. */
+export const layoutGlyphs = (el: CanvasTextElement): Glyph[] =>
+  el.textPath ? followPath(el, el.textPath)
+    : el.warp ? warpGlyphs(el, el.warp)
+    : splitGlyphs(layoutText(el), el.letterSpacing ?? 0);
+
+/** An SVG transform placing a glyph drawn around its baseline's middle, offset by `origin`. */
+export const getGlyphTransform = (glyph: Glyph, origin: Point = { x: 0, y: 0 }) =>
+  `translate(${origin.x + glyph.x} ${origin.y + glyph.y}) rotate(${glyph.rotation}) scale(1 ${glyph.scaleY})`;
+
+/** A box around every glyph however it's turned, relative to the element, for painting them all with one fill. */
+export const getGlyphBounds = (glyphs: Glyph[]): Bounds => {
+  if (glyphs.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const reaches = glyphs.map(glyph => Math.hypot(glyph.width / 2, glyph.style.fontSize * glyph.scaleY * 1.2));
+  const minX = Math.min(...glyphs.map((glyph, i) => glyph.x - reaches[i]));
+  const minY = Math.min(...glyphs.map((glyph, i) => glyph.y - reaches[i]));
+  const maxX = Math.max(...glyphs.map((glyph, i) => glyph.x + reaches[i]));
+  const maxY = Math.max(...glyphs.map((glyph, i) => glyph.y + reaches[i]));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+/**
+ * A text path along the longest line drawn in a path layer, and the box that
+ * puts it where the line is, with room above for the text. Null if the layer
+ * has no line to follow.
+ */
+export const getDrawnTextPath = (layer: CanvasPathElement, fontSize: number): Pick<CanvasTextElement, 'x' | 'y' | 'width' | 'height' | 'rotation' | 'textPath'> | null => {
+  const lines = getCanvasStrokes(layer).filter(stroke => stroke.mode === 'draw').map(stroke => {
+    // Repeated points would leave the text nowhere to turn.
+    const points = stroke.points.filter((p, i, all) => i === 0 || Math.hypot(p.x - all[i - 1].x, p.y - all[i - 1].y) > 0.5);
+    return { points, length: walkPath(points).length };
+  });
+  const longest = lines.filter(line => line.points.length > 1).sort((a, b) => b.length - a.length)[0];
+  if (!longest) return null;
+
+  // Drawn right to left, the line is turned around so the text isn't upside down.
+  const points = longest.points[0].x > longest.points[longest.points.length - 1].x ? [...longest.points].reverse() : longest.points;
+  const xs = points.map(p => p.x), ys = points.map(p => p.y);
+  const x = Math.min(...xs) - fontSize, y = Math.min(...ys) - fontSize;
+  const width = Math.max(...xs) + fontSize - x, height = Math.max(...ys) + fontSize - y;
+  return {
+    x, y, width, height,
+    rotation: 0,
+    textPath: { shape: 'custom', bend: 0, points: points.map(p => ({ x: (p.x - x) / width, y: (p.y - y) / height })) },
+  };
+};
@@ -0,0 +1,291 @@
+import type { CanvasTextElement, TextSizing, TextTransform } from '../types';
+import { getTextSegments, resolveTextStyle } from './textRuns';
+import type { ResolvedTextStyle } from './textRuns';
+
+// The canvas's text box and the scene renderer must agree on all of these.
+
+export const DEFAULT_LINE_HEIGHT = 1.1;
+/** Space between the box's sides and its text. */
+export const TEXT_PADDING_X = 4;
+
+/** A CSS `font` shorthand, as `ctx.font` takes it. */
+export const getTextFont = (style: Pick<ResolvedTextStyle, 'fontStyle' | 'fontWeight' | 'fontSize' | 'fontFamily'>) =>
+  `${style.fontStyle} ${style.fontWeight} ${style.fontSize}px ${style.fontFamily}`;
+
+/** Every font a text element draws with, for loading them ahead of time. */
+export const getTextFonts = (el: CanvasTextElement) =>
+  [resolveTextStyle(el), ...getTextSegments(el).map(segment => segment.style)].map(getTextFont);
+
+/** A stretch of one line drawn in one style. */
+export interface TextPiece {
+  text: string;
+  /** Offset from the line's left edge. */
+  x: number;
+  width: number;
+  style: ResolvedTextStyle;
+}
+
+export interface TextLine {
+  /** Left edge, top and baseline, relative to the element's top-left corner. */
+  x: number;
+  top: number;
+  baseline: number;
+  width: number;
+  height: number;
+  pieces: TextPiece[];
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const getMeasureContext = () => {
+  if (!measureContext) {
+    measureContext = document.createElement('canvas').getContext('2d');
+    if (!measureContext) throw new Error('Could not create a 2D canvas context.');
+  }
+  return measureContext;
+};
+
+/**
+ * The width `text` takes in `style`. Letter spacing goes after every
+ * character, the last one included, as in CSS.
+ */
+export const measureText = (text: string, style: ResolvedTextStyle, letterSpacing = 0) => {
+  const ctx = getMeasureContext();
+  ctx.font = getTextFont(style);
+  return ctx.measureText(text).width + letterSpacing * Array.from(text).length;
+};
+
+const isSpace = (char: string) => /\s/.test(char);
+
+// As CSS text-transform applies it; `capitalize` only raises the first letter of each word.
+const transformChar = (char: string, transform: TextTransform | undefined, isWordStart: boolean) => {
+  if (transform === 'uppercase' || (transform === 'capitalize' && isWordStart)) return char.toUpperCase();
+  if (transform === 'lowercase') return char.toLowerCase();
+  return char;
+};
+
+interface Fragment {
+  text: string;
+  style: ResolvedTextStyle;
+}
+
+/** A word, the collapsed whitespace between two words, or a line break. */
+interface Atom {
+  kind: 'word' | 'space' | 'break';
+  fragments: Fragment[];
+}
+
+/**
+ * Lays out a text element the way its box does on the canvas, with
+ * `white-space: pre-line`: line breaks are kept, other whitespace collapses,
+ * lines wrap at spaces to fit between the padding, words too long for a line
+ * break anywhere, and each line is aligned on its own. Runs keep their own
+ * fonts, and a line grows to fit its largest one. There is always at least
+ * one line, so an empty box keeps its height.
+ */
+export const layoutText = (el: CanvasTextElement): TextLine[] => {
+  const ctx = getMeasureContext();
+  const letterSpacing = el.letterSpacing ?? 0;
+  const measure = ({ text, style }: Fragment) => measureText(text, style, letterSpacing);
+  const measureAtom = (atom: Atom) => atom.fragments.reduce((sum, fragment) => sum + measure(fragment), 0);
+  const maxWidth = Math.max(0, el.width - TEXT_PADDING_X * 2);
+
+  const atoms: Atom[] = [];
+  let previous = '';
+  getTextSegments(el).forEach(({ text, style }) => {
+    for (const char of Array.from(text)) {
+      const last = atoms[atoms.length - 1];
+      if (char === '\n') {
+        atoms.push({ kind: 'break', fragments: [] });
+      } else if (isSpace(char)) {
+        if (last?.kind === 'word') atoms.push({ kind: 'space', fragments: [{ text: ' ', style }] });
+      } else {
+        const transformed = transformChar(char, el.textTransform, previous === '' || isSpace(previous));
+        const word: Atom = last?.kind === 'word' ? last : { kind: 'word', fragments: [] };
+        if (word !== last) atoms.push(word);
+        const fragment = word.fragments[word.fragments.length - 1];
+        if (fragment && fragment.style === style) {
+          fragment.text += transformed;
+        } else {
+          word.fragments.push({ text: transformed, style });
+        }
+      }
+      previous = char;
+    }
+  });
+
+  const lines: Fragment[][] = [];
+  let line: Fragment[] = [];
+  let lineWidth = 0;
+  let space: Atom | null = null;
+  const breakLine = () => {
+    lines.push(line);
+    line = [];
+    lineWidth = 0;
+  };
+  atoms.forEach(atom => {
+    if (atom.kind === 'space') {
+      space = atom;
+      return;
+    }
+    if (atom.kind === 'break') {
+      // Spaces before a line break are dropped, as in CSS.
+      breakLine();
+      space = null;
+      return;
+    }
+    const spaceWidth = space ? measureAtom(space) : 0;
+    const width = measureAtom(atom);
+    if (line.length > 0 && lineWidth + spaceWidth + width > maxWidth) breakLine();
+    if (line.length > 0 && space) {
+      line.push(...space.fragments);
+      lineWidth += spaceWidth;
+    }
+    space = null;
+    if (line.length > 0 || width <= maxWidth) {
+      line.push(...atom.fragments);
+      lineWidth += width;
+      return;
+    }
+    // Too long for a line of its own, so it breaks between characters,
+    // as with `overflow-wrap: break-word`.
+    atom.fragments.forEach(({ text, style }) => {
+      for (const char of Array.from(text)) {
+        const charWidth = measure({ text: char, style });
+        if (line.length > 0 && lineWidth + charWidth > maxWidth) breakLine();
+        line.push({ text: char, style });
+        lineWidth += charWidth;
+      }
+    });
+  });
+  // A trailing line break doesn't start another line, except in empty text.
+  if (line.length > 0 || lines.length === 0) lines.push(line);
+
+  // Each font's line box is centered on its ascent and descent, as in CSS,
+  // and the line is tall enough for all of them and the element's own font.
+  // Browsers round the font's metrics and the leading above the text to whole
+  // pixels, which keeps the baseline where the canvas draws it.
+  const lineHeight = el.lineHeight ?? DEFAULT_LINE_HEIGHT;
+  const getExtent = (style: ResolvedTextStyle) => {
+    ctx.font = getTextFont(style);
+    const metrics = ctx.measureText('M');
+    const ascent = Math.round(metrics.fontBoundingBoxAscent ?? style.fontSize * 0.9);
+    const descent = Math.round(metrics.fontBoundingBoxDescent ?? style.fontSize * 0.25);
+    const leading = style.fontSize * lineHeight - ascent - descent;
+    const leadingAbove = Math.floor(leading / 2);
+    return { above: ascent + leadingAbove, below: descent + leading - leadingAbove };
+  };
+  const strut = getExtent(resolveTextStyle(el));
+
+  let top = 0;
+  return lines.map(fragments => {
+    const pieces: TextPiece[] = [];
+    let width = 0;
+    fragments.forEach(fragment => {
+      const last = pieces[pieces.length - 1];
+      if (last && last.style === fragment.style) {
+        last.text += fragment.text;
+      } else {
+        pieces.push({ text: fragment.text, style: fragment.style, x: 0, width: 0 });
+      }
+    });
+    pieces.forEach(piece => {
+      piece.x = width;
+      piece.width = measure(piece);
+      width += piece.width;
+    });
+
+    const extents = [strut, ...pieces.map(piece => getExtent(piece.style))];
+    const above = Math.max(...extents.map(extent => extent.above));
+    const below = Math.max(...extents.map(extent => extent.below));
+    const lineTop = top;
+    top += above + below;
+
+    const x = el.align === 'left' ? TEXT_PADDING_X
+      : el.align === 'right' ? TEXT_PADDING_X + maxWidth - width
+      : TEXT_PADDING_X + (maxWidth - width) / 2;
+    return { x, top: lineTop, baseline: lineTop + above, width, height: above + below, pieces };
+  });
+};
+
+const rotate = ({ x, y }: { x: number; y: number }, degrees: number) => {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  return { x: x * cos - y * sin, y: x * sin + y * cos };
+};
+
+/**
+ * The element with its box fitted to its text, for the auto-sizing modes.
+ * The top stays put, as does the side the text is aligned to. Text on a path
+ * goes where the path takes it, so its box is left as it is.
+ */
+export const fitTextBox = (el: CanvasTextElement): CanvasTextElement => {
+  const sizing = el.sizing ?? 'fixed';
+  if (sizing === 'fixed' || el.textPath) return el;
+  const lines = layoutText(sizing === 'auto-width' ? { ...el, width: Infinity } : el);
+  // Rounded up so the box never ends up a fraction too narrow for its longest line.
+  const width = sizing === 'auto-width' ? Math.ceil(Math.max(...lines.map(line => line.width))) + TEXT_PADDING_X * 2 : el.width;
+  const last = lines[lines.length - 1];
+  const height = last.top + last.height;
+  if (width === el.width && height === el.height) return el;
+
+  const anchor = el.align === 'left' ? -0.5 : el.align === 'right' ? 0.5 : 0;
+  const shift = rotate({ x: anchor * (el.width - width), y: (height - el.height) / 2 }, el.rotation);
+  return {
+    ...el,
+    x: el.x + (el.width - width) / 2 + shift.x,
+    y: el.y + (el.height - height) / 2 + shift.y,
+    width,
+    height,
+  };
+};
+
+/**
+ * Geometry and sizing for a text box the user resized to `box`. The text
+ * reflows rather than scaling: changing the height fixes the box, and
+ * changing only the width keeps the height fitted to the text.
+ */
+export const resizeTextBox = (el: CanvasTextElement, box: Pick<CanvasTextElement, 'x' | 'y' | 'width' | 'height'>) => {
+  const sizing: TextSizing = Math.abs(box.height - el.height) > 0.5 || (el.sizing ?? 'fixed') === 'fixed' ? 'fixed' : 'auto-height';
+  const { x, y, width, height } = fitTextBox({ ...el, ...box, sizing });
+  return { x, y, width, height, sizing };
+};
+
+/** Where an underline sits below a line's baseline, and how thick it is. */
+export const getUnderline = (fontSize: number) => ({
+  offset: fontSize * 0.1,
+  thickness: Math.max(1, fontSize / 15),
+});
+
+const GRADIENT_DIRECTIONS: Record<string, [number, number]> = {
+  'to right': [1, 0],
+  'to left': [-1, 0],
+  'to bottom': [0, 1],
+  'to top': [0, -1],
+  'to bottom right': [1, 1],
+  'to top left': [-1, -1],
+  'to top right': [1, -1],
+  'to bottom left': [-1, 1],
+};
+
+/**
+ * Where a text gradient starts and ends, in canvas coordinates. Follows CSS
+ * `linear-gradient`: toward a corner, the middle of the gradient runs through
+ * the two other corners rather than the gradient running corner to corner.
+ */
+export const getGradientLine = (el: Pick<CanvasTextElement, 'x' | 'y' | 'width' | 'height' | 'gradientDirection'>) => {
+  const [sx, sy] = GRADIENT_DIRECTIONS[el.gradientDirection] ?? GRADIENT_DIRECTIONS['to bottom'];
+  // Perpendicular to the diagonal between the other two corners.
+  let dx = sx * (sy === 0 ? 1 : el.height), dy = sy * (sx === 0 ? 1 : el.width);
+  const norm = Math.hypot(dx, dy);
+  dx /= norm;
+  dy /= norm;
+  const length = Math.abs(el.width * dx) + Math.abs(el.height * dy);
+  const cx = el.x + el.width / 2, cy = el.y + el.height / 2;
+  return {
+    x0: cx - (dx * length) / 2,
+    y0: cy - (dy * length) / 2,
+    x1: cx + (dx * length) / 2,
+    y1: cy + (dy * length) / 2,
+  };
+};
@@ -0,0 +1,142 @@
+import type { CanvasTextElement, TextRun, TextRunStyle } from '../types';
+import { DEFAULT_FONT_FAMILY } from './fonts';
+
+const RUN_STYLE_KEYS = ['fontFamily', 'fontSize', 'fontWeight', 'fontStyle', 'textDecoration', 'color'] as const;
+
+type RunStyleKey = typeof RUN_STYLE_KEYS[number];
+
+/** Every character style, with the element's filling in for what a run leaves unset. */
+export type ResolvedTextStyle = Required<TextRunStyle>;
+
+export interface TextSegment {
+  text: string;
+  /** Index of the first character in the element's content. */
+  start: number;
+  style: ResolvedTextStyle;
+}
+
+type TextStyleSource = Pick<CanvasTextElement, 'content' | 'runs' | 'fontFamily' | 'fontSize' | 'fontWeight' | 'fontStyle' | 'textDecoration' | 'color'>;
+
+export const resolveTextStyle = (el: Omit<TextStyleSource, 'content' | 'runs'>, run: TextRunStyle = {}): ResolvedTextStyle => ({
+  fontFamily: run.fontFamily ?? el.fontFamily ?? DEFAULT_FONT_FAMILY,
+  fontSize: run.fontSize ?? el.fontSize,
+  fontWeight: run.fontWeight ?? el.fontWeight,
+  fontStyle: run.fontStyle ?? el.fontStyle,
+  textDecoration: run.textDecoration ?? el.textDecoration,
+  color: run.color ?? el.color,
+});
+
+/** The styles a run sets for the character at `index`, if any. */
+export const getRunStyleAt = (el: Pick<CanvasTextElement, 'runs'>, index: number): TextRunStyle =>
+  el.runs?.find(run => run.start <= index && index < run.end) ?? {};
+
+/** The content split wherever the style changes, in order. */
+export const getTextSegments = (el: TextStyleSource): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  const length = el.content.length;
+  let cursor = 0;
+  const push = (start: number, end: number, run?: TextRun) => {
+    if (end > start) segments.push({ text: el.content.slice(start, end), start, style: resolveTextStyle(el, run) });
+  };
+  el.runs?.forEach(run => {
+    const start = Math.max(cursor, Math.min(run.start, length));
+    const end = Math.min(run.end, length);
+    push(cursor, start);
+    push(start, end, run);
+    cursor = Math.max(cursor, end);
+  });
+  push(cursor, length);
+  return segments;
+};
+
+const pickStyle = (run: TextRunStyle) => {
+  const style: TextRunStyle = {};
+  RUN_STYLE_KEYS.forEach(key => {
+    if (run[key] !== undefined) (style as Record<RunStyleKey, unknown>)[key] = run[key];
+  });
+  return style;
+};
+
+const isSameStyle = (a: TextRunStyle, b: TextRunStyle) => RUN_STYLE_KEYS.every(key => a[key] === b[key]);
+
+// Sorts runs, drops empty and unstyled ones, and joins touching runs with the same style.
+const normalizeRuns = (runs: TextRun[]): TextRun[] => {
+  const result: TextRun[] = [];
+  [...runs].sort((a, b) => a.start - b.start).forEach(run => {
+    if (run.end <= run.start || Object.keys(pickStyle(run)).length === 0) return;
+    const last = result[result.length - 1];
+    if (last && last.end === run.start && isSameStyle(last, run)) {
+      last.end = run.end;
+    } else {
+      result.push({ ...run });
+    }
+  });
+  return result;
+};
+
+/**
+ * Sets `style` on the characters from `start` up to `end`. Styles that end up
+ * matching the element's own are dropped, so the runs only hold real overrides.
+ */
+export const applyRunStyle = (el: TextStyleSource, start: number, end: number, style: TextRunStyle): TextRun[] => {
+  start = Math.max(0, Math.min(start, el.content.length));
+  end = Math.max(start, Math.min(end, el.content.length));
+  const runs: TextRun[] = [];
+  let cursor = start;
+  (el.runs ?? []).forEach(run => {
+    if (run.end <= start || run.start >= end) {
+      runs.push(run);
+      return;
+    }
+    if (run.start < start) runs.push({ ...run, end: start });
+    const inner = { ...run, start: Math.max(run.start, start), end: Math.min(run.end, end) };
+    // Characters in the range without a run of their own get a new one.
+    if (inner.start > cursor) runs.push({ start: cursor, end: inner.start, ...style });
+    runs.push({ ...inner, ...style });
+    cursor = inner.end;
+    if (run.end > end) runs.push({ ...run, start: end });
+  });
+  if (cursor < end) runs.push({ start: cursor, end, ...style });
+
+  const base = resolveTextStyle(el);
+  return normalizeRuns(runs.map(run => {
+    const trimmed: TextRun = { start: run.start, end: run.end, ...pickStyle(run) };
+    RUN_STYLE_KEYS.forEach(key => {
+      if (trimmed[key] === base[key]) delete trimmed[key];
+    });
+    return trimmed;
+  }));
+};
+
+/** Removes the given styles from every run, for when they're set on the whole element. */
+export const clearRunStyles = (runs: TextRun[] | undefined, keys: string[]): TextRun[] | undefined => {
+  if (!runs) return runs;
+  return normalizeRuns(runs.map(run => {
+    const cleared = { ...run };
+    keys.forEach(key => delete (cleared as Record<string, unknown>)[key]);
+    return cleared;
+  }));
+};
+
+/**
+ * Moves runs to follow an edit from `before` to `after`. Text typed at the
+ * end of a run joins it, as in a word processor.
+ */
+export const remapRuns = (before: string, after: string, runs: TextRun[] | undefined): TextRun[] | undefined => {
+  if (!runs || before === after) return runs;
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix && suffix < after.length - prefix
+    && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) suffix++;
+  const removedEnd = before.length - suffix;
+  const insertedEnd = after.length - suffix;
+  const map = (index: number) => index < prefix ? index : index >= removedEnd ? index + insertedEnd - removedEnd : insertedEnd;
+  return normalizeRuns(runs.map(run => ({
+    ...run,
+    start: map(run.start),
+    end: run.end === prefix ? insertedEnd : map(run.end),
+  })));
+};
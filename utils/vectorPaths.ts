@@ -0,0 +1,127 @@
+import type { CanvasPathElement, VectorStroke } from '../types';
+import type { Bounds, Point } from './geometry';
+
+// At full smoothing each point is averaged with this many neighbours on either side.
+const MAX_SMOOTHING_RADIUS = 8;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const smoothPoints = (points: Point[], smoothing: number): Point[] => {
+  const radius = Math.round(smoothing * MAX_SMOOTHING_RADIUS);
+  if (radius === 0 || points.length < 3) return points;
+  return points.map((point, i) => {
+    // Keep the ends where the user put them.
+    if (i === 0 || i === points.length - 1) return point;
+    const from = Math.max(0, i - radius);
+    const to = Math.min(points.length - 1, i + radius);
+    let x = 0, y = 0;
+    for (let j = from; j <= to; j++) {
+      x += points[j].x;
+      y += points[j].y;
+    }
+    const count = to - from + 1;
+    return { x: x / count, y: y / count };
+  });
+};
+
+/** SVG path data for a stroke. The same string feeds `<path d>` and `Path2D`. */
+export const getStrokePathData = (stroke: VectorStroke): string => {
+  const points = smoothPoints(stroke.points, stroke.smoothing);
+  if (points.length === 0) return '';
+  const [first] = points;
+  let d = `M${round(first.x)} ${round(first.y)}`;
+  // Quadratic curves through the midpoints between samples avoid visible corners.
+  for (let i = 1; i < points.length - 1; i++) {
+    const midX = (points[i].x + points[i + 1].x) / 2;
+    const midY = (points[i].y + points[i + 1].y) / 2;
+    d += ` Q${round(points[i].x)} ${round(points[i].y)} ${round(midX)} ${round(midY)}`;
+  }
+  const last = points[points.length - 1];
+  return `${d} L${round(last.x)} ${round(last.y)}`;
+};
+
+/** Bounds of the drawn strokes including their width, or null if nothing is drawn. */
+export const getStrokesBounds = (strokes: VectorStroke[]): Bounds | null => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  strokes.forEach(stroke => {
+    if (stroke.mode !== 'draw' || stroke.points.length < 2) return;
+    const pad = stroke.width / 2;
+    stroke.points.forEach(point => {
+      minX = Math.min(minX, point.x - pad);
+      minY = Math.min(minY, point.y - pad);
+      maxX = Math.max(maxX, point.x + pad);
+      maxY = Math.max(maxY, point.y + pad);
+    });
+  });
+  if (minX === Infinity) return null;
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+/**
+ * Strokes `strokes` in order onto `ctx`. Erase strokes punch through
+ * everything already on the context, so draw onto a canvas of their own.
+ */
+export const drawStrokes = (ctx: CanvasRenderingContext2D, strokes: VectorStroke[]) => {
+  strokes.forEach(stroke => {
+    if (stroke.points.length < 2) return;
+    ctx.save();
+    ctx.globalCompositeOperation = stroke.mode === 'erase' ? 'destination-out' : 'source-over';
+    ctx.globalAlpha = stroke.opacity;
+    ctx.strokeStyle = stroke.color;
+    ctx.lineWidth = stroke.width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.stroke(new Path2D(getStrokePathData(stroke)));
+    ctx.restore();
+  });
+};
+
+/** Renders a path layer at `scale` times its size on the canvas. */
+export const rasterizePath = (element: CanvasPathElement, scale = 1): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(element.width * scale));
+  canvas.height = Math.max(1, Math.ceil(element.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a 2D canvas context.');
+  ctx.scale(canvas.width / element.viewBox.width, canvas.height / element.viewBox.height);
+  drawStrokes(ctx, element.strokes);
+  return canvas;
+};
+
+/**
+ * Builds a path layer's geometry from strokes in canvas coordinates: the box
+ * hugs the drawn strokes and the points become relative to it.
+ */
+export const createPathGeometry = (strokes: VectorStroke[]): Pick<CanvasPathElement, 'x' | 'y' | 'width' | 'height' | 'strokes' | 'viewBox'> | null => {
+  const bounds = getStrokesBounds(strokes);
+  if (!bounds || bounds.width <= 0 || bounds.height <= 0) return null;
+  return {
+    ...bounds,
+    viewBox: { width: bounds.width, height: bounds.height },
+    strokes: strokes.map(stroke => ({
+      ...stroke,
+      points: stroke.points.map(p => ({ x: p.x - bounds.x, y: p.y - bounds.y })),
+    })),
+  };
+};
+
+/** The inverse of `createPathGeometry`: a path layer's strokes in canvas coordinates, with its resize and rotation applied. */
+export const getCanvasStrokes = (element: CanvasPathElement): VectorStroke[] => {
+  const scaleX = element.width / element.viewBox.width;
+  const scaleY = element.height / element.viewBox.height;
+  const angle = (element.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const cx = element.x + element.width / 2;
+  const cy = element.y + element.height / 2;
+
+  return element.strokes.map(stroke => ({
+    ...stroke,
+    width: stroke.width * (scaleX + scaleY) / 2,
+    points: stroke.points.map(p => {
+      const dx = element.x + p.x * scaleX - cx;
+      const dy = element.y + p.y * scaleY - cy;
+      return { x: cx + dx * cos - dy * sin, y: cy + dx * sin + dy * cos };
+    }),
+  }));
+};
@@ -0,0 +1,42 @@
+/// <reference types="@vitest/browser/providers/playwright" />
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  // Found up front, so the first browser run doesn't reload halfway through.
+  optimizeDeps: {
+    include: ['react', 'react/jsx-dev-runtime', 'react-dom', 'react-dom/client', 'react-moveable'],
+  },
+  test: {
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: 'unit',
+          include: ['**/*.test.ts'],
+          exclude: ['node_modules/**', 'dist/**'],
+          environment: 'node',
+        },
+      },
+      // These run in a real browser, so the canvas and the DOM lay out and
+      // paint text the way they do for users. `npm run test:browser`
+      // installs Chromium first; point CHROME_PATH at an existing Chrome to
+      // use that instead.
+      {
+        extends: true,
+        test: {
+          name: 'browser',
+          include: ['**/*.browser.test.tsx'],
+          exclude: ['node_modules/**', 'dist/**'],
+          browser: {
+            enabled: true,
+            provider: 'playwright',
+            headless: true,
+            // Big enough for the tests' canvases, so the page isn't scaled down.
+            viewport: { width: 400, height: 300 },
+            instances: [{ browser: 'chromium', launch: { executablePath: process.env.CHROME_PATH || undefined } }],
+          },
+        },
+      },
+    ],
+  },
+});